@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import { useController, FAMILY_MEEPLE_POINTS } from '@/lib/game-engine/react';
+import type { ControllerView, Meeple } from '@/lib/game-engine/react';
+import { useLocale, describeGameError } from '@/lib/i18n';
+
+interface AnswerFormProps {
+  view: ControllerView;
+  onSubmit: (answer: number) => void;
+}
+
+// Typed on the player's own screen, so nobody at the table sees it
+function AnswerForm({ view, onSubmit }: AnswerFormProps) {
+  const { t, formatNumber } = useLocale();
+  const [input, setInput] = useState('');
+
+  const submit = () => {
+    const answer = parseFloat(input);
+    if (!Number.isFinite(answer)) return;
+    onSubmit(answer);
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {view.question?.precision !== undefined && (
+        <p className="text-sm text-gray-500">{t.answering.precisionHint(view.question.precision)}</p>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          step="any"
+          inputMode="decimal"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder={t.answering.answerPlaceholder}
+          className="flex-1 px-4 py-3 text-lg border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {view.question?.unit && <span className="text-gray-600">{view.question.unit}</span>}
+      </div>
+      <button
+        onClick={submit}
+        className="w-full px-6 py-3 bg-green-500 text-white text-lg font-bold rounded-lg hover:bg-green-600 transition-colors"
+      >
+        {t.controller.send}
+      </button>
+      {view.answer !== null && (
+        <p className="text-center font-semibold text-green-600">
+          {t.controller.yourAnswer(formatNumber(view.answer))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ChipBoardProps {
+  view: ControllerView;
+  onPlaceBet: (slotIndex: number, wager?: number, meeple?: Meeple) => void;
+}
+
+function ChipBoard({ view, onPlaceBet }: ChipBoardProps) {
+  const { t, formatNumber } = useLocale();
+  const [wagerInput, setWagerInput] = useState('');
+  const [selectedMeeple, setSelectedMeeple] = useState<Meeple>('big');
+  const chipsLeft = view.bets.length < view.maxBets;
+  const isBankroll = view.scoringMode === 'bankroll';
+  const isFamily = view.scoringMode === 'family';
+
+  const placeBet = (slotIndex: number) => {
+    const wager = isBankroll ? parseInt(wagerInput) || 0 : undefined;
+    // An already placed meeple falls back to the free one
+    const meeple = isFamily && !view.meeples.includes(selectedMeeple) ? selectedMeeple : undefined;
+    onPlaceBet(slotIndex, wager, meeple);
+    setWagerInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-center text-gray-600">
+        {chipsLeft ? t.controller.placeChip : t.controller.allChipsPlaced}
+        {' • '}
+        {t.betting.chips(view.bets.length, view.maxBets)}
+      </p>
+      {isBankroll && chipsLeft && (
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="wager" className="text-gray-700">{t.controller.wager}</label>
+          <input
+            id="wager"
+            type="number"
+            min="0"
+            max={view.bankroll}
+            inputMode="numeric"
+            value={wagerInput}
+            onChange={(e) => setWagerInput(e.target.value)}
+            placeholder="0"
+            className="px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-24"
+          />
+          <span className="text-sm text-gray-600">{t.betting.available(view.bankroll)}</span>
+        </div>
+      )}
+      {isFamily && chipsLeft && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-700">{t.controller.meeple}</span>
+          {(['big', 'small'] as const).map(meeple => (
+            <button
+              key={meeple}
+              disabled={view.meeples.includes(meeple)}
+              onClick={() => setSelectedMeeple(meeple)}
+              className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-40 ${
+                selectedMeeple === meeple && !view.meeples.includes(meeple)
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {t.meeples[meeple]} ({formatNumber(FAMILY_MEEPLE_POINTS[meeple])})
+            </button>
+          ))}
+        </div>
+      )}
+      {view.bettingBoard.map(slot => {
+        const myChips = view.bets.filter(index => index === slot.index).length;
+        return (
+          <button
+            key={slot.index}
+            onClick={() => placeBet(slot.index)}
+            disabled={!chipsLeft}
+            className={`w-full p-4 rounded-lg text-left transition-colors disabled:cursor-not-allowed ${
+              myChips > 0 ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            <span className="font-bold">
+              {slot.isSpecial
+                ? t.board.smallerThanAll
+                : slot.answerGroups.length > 0
+                  ? slot.answerGroups.map(g => formatNumber(g.answer)).join(' | ')
+                  : t.betting.emptySlot}
+            </span>
+            {!isFamily && <span className="ml-2 text-sm">{t.board.odds(slot.payout)}</span>}
+            {myChips > 0 && <span className="ml-2">{'●'.repeat(myChips)}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ControllerSessionProps {
+  tableId: string;
+  onLeave: () => void;
+}
+
+// One phone linked to one table screen
+function ControllerSession({ tableId, onLeave }: ControllerSessionProps) {
+  const { t } = useLocale();
+  const { status, seats, seatId, view, error, seatError, actions } = useController(tableId);
+
+  const header = (
+    <div className="flex justify-between items-center mb-4">
+      <div>
+        <h1 className="text-2xl font-bold">{view?.name ?? t.controller.title}</h1>
+        {view && <p className="text-gray-600">{t.controller.score(view.score)}</p>}
+      </div>
+      <button
+        onClick={seatId ? actions.release : onLeave}
+        className="px-3 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+      >
+        {seatId ? t.controller.changeSeat : t.controller.changeTable}
+      </button>
+    </div>
+  );
+
+  if (status !== 'linked') {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        {header}
+        <p className="text-center text-gray-600">
+          {status === 'connecting'
+            ? t.controller.connecting
+            : status === 'noTable'
+              ? t.controller.noTable
+              : t.controller.tableClosed}
+        </p>
+      </div>
+    );
+  }
+
+  const seatMessage = seatError && (
+    <p className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg">{t.controller.seatErrors[seatError]}</p>
+  );
+
+  if (seatId === null) {
+    return (
+      <div className="container mx-auto p-4 max-w-md">
+        {header}
+        {seatMessage}
+        {seats.length === 0 ? (
+          <p className="text-center text-gray-600">{t.controller.waitingForTable}</p>
+        ) : (
+          <div className="space-y-2">
+            <h2 className="text-xl font-semibold mb-2">{t.controller.chooseSeat}</h2>
+            {seats.map(seat => (
+              <button
+                key={seat.id}
+                onClick={() => actions.claim(seat.id)}
+                className="w-full px-6 py-3 bg-blue-500 text-white text-lg rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                {seat.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-md">
+      {header}
+      {seatMessage}
+
+      {view?.question && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-500">{t.common.round(view.round + 1, view.totalRounds)}</p>
+          <h2 className="text-xl font-semibold">{view.question.question}</h2>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg">{describeGameError(error, t)}</p>
+      )}
+
+      {view?.phase === 'answering' ? (
+        <AnswerForm view={view} onSubmit={actions.submitAnswer} />
+      ) : view?.phase === 'betting' ? (
+        <ChipBoard view={view} onPlaceBet={actions.placeBet} />
+      ) : (
+        <p className="text-center text-gray-600 mt-8">{t.controller.lookAtTable}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A player's phone: they type in the code shown on the table screen, then
+ * answer and place chips here while the table screen shows the game
+ */
+export default function Controller() {
+  const { t } = useLocale();
+  const [codeInput, setCodeInput] = useState('');
+  const [tableId, setTableId] = useState<string | null>(null);
+
+  if (tableId) {
+    // Keyed, so another table starts a fresh link
+    return <ControllerSession key={tableId} tableId={tableId} onLeave={() => setTableId(null)} />;
+  }
+
+  const join = () => {
+    const code = codeInput.trim().toUpperCase();
+    if (code) setTableId(code);
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-md">
+      <h1 className="text-3xl font-bold mb-6 text-center">{t.controller.title}</h1>
+      <label htmlFor="table-code" className="block text-xl font-semibold mb-2">
+        {t.controller.tableCode}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="table-code"
+          value={codeInput}
+          onChange={(e) => setCodeInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && join()}
+          autoCapitalize="characters"
+          autoComplete="off"
+          className="flex-1 px-4 py-3 text-lg font-mono uppercase border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={join}
+          className="px-6 py-3 bg-blue-500 text-white text-lg rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          {t.controller.join}
+        </button>
+      </div>
+      <p className="text-gray-600 mt-4">{t.controller.waitingForTable}</p>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n/locales";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,9 +13,12 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// The static export is rendered in the default language
+const { meta } = getMessages(DEFAULT_LOCALE);
+
 export const metadata: Metadata = {
-  title: "Wits and Wagers",
-  description: "Un juego de apuestas de trivia donde los jugadores adivinan respuestas y apuestan por la más cercana",
+  title: meta.title,
+  description: meta.description,
 };
 
 export default function RootLayout({
@@ -23,7 +27,7 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={DEFAULT_LOCALE}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
@@ -1,136 +1,542 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useGame } from '@/lib/game-engine/react';
-import type { Question } from '@/lib/game-engine/react';
-import { createBettingBoard, getWinningSlotIndex } from '@/lib/game-engine/core/betting-board';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useGame, useControllerHost, createTableId, GAME_CONFIG_PRESETS, FAMILY_MEEPLE_POINTS, getBoardMiddleSlotIndex, isGameError } from '@/lib/game-engine/react';
+import type {
+  Question,
+  GameConfig,
+  GameConfigPresetName,
+  Meeple,
+  BettingSlot,
+  WinningRuleName,
+  BoardOverflow,
+  QuestionSelectionMode,
+  BetTimeoutFallback,
+  LateJoinScore,
+} from '@/lib/game-engine/react';
+import { deserializeGameState } from '@/lib/game-engine/core/serialization';
+import { SavedGamesStore, type SavedGameSummary } from '@/lib/game-engine/core/saved-games';
+import type { GameState } from '@/lib/game-engine/core/types';
+import { useLocale, loadQuestions, describeGameError, LOCALE_NAMES, type Locale, type Messages } from '@/lib/i18n';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
 
+const AUTOSAVE_KEY = 'wits-and-wagers:autosave';
+
+// No final wager confirmed yet
+const NO_FINAL_WAGER_PROGRESS = { key: '', confirmed: [] as string[], done: false };
+
+// Empty or invalid input means no time limit
+function parseTimeLimit(value: string): number | null {
+  const seconds = parseInt(value);
+  return seconds > 0 ? seconds : null;
+}
+
+// Family rules have no odds, so answer slots get no payout label
+function getSlotTitle(slot: BettingSlot, config: GameConfig, t: Messages): string | null {
+  if (config.scoringMode === 'family') return slot.isSpecial ? t.board.smallerThanAll : null;
+  return slot.isSpecial ? t.board.specialSlot(slot.payout) : t.board.answerSlot(slot.payout);
+}
+
+// Rule options chosen on their own, independently of the preset
+const SEPARATE_OPTIONS: (keyof GameConfig)[] = [
+  'scoringMode',
+  'winningRule',
+  'boardOverflow',
+  'questionSelection',
+  'answerTimeLimitSeconds',
+  'betTimeLimitSeconds',
+  'betTimeoutFallback',
+  'finalWager',
+  'secretBetting',
+  'lateJoinScore',
+];
+
+// Keeps the chosen separate options when switching presets.
+// The scoring mode is reset when switching into or out of family rules.
+function withChosenOptions(preset: GameConfig, current: GameConfig): GameConfig {
+  const config = {
+    ...preset,
+    winningRule: current.winningRule,
+    boardOverflow: current.boardOverflow,
+    questionSelection: current.questionSelection,
+    answerTimeLimitSeconds: current.answerTimeLimitSeconds,
+    betTimeLimitSeconds: current.betTimeLimitSeconds,
+    betTimeoutFallback: current.betTimeoutFallback,
+    // Family rules have no odds to pay a final wager at
+    finalWager: preset.scoringMode !== 'family' && current.finalWager,
+    lateJoinScore: current.lateJoinScore,
+  };
+  if (preset.scoringMode === 'family' || current.scoringMode === 'family') return config;
+  return { ...config, scoringMode: current.scoringMode };
+}
+
+// Presets are compared field by field since restored games carry a copy.
+// Options chosen separately are ignored here.
+function findPresetName(config: GameConfig): GameConfigPresetName | null {
+  const names = Object.keys(GAME_CONFIG_PRESETS) as GameConfigPresetName[];
+  return names.find(name => {
+    const preset = GAME_CONFIG_PRESETS[name];
+    return (Object.keys(preset) as (keyof GameConfig)[]).every(key =>
+      SEPARATE_OPTIONS.includes(key) ||
+      JSON.stringify(preset[key]) === JSON.stringify(config[key])
+    );
+  }) ?? null;
+}
+
+interface Autosave {
+  serialized: string;
+  state: GameState;
+}
+
+// Returns the autosaved game if there is one still in progress
+function readAutosave(): Autosave | null {
+  const serialized = localStorage.getItem(AUTOSAVE_KEY);
+  if (!serialized) return null;
+
+  try {
+    const state = deserializeGameState(serialized);
+    if (state.phase === 'setup' || state.phase === 'game-over') return null;
+    return { serialized, state };
+  } catch {
+    // Corrupt or unsupported save: nothing to resume
+    return null;
+  }
+}
+
+interface SavedGamesPanelProps {
+  savedGames: SavedGameSummary[];
+  onResume: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+// Setup-screen browser for named saved games
+function SavedGamesPanel({ savedGames, onResume, onDuplicate, onRename, onDelete }: SavedGamesPanelProps) {
+  const { t } = useLocale();
+  if (savedGames.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-semibold mb-4">{t.savedGames.title}</h2>
+      <div className="space-y-2">
+        {savedGames.map(game => (
+          <div key={game.name} className="p-3 bg-gray-50 rounded-lg">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-medium">{game.name}</p>
+                <p className="text-sm text-gray-600">
+                  {game.phase === 'game-over'
+                    ? t.savedGames.finished
+                    : t.common.round(game.currentRound + 1, game.totalRounds)}
+                  {game.leaders.length > 0 && (
+                    ` • ${t.savedGames.leader(game.leaders.map(l => l.name).join(', '), game.leaders[0].score)}`
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {t.savedGames.created(game.createdAt)}
+                  {' • '}
+                  {t.savedGames.updated(game.updatedAt)}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-1 justify-end">
+                <button
+                  onClick={() => onResume(game.name)}
+                  className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+                >
+                  {t.savedGames.resume}
+                </button>
+                <button
+                  onClick={() => onDuplicate(game.name)}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                >
+                  {t.savedGames.duplicate}
+                </button>
+                <button
+                  onClick={() => onRename(game.name)}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                >
+                  {t.savedGames.rename}
+                </button>
+                <button
+                  onClick={() => onDelete(game.name)}
+                  className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                >
+                  {t.savedGames.delete}
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface UndoRedoControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Host controls for correcting mistakes, shown on every phase screen
+function UndoRedoControls({ canUndo, canRedo, onUndo, onRedo }: UndoRedoControlsProps) {
+  const { t } = useLocale();
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {t.history.undo}
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {t.history.redo}
+      </button>
+    </div>
+  );
+}
+
+// Each language is offered under its own name
+function LanguageSwitcher() {
+  const { locale, setLocale } = useLocale();
+  return (
+    <div className="flex gap-1">
+      {(Object.keys(LOCALE_NAMES) as Locale[]).map(code => (
+        <button
+          key={code}
+          onClick={() => setLocale(code)}
+          className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+            locale === code
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+        >
+          {LOCALE_NAMES[code]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PhaseCountdownProps {
+  remainingMs: number;
+  paused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+function PhaseCountdown({ remainingMs, paused, onPause, onResume }: PhaseCountdownProps) {
+  const { t } = useLocale();
+  const seconds = Math.ceil(remainingMs / 1000);
+  return (
+    <div className="flex justify-center items-center gap-3 mt-2">
+      <span
+        className={`text-3xl font-bold tabular-nums ${
+          seconds <= 5 && !paused ? 'text-red-600' : 'text-gray-800'
+        }`}
+      >
+        ⏱ {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+      </span>
+      <button
+        onClick={paused ? onResume : onPause}
+        className="px-4 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+      >
+        {paused ? t.countdown.resume : t.countdown.pause}
+      </button>
+    </div>
+  );
+}
+
 export default function Home() {
-  // Load questions from JSON
+  const { locale, t, formatNumber } = useLocale();
+
+  // Load questions from JSON, in the chosen language
   const [allQuestions, setAllQuestions] = useState<Question[]>([]);
+  // Display names of the canonical label IDs in the chosen language
+  const [labelNames, setLabelNames] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [pendingAutosave, setPendingAutosave] = useState<Autosave | null>(null);
+  // The autosave is only offered on the first load, not on every language change
+  const autosaveChecked = useRef(false);
 
   useEffect(() => {
     const basePath = process.env.NEXT_PUBLIC_BASE_PATH || '';
-    fetch(`${basePath}/questions.json`)
-      .then(res => res.json())
-      .then((data: Question[]) => {
-        setAllQuestions(data);
-        setIsLoading(false);
-      });
-  }, []);
+    let stale = false;
+    loadQuestions(basePath, locale).then(({ questions, labelNames }) => {
+      // A newer language was picked while this one loaded
+      if (stale) return;
+      setAllQuestions(questions);
+      setLabelNames(labelNames);
+      if (!autosaveChecked.current) {
+        autosaveChecked.current = true;
+        setPendingAutosave(readAutosave());
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [locale]);
 
   // Initialize game engine with loaded questions
   const game = useGame(allQuestions);
-  const { phase, players, currentQuestion, currentRound, totalRounds, state, actions } = game;
+  const { phase, players, competitors, activeCompetitors, currentQuestion, currentRound, totalRounds, state, actions } = game;
+
+  // Players answer and bet on their phones; this one becomes the table display
+  const [tableId, setTableId] = useState<string | null>(null);
+  const controllersEnabled = tableId !== null;
+  const linkStatus = useControllerHost(game, tableId);
+  // Hot-seat answering: the device goes round and each answer is typed in private
+  const [passAndPlay, setPassAndPlay] = useState(false);
+  // Who passed the curtain and is typing their answer
+  const [answeringPlayer, setAnsweringPlayer] = useState<string | null>(null);
+  // Round whose answers were typed in where everyone could see them, so they can be shown again after undo
+  const [sharedAnswersRound, setSharedAnswersRound] = useState<number | null>(null);
 
   // UI-only state
   const [newPlayerName, setNewPlayerName] = useState('');
+  const [newTeamName, setNewTeamName] = useState('');
   const [currentPlayerAnswerInput, setCurrentPlayerAnswerInput] = useState<Record<string, string>>({});
-  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
   const [activeBettingPlayer, setActiveBettingPlayer] = useState<string | null>(null);
+  // Points the active player adds to their next chip (bankroll mode)
+  const [wagerInput, setWagerInput] = useState('');
+  // Meeple the active player places next (family rules)
+  const [selectedMeeple, setSelectedMeeple] = useState<Meeple>('big');
+  // Final wager entry, keyed by game and round so it starts over every final round.
+  // Cleared whenever another game starts, since a fixed seed repeats the key.
+  const [finalWagerProgress, setFinalWagerProgress] = useState(NO_FINAL_WAGER_PROGRESS);
+  const [finalWagerSlot, setFinalWagerSlot] = useState<number | null>(null);
+  const [finalWagerAmount, setFinalWagerAmount] = useState('');
+  // Name the current game is saved under (empty = autosave only)
+  const [saveName, setSaveName] = useState('');
+  // Bumped after changing saved games so the list re-renders
+  const [, setSavedGamesRevision] = useState(0);
 
   // Auto-select next player who needs to bet when entering betting phase
   useEffect(() => {
     if (phase === 'betting') {
-      const nextPlayer = players.find(p => {
+      const nextPlayer = activeCompetitors.find(p => {
         const bet = state.playerBets.find(b => b.playerId === p.id);
-        return !bet || bet.betOnSlotIndices.length < 2;
+        return !bet || bet.betOnSlotIndices.length < state.config.maxBetsPerPlayer;
       });
       setActiveBettingPlayer(nextPlayer?.id || null);
     }
-  }, [phase, players, state.playerBets]);
+  }, [phase, activeCompetitors, state.playerBets, state.config.maxBetsPerPlayer]);
+
+  // Runs engine actions, telling the players when the rules reject one
+  const runGameAction = useCallback((action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      if (!isGameError(error)) throw error;
+      alert(describeGameError(error, t));
+    }
+  }, [t]);
 
-  // Sync selected labels with game engine
+  // Drive the phase countdown; the engine ends the phase once it runs out
   useEffect(() => {
-    if (!isLoading) {
-      actions.setQuestionLabels(selectedLabels);
+    if (phase !== 'answering' && phase !== 'betting') return;
+    const interval = setInterval(() => {
+      if (phase === 'answering' && actions.getTimeRemaining() === 0 && !actions.isTimerPaused()) {
+        // Lock in answers typed but not yet submitted
+        runGameAction(() => {
+          Object.entries(currentPlayerAnswerInput).forEach(([playerId, input]) => {
+            const answer = parseFloat(input);
+            if (Number.isFinite(answer)) actions.submitAnswer(playerId, answer);
+          });
+        });
+        setCurrentPlayerAnswerInput({});
+        setAnsweringPlayer(null);
+      }
+      actions.tick();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [phase, actions, currentPlayerAnswerInput, runGameAction]);
+
+  // Autosave after every action once a game is under way
+  useEffect(() => {
+    if (phase !== 'setup') {
+      const serialized = actions.serialize();
+      localStorage.setItem(AUTOSAVE_KEY, serialized);
+      if (saveName.trim()) {
+        new SavedGamesStore(localStorage).save(saveName, serialized);
+      }
     }
-  }, [selectedLabels, isLoading, actions]);
+  }, [state, phase, actions, saveName]);
+
+  // Label filter lives in the engine so undo/redo restores it too
+  const selectedLabels = state.selectedLabels;
+
+  // Labels are filtered by canonical ID but shown translated
+  const getLabelName = (label: string) => labelNames[label] ?? label;
 
   // UI helper functions
   const toggleLabel = (label: string) => {
-    setSelectedLabels(prev =>
-      prev.includes(label)
-        ? prev.filter(l => l !== label)
-        : [...prev, label]
+    actions.setQuestionLabels(
+      selectedLabels.includes(label)
+        ? selectedLabels.filter(l => l !== label)
+        : [...selectedLabels, label]
     );
   };
 
   const addPlayer = () => {
     if (newPlayerName.trim()) {
-      actions.addPlayer(newPlayerName.trim());
-      setNewPlayerName('');
+      runGameAction(() => {
+        actions.addPlayer(newPlayerName.trim());
+        setNewPlayerName('');
+      });
     }
   };
 
-  const handleStartGame = () => {
-    if (state.filteredQuestions.length === 0) {
-      alert('¡No hay preguntas disponibles con las etiquetas seleccionadas!');
-      return;
+  const addTeam = () => {
+    if (newTeamName.trim()) {
+      runGameAction(() => {
+        actions.addTeam(newTeamName.trim());
+        setNewTeamName('');
+      });
     }
-    if (players.length < 2) {
-      alert('¡Se necesitan al menos 2 jugadores!');
+  };
+
+  // Names of a team's members, or an empty string for individual players
+  const getMemberNames = (competitorId: string) => {
+    const team = state.teams.find(t => t.id === competitorId);
+    return team
+      ? team.memberIds.map(id => players.find(p => p.id === id)?.name).join(', ')
+      : '';
+  };
+
+  const refreshSavedGames = () => setSavedGamesRevision(r => r + 1);
+
+  const handleStartGame = () => {
+    if (saveName.trim() && new SavedGamesStore(localStorage).has(saveName)) {
+      alert(t.savedGames.nameTaken);
       return;
     }
-    actions.startGame();
+    runGameAction(() => {
+      actions.startGame();
+      // The new game's autosave replaces the old one
+      setPendingAutosave(null);
+      setFinalWagerProgress(NO_FINAL_WAGER_PROGRESS);
+    });
   };
 
-  // Check if all players have valid answers filled in
-  const allAnswersFilled = () => {
-    return players.every(player => {
-      const answerStr = currentPlayerAnswerInput[player.id];
-      if (!answerStr || answerStr.trim() === '') return false;
-      const answer = parseFloat(answerStr);
-      return !isNaN(answer) && answer >= 0;
-    });
+  const handleSeedChange = (value: string) => {
+    runGameAction(() => actions.setSeed(value.trim() === '' ? null : Number(value)));
   };
 
-  const handleFinishAnswering = () => {
-    if (!allAnswersFilled()) {
-      alert('¡Todos los jugadores deben ingresar una respuesta válida!');
+  const handleConfigChange = (config: GameConfig) => {
+    runGameAction(() => actions.setConfig(config));
+  };
+
+  const handleContinueAutosave = () => {
+    if (!pendingAutosave) return;
+    actions.restore(pendingAutosave.serialized);
+    // Nobody knows how a restored round's answers were given, so they stay hidden
+    setSharedAnswersRound(null);
+    setFinalWagerProgress(NO_FINAL_WAGER_PROGRESS);
+    setPendingAutosave(null);
+  };
+
+  const handleDiscardAutosave = () => {
+    localStorage.removeItem(AUTOSAVE_KEY);
+    setPendingAutosave(null);
+  };
+
+  const handleResumeSavedGame = (name: string) => {
+    try {
+      actions.restore(new SavedGamesStore(localStorage).load(name));
+    } catch {
+      // Corrupt, deleted in another tab, or saved by a newer version
+      alert(t.savedGames.cannotLoad(name));
+      refreshSavedGames();
       return;
     }
-    
-    // Submit all answers at once
-    players.forEach(player => {
-      const answer = parseFloat(currentPlayerAnswerInput[player.id]);
-      actions.submitAnswer(player.id, answer);
-    });
-    
-    // Clear input state and proceed to betting
-    setCurrentPlayerAnswerInput({});
-    actions.finishAnswering();
+    setSaveName(name);
+    setSharedAnswersRound(null);
+    setFinalWagerProgress(NO_FINAL_WAGER_PROGRESS);
+    setPendingAutosave(null);
   };
 
-  const handleFinishBetting = () => {
-    if (!actions.canFinishBetting()) {
-      alert('¡Todos los jugadores deben colocar 2 apuestas!');
+  const handleDuplicateSavedGame = (name: string) => {
+    const store = new SavedGamesStore(localStorage);
+    const newName = window.prompt(t.savedGames.copyNamePrompt, t.savedGames.copyName(name))?.trim();
+    if (!newName) return;
+    if (store.has(newName)) {
+      alert(t.savedGames.nameTaken);
+      return;
+    }
+    store.duplicate(name, newName);
+    refreshSavedGames();
+  };
+
+  const handleRenameSavedGame = (name: string) => {
+    const store = new SavedGamesStore(localStorage);
+    const newName = window.prompt(t.savedGames.renamePrompt, name)?.trim();
+    if (!newName || newName === name) return;
+    if (store.has(newName)) {
+      alert(t.savedGames.nameTaken);
       return;
     }
-    actions.finishBetting();
+    store.rename(name, newName);
+    refreshSavedGames();
+  };
+
+  const handleDeleteSavedGame = (name: string) => {
+    if (!window.confirm(t.savedGames.confirmDelete(name))) return;
+    new SavedGamesStore(localStorage).delete(name);
+    refreshSavedGames();
+  };
+
+  const handleResetGame = () => {
+    actions.resetGame();
+    // A new game should not overwrite the finished one
+    setSaveName('');
+    setSharedAnswersRound(null);
+    setFinalWagerProgress(NO_FINAL_WAGER_PROGRESS);
   };
 
-  const getWinningAnswerInfo = () => {
-    if (!currentQuestion || state.playerAnswers.length === 0) return null;
+  // Answers given on a phone or behind the curtain must never be put back on screen
+  const isPrivateAnswer = (playerId: string) =>
+    sharedAnswersRound !== state.currentQuestionIndex && state.playerAnswers.some(a => a.playerId === playerId);
+
+  // Typed input wins; otherwise show the shared answer already in the engine (e.g. after undo)
+  const getAnswerInput = (playerId: string) => {
+    if (currentPlayerAnswerInput[playerId] !== undefined) return currentPlayerAnswerInput[playerId];
+    if (isPrivateAnswer(playerId)) return '';
+    return state.playerAnswers.find(a => a.playerId === playerId)?.answer.toString() ?? '';
+  };
 
-    const sortedAnswers = [...state.playerAnswers].sort((a, b) => a.answer - b.answer);
-    const validAnswers = sortedAnswers.filter(a => a.answer <= currentQuestion.answer);
-    const winningAnswer = validAnswers.length > 0
-      ? validAnswers[validAnswers.length - 1]
-      : sortedAnswers[0];
+  const handleFinishAnswering = () => {
+    runGameAction(() => {
+      // Submit all answers typed in at once; the engine reports any missing or invalid
+      activeCompetitors.forEach(player => {
+        const answerStr = getAnswerInput(player.id);
+        if (answerStr.trim() !== '') {
+          actions.submitAnswer(player.id, parseFloat(answerStr));
+        }
+      });
 
-    // Use betting board logic to get the correct winning slot index
-    const bettingBoard = createBettingBoard(state.playerAnswers);
-    const winningIndex = getWinningSlotIndex(bettingBoard, currentQuestion.answer);
+      // Clear input state and proceed to betting
+      setCurrentPlayerAnswerInput({});
+      actions.finishAnswering();
+      if (!passAndPlay && !controllersEnabled) setSharedAnswersRound(state.currentQuestionIndex);
+    });
+  };
 
-    return { winningAnswer, winningIndex, sortedAnswers };
+  const handleFinishBetting = () => {
+    runGameAction(actions.finishBetting);
   };
 
   const ScoreboardGraph = () => {
-    if (players.length === 0 || Object.keys(state.scoreHistory).length === 0) return null;
+    if (competitors.length === 0 || Object.keys(state.scoreHistory).length === 0) return null;
 
     const playerColors = [
       'hsl(0, 84%, 60%)',
@@ -144,14 +550,15 @@ export default function Home() {
     const rounds = Math.max(...Object.values(state.scoreHistory).map(h => h.length));
     const chartData = Array.from({ length: rounds }, (_, i) => {
       const dataPoint: any = { round: i };
-      players.forEach((player, idx) => {
-        dataPoint[player.name] = state.scoreHistory[player.id]?.[i] || 0;
+      competitors.forEach(player => {
+        // Missing before a player joined and after they left: drawn as a gap
+        dataPoint[player.name] = state.scoreHistory[player.id]?.[i] ?? null;
       });
       return dataPoint;
     });
 
     const chartConfig: any = {};
-    players.forEach((player, idx) => {
+    competitors.forEach((player, idx) => {
       chartConfig[player.name] = {
         label: player.name,
         color: playerColors[idx % playerColors.length],
@@ -160,20 +567,20 @@ export default function Home() {
 
     return (
       <div className="mt-8">
-        <h2 className="text-2xl font-bold mb-4">Tabla de Puntuaciones</h2>
+        <h2 className="text-2xl font-bold mb-4">{t.scoreboard.title}</h2>
         <ChartContainer config={chartConfig} className="h-[400px] w-full">
           <LineChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis
               dataKey="round"
-              label={{ value: 'Ronda', position: 'insideBottom', offset: -5 }}
+              label={{ value: t.scoreboard.round, position: 'insideBottom', offset: -5 }}
             />
             <YAxis
-              label={{ value: 'Puntuación', angle: -90, position: 'insideLeft' }}
+              label={{ value: t.scoreboard.score, angle: -90, position: 'insideLeft' }}
             />
             <ChartTooltip content={<ChartTooltipContent />} />
             <ChartLegend content={<ChartLegendContent />} />
-            {players.map((player, idx) => (
+            {competitors.map((player, idx) => (
               <Line
                 key={player.id}
                 type="monotone"
@@ -193,35 +600,169 @@ export default function Home() {
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <p className="text-2xl">Cargando...</p>
+        <p className="text-2xl">{t.loading}</p>
       </div>
     );
   }
 
   const availableLabels = actions.getAvailableLabels();
 
+  const timeRemaining = actions.getTimeRemaining();
+  const countdown = timeRemaining !== null && (
+    <PhaseCountdown
+      remainingMs={timeRemaining}
+      paused={actions.isTimerPaused()}
+      onPause={actions.pauseTimer}
+      onResume={actions.resumeTimer}
+    />
+  );
+
+  // Language, controllers and undo/redo, on top of every phase screen
+  const controllerUrl = `${process.env.NEXT_PUBLIC_BASE_PATH || ''}/controller`;
+  const toolbar = (
+    <div className="mb-4">
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex gap-2">
+          <LanguageSwitcher />
+          <button
+            onClick={() => setTableId(id => (id ? null : createTableId()))}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+              controllersEnabled
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {t.controllers.toggle}
+          </button>
+        </div>
+        <UndoRedoControls
+          canUndo={actions.canUndo()}
+          canRedo={actions.canRedo()}
+          onUndo={actions.undo}
+          onRedo={actions.redo}
+        />
+      </div>
+      {controllersEnabled && (
+        <p className="text-sm text-gray-600 mt-2">
+          {linkStatus === 'linked' ? (
+            <>
+              {t.controllers.hint}{' '}
+              <a href={controllerUrl} target="_blank" rel="noopener" className="text-blue-600 underline">
+                {controllerUrl}
+              </a>{' '}
+              {t.controllers.code}{' '}
+              <span className="font-mono text-lg font-bold text-gray-900">{tableId}</span>
+            </>
+          ) : linkStatus === 'connecting' ? (
+            t.controllers.connecting
+          ) : (
+            t.controllers.unreachable
+          )}
+        </p>
+      )}
+    </div>
+  );
+
+  // Late guests join and players leave between or during rounds (not in team games)
+  const rosterControls = state.teams.length === 0 && (
+    <details className="bg-white rounded-lg shadow p-4 mb-4">
+      <summary className="cursor-pointer font-semibold">{t.roster.title(activeCompetitors.length)}</summary>
+      <div className="space-y-2 mt-3">
+        {players.map(player => (
+          <div key={player.id} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg">
+            <span className={actions.hasLeft(player.id) ? 'text-gray-400' : ''}>
+              {player.name}{actions.hasLeft(player.id) && t.roster.left}
+            </span>
+            {!actions.hasLeft(player.id) && (
+              <button
+                onClick={() => runGameAction(() => actions.removePlayer(player.id))}
+                className="px-3 py-1 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors text-sm"
+              >
+                {t.roster.leave}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <input
+          type="text"
+          value={newPlayerName}
+          onChange={(e) => setNewPlayerName(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addPlayer()}
+          placeholder={t.roster.newPlayerPlaceholder}
+          className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={addPlayer}
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          {t.roster.join}
+        </button>
+        <span className="text-sm text-gray-600">{t.roster.startingScore(actions.getLateJoinScore())}</span>
+      </div>
+    </details>
+  );
+
   // Setup Phase
   if (phase === 'setup') {
+    // Read on every render so the list reflects the latest autosaves
+    const savedGames = new SavedGamesStore(localStorage).list();
+
     return (
       <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
         <h1 className="text-4xl font-bold mb-8 text-center">Wits & Wagers</h1>
 
+        {pendingAutosave && (
+          <div className="bg-blue-50 border-2 border-blue-300 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-2xl font-semibold mb-2">{t.setup.autosaveTitle}</h2>
+            <p className="text-gray-700 mb-4">
+              {t.common.round(pendingAutosave.state.currentQuestionIndex + 1, pendingAutosave.state.roundsToPlay)}
+              {' • '}
+              {pendingAutosave.state.players.map(p => p.name).join(', ')}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleContinueAutosave}
+                className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                {t.setup.continueAutosave}
+              </button>
+              <button
+                onClick={handleDiscardAutosave}
+                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                {t.setup.discardAutosave}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <SavedGamesPanel
+          savedGames={savedGames}
+          onResume={handleResumeSavedGame}
+          onDuplicate={handleDuplicateSavedGame}
+          onRename={handleRenameSavedGame}
+          onDelete={handleDeleteSavedGame}
+        />
+
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-          <h2 className="text-2xl font-semibold mb-4">Jugadores</h2>
+          <h2 className="text-2xl font-semibold mb-4">{t.common.players}</h2>
           <div className="flex gap-2 mb-4">
             <input
               type="text"
               value={newPlayerName}
               onChange={(e) => setNewPlayerName(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && addPlayer()}
-              placeholder="Nombre del jugador"
+              placeholder={t.setup.playerNamePlaceholder}
               className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
             <button
               onClick={addPlayer}
               className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
             >
-              Agregar
+              {t.common.add}
             </button>
           </div>
           <div className="space-y-2">
@@ -229,36 +770,332 @@ export default function Home() {
               <div key={player.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
                 <span className="font-medium">{player.name}</span>
                 <button
-                  onClick={() => actions.removePlayer(player.id)}
+                  onClick={() => runGameAction(() => actions.removePlayer(player.id))}
                   className="px-4 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
                 >
-                  Eliminar
+                  {t.common.remove}
                 </button>
               </div>
             ))}
           </div>
           {players.length < 2 && (
-            <p className="text-sm text-gray-600 mt-2">Se necesitan al menos 2 jugadores</p>
+            <p className="text-sm text-gray-600 mt-2">{t.setup.notEnoughPlayers}</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.teamsTitle}</h2>
+          <p className="text-sm text-gray-600 mb-4">{t.setup.teamsHint}</p>
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && addTeam()}
+              placeholder={t.setup.teamNamePlaceholder}
+              className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={addTeam}
+              className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              {t.setup.addTeam}
+            </button>
+          </div>
+          {state.teams.length > 0 && (
+            <div className="space-y-2">
+              {state.teams.map(team => (
+                <div key={team.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <span className="font-medium">{team.name}</span>
+                    <span className="text-sm text-gray-600 ml-2">
+                      {getMemberNames(team.id) || t.setup.emptyTeam}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => runGameAction(() => actions.removeTeam(team.id))}
+                    className="px-4 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                  >
+                    {t.common.remove}
+                  </button>
+                </div>
+              ))}
+              {players.map(player => (
+                <div key={player.id} className="flex justify-between items-center p-3">
+                  <span>{player.name}</span>
+                  <select
+                    value={state.teams.find(t => t.memberIds.includes(player.id))?.id ?? ''}
+                    onChange={(e) => runGameAction(() => actions.assignPlayerToTeam(player.id, e.target.value || null))}
+                    className="px-3 py-1 border rounded-lg"
+                  >
+                    <option value="">{t.setup.noTeam}</option>
+                    {state.teams.map(team => (
+                      <option key={team.id} value={team.id}>{team.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.rulesTitle}</h2>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(GAME_CONFIG_PRESETS) as GameConfigPresetName[]).map(name => (
+              <button
+                key={name}
+                onClick={() => handleConfigChange(withChosenOptions(GAME_CONFIG_PRESETS[name], state.config))}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  findPresetName(state.config) === name
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.presets[name]}
+              </button>
+            ))}
+          </div>
+          {state.config.scoringMode === 'family' ? (
+            <>
+              <p className="text-sm text-gray-600 mt-2">
+                {t.setup.familySummary(FAMILY_MEEPLE_POINTS.big, FAMILY_MEEPLE_POINTS.small, state.config.correctAnswerPoints)}
+              </p>
+              <div className="flex items-center gap-4 mt-4">
+                <span className="text-gray-700">{t.setup.targetScoreBefore}</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={state.config.targetScore ?? ''}
+                  onChange={(e) => {
+                    const target = parseInt(e.target.value);
+                    if (target > 0) handleConfigChange({ ...state.config, targetScore: target });
+                  }}
+                  className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-24"
+                />
+                <span className="text-gray-700">{t.setup.targetScoreAfter}</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mt-2">
+                {t.setup.rulesSummary(
+                  state.config.maxBetsPerPlayer,
+                  state.config.correctAnswerPoints,
+                  state.config.roundBonusPerRound,
+                  state.config.specialSlotPayout,
+                  state.config.answerSlotPayouts
+                )}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {(['simplified', 'bankroll'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => handleConfigChange({ ...state.config, scoringMode: mode })}
+                    className={`px-4 py-2 rounded-lg transition-colors ${
+                      state.config.scoringMode === mode
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {t.setup.scoringModes[mode]}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          {state.config.scoringMode === 'bankroll' && (
+            <p className="text-sm text-gray-600 mt-2">{t.setup.bankrollHint}</p>
+          )}
+          <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.winningRuleTitle}</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(t.winningRules) as WinningRuleName[]).map(rule => (
+              <button
+                key={rule}
+                onClick={() => handleConfigChange({ ...state.config, winningRule: rule })}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  state.config.winningRule === rule
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.winningRules[rule]}
+              </button>
+            ))}
+          </div>
+          {state.config.winningRule !== 'closest-without-going-over' && (
+            <p className="text-sm text-gray-600 mt-2">{t.setup.goingOverHint}</p>
+          )}
+          <h3 className="text-lg font-semibold mt-4 mb-2">
+            {t.setup.boardOverflowTitle(state.config.answerSlotPayouts.length)}
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(t.boardOverflows) as BoardOverflow[]).map(overflow => (
+              <button
+                key={overflow}
+                onClick={() => handleConfigChange({ ...state.config, boardOverflow: overflow })}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  state.config.boardOverflow === overflow
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.boardOverflows[overflow]}
+              </button>
+            ))}
+          </div>
+          <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.questionSelectionTitle}</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(t.questionSelectionModes) as QuestionSelectionMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleConfigChange({ ...state.config, questionSelection: mode })}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  state.config.questionSelection === mode
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.questionSelectionModes[mode]}
+              </button>
+            ))}
+          </div>
+          {state.config.questionSelection !== 'random' && (
+            <p className="text-sm text-gray-600 mt-2">
+              {t.setup.pickerHint(state.config.questionSelection)}
+            </p>
+          )}
+          <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.timeLimitTitle}</h3>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              {t.setup.answerTimeLimit}
+              <input
+                type="number"
+                min="1"
+                value={state.config.answerTimeLimitSeconds ?? ''}
+                onChange={(e) => handleConfigChange({ ...state.config, answerTimeLimitSeconds: parseTimeLimit(e.target.value) })}
+                placeholder={t.setup.noTimeLimit}
+                className="px-3 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-28"
+              />
+              {t.setup.seconds}
+            </label>
+            <label className="flex items-center gap-2">
+              {t.setup.betTimeLimit}
+              <input
+                type="number"
+                min="1"
+                value={state.config.betTimeLimitSeconds ?? ''}
+                onChange={(e) => handleConfigChange({ ...state.config, betTimeLimitSeconds: parseTimeLimit(e.target.value) })}
+                placeholder={t.setup.noTimeLimit}
+                className="px-3 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-28"
+              />
+              {t.setup.seconds}
+            </label>
+          </div>
+          {state.config.answerTimeLimitSeconds !== null && (
+            <p className="text-sm text-gray-600 mt-2">{t.setup.answerTimeoutHint}</p>
+          )}
+          {state.config.betTimeLimitSeconds !== null && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <span className="text-sm text-gray-600">{t.setup.betTimeoutTitle}</span>
+              {(Object.keys(t.betTimeoutFallbacks) as BetTimeoutFallback[]).map(fallback => (
+                <button
+                  key={fallback}
+                  onClick={() => handleConfigChange({ ...state.config, betTimeoutFallback: fallback })}
+                  className={`px-3 py-1 rounded-lg transition-colors ${
+                    state.config.betTimeoutFallback === fallback
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {t.betTimeoutFallbacks[fallback]}
+                </button>
+              ))}
+            </div>
+          )}
+          <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.lateJoinTitle}</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(t.lateJoinScores) as LateJoinScore[]).map(policy => (
+              <button
+                key={policy}
+                onClick={() => handleConfigChange({ ...state.config, lateJoinScore: policy })}
+                className={`px-3 py-1 rounded-lg transition-colors ${
+                  state.config.lateJoinScore === policy
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.lateJoinScores[policy]}
+              </button>
+            ))}
+          </div>
+          <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.secretBettingTitle}</h3>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={state.config.secretBetting}
+              onChange={(e) => handleConfigChange({ ...state.config, secretBetting: e.target.checked })}
+            />
+            {t.setup.secretBettingOption}
+          </label>
+          {state.config.scoringMode !== 'family' && (
+            <>
+              <h3 className="text-lg font-semibold mt-4 mb-2">{t.setup.finalRoundTitle}</h3>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={state.config.finalWager}
+                  onChange={(e) => handleConfigChange({ ...state.config, finalWager: e.target.checked })}
+                />
+                {t.setup.finalWagerOption}
+              </label>
+            </>
           )}
         </div>
 
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-          <h2 className="text-2xl font-semibold mb-4">Rondas</h2>
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.roundsTitle}</h2>
           <div className="flex items-center gap-4">
             <input
+              id="rounds-to-play"
               type="number"
               min="3"
               max="15"
               value={totalRounds}
-              onChange={(e) => actions.setRoundsToPlay(parseInt(e.target.value) || 7)}
+              onChange={(e) => runGameAction(() => actions.setRoundsToPlay(parseInt(e.target.value) || state.config.defaultRoundsToPlay))}
               className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-24"
             />
-            <span className="text-gray-700">rondas para jugar</span>
+            <label htmlFor="rounds-to-play" className="text-gray-700">{t.setup.roundsToPlay}</label>
           </div>
         </div>
 
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-          <h2 className="text-2xl font-semibold mb-4">Filtrar Preguntas por Etiqueta</h2>
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.seedTitle}</h2>
+          <input
+            type="number"
+            min="0"
+            value={state.seed ?? ''}
+            onChange={(e) => handleSeedChange(e.target.value)}
+            placeholder={t.setup.randomSeed}
+            className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-48"
+          />
+          <p className="text-sm text-gray-600 mt-2">{t.setup.seedHint}</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.saveTitle}</h2>
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder={t.setup.saveNamePlaceholder}
+            className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-sm text-gray-600 mt-2">{t.setup.saveHint}</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">{t.setup.labelsTitle}</h2>
           <div className="flex flex-wrap gap-2">
             {availableLabels.map(label => (
               <button
@@ -270,13 +1107,13 @@ export default function Home() {
                     : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                 }`}
               >
-                {label}
+                {getLabelName(label)}
               </button>
             ))}
           </div>
           <p className="text-sm text-gray-600 mt-4">
-            {state.filteredQuestions.length} preguntas disponibles
-            {selectedLabels.length > 0 && ` (filtradas por: ${selectedLabels.join(', ')})`}
+            {t.setup.questionsAvailable(state.filteredQuestions.length)}
+            {selectedLabels.length > 0 && t.setup.filteredBy(selectedLabels.map(getLabelName))}
           </p>
         </div>
 
@@ -285,52 +1122,224 @@ export default function Home() {
           disabled={players.length < 2 || state.filteredQuestions.length < totalRounds}
           className="w-full px-6 py-4 bg-green-500 text-white text-xl font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
         >
-          Comenzar Juego
+          {t.setup.startGame}
         </button>
       </div>
     );
   }
 
+  // Question Selection Phase
+  if (phase === 'question-selection') {
+    const picker = actions.getCategoryPicker();
+
+    return (
+      <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
+        {rosterControls}
+        <div className="mb-4 text-center">
+          <p className="text-lg text-gray-600">
+            {t.common.round(currentRound + 1, totalRounds)} • {t.common.roundBonus(currentRound * state.config.roundBonusPerRound)}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-3xl font-bold mb-2 text-center">{t.categoryPick.title}</h2>
+          <p className="text-lg text-gray-600 text-center mb-6">
+            {picker && t.categoryPick.picker(picker.name, state.config.questionSelection)}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {actions.getSelectableLabels().map(label => (
+              <button
+                key={label}
+                onClick={() => picker && runGameAction(() => actions.selectCategory(picker.id, label))}
+                className="px-4 py-6 bg-blue-500 text-white text-lg font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                {getLabelName(label)}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-6 space-y-2">
+            {actions.getSortedPlayers().map((player, index) => (
+              <div key={player.id} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                <span className="font-medium">
+                  {index + 1}. {player.name}
+                </span>
+                <span className="text-xl font-bold text-blue-600">{formatNumber(player.score)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Answering Phase
   if (phase === 'answering') {
+    const hasAnswered = (playerId: string) => state.playerAnswers.some(a => a.playerId === playerId);
+    const isPassAndPlay = passAndPlay && !controllersEnabled;
+    // Switching modes mid-round would put private answers on screen or leave shared ones there
+    const modeLocked = state.playerAnswers.length > 0 || Object.keys(currentPlayerAnswerInput).length > 0;
+    // Pass and play goes round the table in order, skipping whoever has answered
+    const nextPlayer = activeCompetitors.find(p => !hasAnswered(p.id));
+
+    const handleSavePrivateAnswer = (playerId: string) => {
+      const answer = parseFloat(currentPlayerAnswerInput[playerId] ?? '');
+      if (!Number.isFinite(answer)) return;
+      runGameAction(() => {
+        actions.submitAnswer(playerId, answer);
+        // Nothing of the answer stays on screen for the next player
+        setCurrentPlayerAnswerInput(prev => {
+          const next = { ...prev };
+          delete next[playerId];
+          return next;
+        });
+        setAnsweringPlayer(null);
+      });
+    };
+
     return (
       <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
+        {rosterControls}
         <div className="mb-4 text-center">
           <p className="text-lg text-gray-600">
-            Ronda {currentRound + 1} de {totalRounds} • Bono de ronda: +{currentRound}
+            {t.common.round(currentRound + 1, totalRounds)} • {t.common.roundBonus(currentRound * state.config.roundBonusPerRound)}
           </p>
+          {countdown}
         </div>
 
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-3xl font-bold mb-4 text-center">{currentQuestion?.question}</h2>
+          {currentQuestion?.precision !== undefined && (
+            <p className="text-sm text-gray-500 text-center">
+              {t.answering.precisionHint(currentQuestion.precision)}
+            </p>
+          )}
+
+          {!controllersEnabled && (
+            <div className="flex justify-center gap-1 mt-4">
+              {[false, true].map(on => (
+                <button
+                  key={String(on)}
+                  onClick={() => setPassAndPlay(on)}
+                  disabled={modeLocked && passAndPlay !== on}
+                  className={`px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    passAndPlay === on
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {on ? t.answering.passAndPlay : t.answering.allAtOnce}
+                </button>
+              ))}
+            </div>
+          )}
 
           <div className="space-y-4 mt-6">
-            {players.map(player => (
+            {activeCompetitors.map(player => (
               <div key={player.id} className="p-4 bg-gray-50 rounded-lg">
                 <div className="flex items-center gap-4">
-                  <span className="font-medium flex-1">{player.name}</span>
+                  <span className="font-medium flex-1">
+                    {player.name}
+                    {getMemberNames(player.id) && (
+                      <span className="text-sm text-gray-500 ml-2">({getMemberNames(player.id)})</span>
+                    )}
+                  </span>
+                  {controllersEnabled || isPassAndPlay || isPrivateAnswer(player.id) ? (
+                    // Answers are typed in private: only show who is done
+                    hasAnswered(player.id) ? (
+                      <span className="font-semibold text-green-600">
+                        {isPassAndPlay && <span className="mr-2 tracking-widest">{t.answering.hidden}</span>}
+                        {t.answering.submitted}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">{t.answering.waiting}</span>
+                    )
+                  ) : (
+                    <>
+                      <input
+                        type="number"
+                        step="any"
+                        inputMode="decimal"
+                        value={getAnswerInput(player.id)}
+                        onChange={(e) => setCurrentPlayerAnswerInput(prev => ({
+                          ...prev,
+                          [player.id]: e.target.value
+                        }))}
+                        placeholder={t.answering.answerPlaceholder}
+                        className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-40"
+                      />
+                      {currentQuestion?.unit && (
+                        <span className="text-gray-600 w-20">{currentQuestion.unit}</span>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {isPassAndPlay && nextPlayer && (
+            answeringPlayer === nextPlayer.id ? (
+              <div className="mt-6 p-6 bg-blue-50 border-2 border-blue-300 rounded-lg">
+                <label htmlFor="private-answer" className="block text-xl font-semibold mb-3">
+                  {t.answering.answerFor(nextPlayer.name)}
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
                   <input
+                    id="private-answer"
                     type="number"
-                    value={currentPlayerAnswerInput[player.id] || ''}
+                    step="any"
+                    inputMode="decimal"
+                    autoFocus
+                    value={currentPlayerAnswerInput[nextPlayer.id] ?? ''}
                     onChange={(e) => setCurrentPlayerAnswerInput(prev => ({
                       ...prev,
-                      [player.id]: e.target.value
+                      [nextPlayer.id]: e.target.value
                     }))}
-                    placeholder="Tu respuesta"
+                    onKeyDown={(e) => e.key === 'Enter' && handleSavePrivateAnswer(nextPlayer.id)}
+                    placeholder={t.answering.answerPlaceholder}
                     className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-40"
                   />
+                  {currentQuestion?.unit && (
+                    <span className="text-gray-600">{currentQuestion.unit}</span>
+                  )}
+                  <button
+                    onClick={() => handleSavePrivateAnswer(nextPlayer.id)}
+                    className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                  >
+                    {t.answering.save}
+                  </button>
                 </div>
               </div>
-            ))}
-          </div>
+            ) : (
+              // The curtain: nothing private is on screen while the device changes hands
+              <div className="mt-6 p-8 bg-gray-800 text-white rounded-lg text-center">
+                <p className="text-2xl font-bold mb-2">{t.answering.handTo(nextPlayer.name)}</p>
+                <p className="text-gray-300 mb-6">{t.answering.curtainHint}</p>
+                <button
+                  onClick={() => setAnsweringPlayer(nextPlayer.id)}
+                  className="px-8 py-3 bg-white text-gray-900 text-lg font-bold rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  {t.answering.ready(nextPlayer.name)}
+                </button>
+              </div>
+            )
+          )}
 
-          <button
-            onClick={handleFinishAnswering}
-            disabled={!allAnswersFilled()}
-            className="w-full mt-6 px-6 py-3 bg-green-500 text-white text-lg font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-          >
-            Continuar a Apuestas
-          </button>
+          {isPassAndPlay && !nextPlayer && (
+            <p className="mt-6 text-2xl font-bold text-center text-green-600">{t.answering.allAnswered}</p>
+          )}
+
+          {(!isPassAndPlay || !nextPlayer) && (
+            <button
+              onClick={handleFinishAnswering}
+              className="w-full mt-6 px-6 py-3 bg-green-500 text-white text-lg font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isPassAndPlay ? t.answering.reveal : t.answering.continue}
+            </button>
+          )}
         </div>
       </div>
     );
@@ -339,6 +1348,31 @@ export default function Home() {
   // Betting Phase
   if (phase === 'betting') {
     const bettingBoard = actions.getBettingBoard();
+    const middleSlotIndex = getBoardMiddleSlotIndex(bettingBoard);
+    const maxBets = state.config.maxBetsPerPlayer;
+    const isBankroll = state.config.scoringMode === 'bankroll';
+    const isFamily = state.config.scoringMode === 'family';
+    const availableBankroll = activeBettingPlayer ? actions.getAvailableBankroll(activeBettingPlayer) : 0;
+    const placedMeeples = state.playerBets.find(b => b.playerId === activeBettingPlayer)?.meeples ?? [];
+    // With secret betting the board only shows the active player's chips until everyone has bet
+    const betsHidden = actions.areBetsHidden();
+    // Once secret bets are revealed nobody may move a chip after seeing the rest
+    const betsLocked = state.config.secretBetting && actions.canFinishBetting();
+    // The active seat is a player, or a team in team mode; nobody active means the table screen
+    const visibleBets = actions.getViewFor(
+      activeBettingPlayer ? { role: 'player', playerId: activeBettingPlayer } : { role: 'host' }
+    ).playerBets;
+
+    const handlePlaceBet = (slotIndex: number) => {
+      if (!activeBettingPlayer) return;
+      const wager = isBankroll ? parseInt(wagerInput) || 0 : 0;
+      // An already placed meeple falls back to the free one
+      const meeple = isFamily && !placedMeeples.includes(selectedMeeple) ? selectedMeeple : undefined;
+      runGameAction(() => {
+        actions.placeBet(activeBettingPlayer, slotIndex, wager, meeple);
+        setWagerInput('');
+      });
+    };
 
     // Count unique answer groups to determine if it's even
     const uniqueGroupCount = bettingBoard.filter(s => !s.isSpecial && s.answerGroups.length > 0).length;
@@ -347,36 +1381,184 @@ export default function Home() {
     // Get slot label display with answers
     const getSlotDisplay = (slot: typeof bettingBoard[0]) => {
       if (slot.isSpecial) {
-        return slot.label;
+        return getSlotTitle(slot, state.config, t);
       }
       if (slot.answerGroups.length === 0) {
         // Show message for empty middle slot when there's an even number of guesses
-        if (slot.index === 4 && isEvenUniqueGuesses) {
-          return '(Casilla vacía)';
+        if (slot.index === middleSlotIndex && isEvenUniqueGuesses) {
+          return t.betting.emptySlot;
         }
         return null; // Empty slot
       }
       const answers = slot.answerGroups.map(g => {
-        const playerNames = g.playerIds.map(id => players.find(p => p.id === id)?.name).join(', ');
-        return `${g.answer} (${playerNames})`;
+        const playerNames = g.playerIds.map(id => competitors.find(p => p.id === id)?.name).join(', ');
+        return `${formatNumber(g.answer)} (${playerNames})`;
       }).join(' | ');
       return answers;
     };
 
+    // Final round: each player secretly wagers on one slot before placing chips
+    const finalWagerKey = `${state.gameSeed}-${currentRound}`;
+    const finalWagerStep = finalWagerProgress.key === finalWagerKey
+      ? finalWagerProgress
+      : { key: finalWagerKey, confirmed: [], done: false };
+    if (actions.isFinalWagerRound() && !finalWagerStep.done) {
+      const wageringPlayer = activeCompetitors.find(p => !finalWagerStep.confirmed.includes(p.id));
+      const wagerSlots = bettingBoard.filter(slot => slot.isSpecial || slot.answerGroups.length > 0);
+
+      const confirmFinalWager = (amount: number) => {
+        if (!wageringPlayer) return;
+        if (amount !== 0 && finalWagerSlot === null) {
+          alert(t.finalWager.chooseSlot);
+          return;
+        }
+        runGameAction(() => {
+          if (amount !== 0 && finalWagerSlot !== null) {
+            actions.placeFinalWager(wageringPlayer.id, finalWagerSlot, amount);
+          }
+          setFinalWagerProgress({ ...finalWagerStep, confirmed: [...finalWagerStep.confirmed, wageringPlayer.id] });
+          setFinalWagerSlot(null);
+          setFinalWagerAmount('');
+        });
+      };
+
+      return (
+        <div className="container mx-auto p-4 max-w-4xl">
+          {toolbar}
+          {rosterControls}
+          <div className="mb-4 text-center">
+            <p className="text-lg text-gray-600">{t.finalWager.round}</p>
+            <h2 className="text-2xl font-bold mt-2">{currentQuestion?.question}</h2>
+            {countdown}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-3xl font-bold mb-2 text-center">{t.finalWager.title}</h2>
+            <p className="text-gray-600 text-center mb-6">{t.finalWager.rules}</p>
+
+            {wageringPlayer ? (
+              <>
+                <p className="text-xl font-semibold text-center mb-4">
+                  {t.finalWager.turn(wageringPlayer.name)}
+                </p>
+                <div className="space-y-2 mb-4">
+                  {wagerSlots.map(slot => (
+                    <button
+                      key={slot.index}
+                      onClick={() => setFinalWagerSlot(slot.index)}
+                      className={`w-full p-3 rounded-lg text-left transition-colors ${
+                        finalWagerSlot === slot.index
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                      }`}
+                    >
+                      <span className="font-bold">{getSlotTitle(slot, state.config, t)}</span>
+                      {!slot.isSpecial && (
+                        <span className="ml-2">({slot.answerGroups.map(g => formatNumber(g.answer)).join(', ')})</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    value={finalWagerAmount}
+                    onChange={(e) => setFinalWagerAmount(e.target.value)}
+                    placeholder={t.finalWager.amountPlaceholder}
+                    className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-32"
+                  />
+                  <span className="text-sm text-gray-600">
+                    {t.betting.available(actions.getAvailableBankroll(wageringPlayer.id))}
+                  </span>
+                  <button
+                    onClick={() => confirmFinalWager(Number(finalWagerAmount) || 0)}
+                    className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
+                  >
+                    {t.finalWager.confirm}
+                  </button>
+                  <button
+                    onClick={() => confirmFinalWager(0)}
+                    className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    {t.finalWager.skip}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={() => setFinalWagerProgress({ ...finalWagerStep, done: true })}
+                className="w-full px-6 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                {t.finalWager.continue}
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
     return (
       <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
+        {rosterControls}
         <div className="mb-4 text-center">
           <p className="text-lg text-gray-600">
-            Ronda {currentRound + 1} de {totalRounds}
+            {t.common.round(currentRound + 1, totalRounds)}
           </p>
           <h2 className="text-2xl font-bold mt-2">{currentQuestion?.question}</h2>
+          {countdown}
         </div>
 
+        {isBankroll && activeBettingPlayer && (
+          <div className="bg-white rounded-lg shadow-lg p-4 mb-4 flex flex-wrap items-center gap-3">
+            <label htmlFor="wager" className="font-medium">
+              {t.betting.wagerFor(competitors.find(p => p.id === activeBettingPlayer)?.name ?? '')}
+            </label>
+            <input
+              id="wager"
+              type="number"
+              min="0"
+              max={availableBankroll}
+              value={wagerInput}
+              onChange={(e) => setWagerInput(e.target.value)}
+              placeholder="0"
+              className="px-3 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 w-24"
+            />
+            <span className="text-sm text-gray-600">{t.betting.available(availableBankroll)}</span>
+          </div>
+        )}
+
+        {isFamily && activeBettingPlayer && (
+          <div className="bg-white rounded-lg shadow-lg p-4 mb-4 flex flex-wrap items-center gap-3">
+            <span className="font-medium">
+              {t.betting.meepleOf(competitors.find(p => p.id === activeBettingPlayer)?.name ?? '')}
+            </span>
+            {(['big', 'small'] as const).map(meeple => (
+              <button
+                key={meeple}
+                disabled={placedMeeples.includes(meeple)}
+                onClick={() => setSelectedMeeple(meeple)}
+                className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-40 ${
+                  selectedMeeple === meeple && !placedMeeples.includes(meeple)
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {t.meeples[meeple]} ({formatNumber(FAMILY_MEEPLE_POINTS[meeple])})
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Green Felt Betting Board */}
         <div className="bg-emerald-800 rounded-xl shadow-2xl p-6 mb-6 border-4 border-amber-700">
           <h3 className="text-xl font-bold mb-4 text-amber-200 text-center tracking-wide">
-            Mesa de Apuestas
+            {t.betting.boardTitle}
           </h3>
+          {betsHidden && (
+            <p className="text-sm text-amber-100 text-center mb-4">{t.betting.secret}</p>
+          )}
           
           <div className="space-y-2">
             {bettingBoard.map((slot) => {
@@ -384,12 +1566,12 @@ export default function Home() {
               // Count unique answer groups to determine if it's even
               const uniqueGroupCount = bettingBoard.filter(s => !s.isSpecial && s.answerGroups.length > 0).length;
               const isEvenUniqueGuesses = uniqueGroupCount % 2 === 0;
-              // Middle slot (index 4) should be shown even when empty if there's an even number of guesses
-              const isMiddleSlot = slot.index === 4;
+              // Middle slot should be shown even when empty if there's an even number of guesses
+              const isMiddleSlot = slot.index === middleSlotIndex;
               const shouldShowEmptySlot = isMiddleSlot && isEvenUniqueGuesses && slot.answerGroups.length === 0;
               
               const isClickable = slot.isSpecial || slot.answerGroups.length > 0 || shouldShowEmptySlot;
-              const betsOnSlot = state.playerBets.filter(b => 
+              const betsOnSlot = visibleBets.filter(b => 
                 b.betOnSlotIndices.includes(slot.index)
               );
               
@@ -412,8 +1594,8 @@ export default function Home() {
                   onClick={() => {
                     if (isClickable && activeBettingPlayer) {
                       const currentBet = state.playerBets.find(b => b.playerId === activeBettingPlayer);
-                      if (!currentBet || currentBet.betOnSlotIndices.length < 2) {
-                        actions.placeBet(activeBettingPlayer, slot.index);
+                      if (!currentBet || currentBet.betOnSlotIndices.length < maxBets) {
+                        handlePlaceBet(slot.index);
                       }
                     }
                   }}
@@ -421,12 +1603,14 @@ export default function Home() {
                   <div className="flex justify-between items-center">
                     <div className="flex-1">
                       {/* Payout Label */}
-                      <div className={`
-                        inline-block px-3 py-1 rounded-full text-sm font-bold mb-2
-                        ${slot.isSpecial ? 'bg-red-600 text-white' : 'bg-amber-500 text-amber-900'}
-                      `}>
-                        {slot.label}
-                      </div>
+                      {getSlotTitle(slot, state.config, t) && (
+                        <div className={`
+                          inline-block px-3 py-1 rounded-full text-sm font-bold mb-2
+                          ${slot.isSpecial ? 'bg-red-600 text-white' : 'bg-amber-500 text-amber-900'}
+                        `}>
+                          {getSlotTitle(slot, state.config, t)}
+                        </div>
+                      )}
                       
                       {/* Answers in this slot */}
                       {slotDisplay && !slot.isSpecial && (
@@ -444,16 +1628,18 @@ export default function Home() {
                             .map((idx, i) => ({ idx, i, playerId: bet.playerId }))
                             .filter(b => b.idx === slot.index)
                             .map((b, chipIdx) => {
-                              const betPlayer = players.find(p => p.id === b.playerId);
+                              const betPlayer = competitors.find(p => p.id === b.playerId);
+                              const meeple = bet.meeples?.[b.i];
                               return (
                                 <div
                                   key={`${b.playerId}-${chipIdx}`}
-                                  className="w-10 h-10 rounded-full bg-gradient-to-br from-yellow-300 to-yellow-600 
+                                  className={`${meeple === 'small' ? 'w-7 h-7' : 'w-10 h-10'} rounded-full bg-gradient-to-br from-yellow-300 to-yellow-600 
                                            border-2 border-yellow-200 shadow-lg flex items-center justify-center
-                                           text-xs font-bold text-yellow-900"
-                                  title={betPlayer?.name}
+                                           text-xs font-bold text-yellow-900`}
+                                  title={meeple ? `${betPlayer?.name} (${t.meeples[meeple]})` : betPlayer?.name}
                                 >
                                   {betPlayer?.name.slice(0, 2).toUpperCase()}
+                                  {!!bet.wagers?.[b.i] && `+${formatNumber(bet.wagers[b.i])}`}
                                 </div>
                               );
                             })
@@ -469,13 +1655,13 @@ export default function Home() {
 
         {/* Player Betting Controls */}
         <div className="bg-white rounded-lg shadow-lg p-6">
-          <h3 className="text-xl font-semibold mb-4">Jugadores</h3>
+          <h3 className="text-xl font-semibold mb-4">{t.common.players}</h3>
           <div className="space-y-3">
-            {players.map(player => {
+            {activeCompetitors.map(player => {
               const playerBet = state.playerBets.find(b => b.playerId === player.id);
               const betsPlaced = playerBet?.betOnSlotIndices.length || 0;
               const isActive = activeBettingPlayer === player.id;
-              const isComplete = betsPlaced >= 2;
+              const isComplete = betsPlaced >= maxBets;
 
               return (
                 <div 
@@ -494,36 +1680,39 @@ export default function Home() {
                   <div className="flex justify-between items-center">
                     <div className="flex items-center gap-3">
                       <span className="font-medium">{player.name}</span>
-                      {isActive && <span className="text-xs text-blue-600 font-semibold">← Apostando</span>}
+                      {isActive && <span className="text-xs text-blue-600 font-semibold">{t.betting.active}</span>}
                       {isComplete && <span className="text-green-600">✓</span>}
                     </div>
                     <span className={`text-sm ${isComplete ? 'text-green-600' : 'text-gray-600'}`}>
-                      Fichas: {betsPlaced}/2
+                      {t.betting.chips(betsPlaced, maxBets)}
                     </span>
                   </div>
 
-                  {/* Show placed bets */}
-                  {playerBet && playerBet.betOnSlotIndices.length > 0 && (
+                  {/* Show placed bets, unless they are secret */}
+                  {playerBet && playerBet.betOnSlotIndices.length > 0 && (!betsHidden || isActive) && (
                     <div className="flex gap-2 mt-2">
                       {playerBet.betOnSlotIndices.map((slotIdx: number, idx: number) => {
                         const slot = bettingBoard[slotIdx];
                         const slotLabel = slot.isSpecial 
-                          ? 'Menor que todas' 
-                          : slot.answerGroups.map(g => g.answer).join(', ');
+                          ? t.board.smallerThanAll 
+                          : slot.answerGroups.map(g => formatNumber(g.answer)).join(', ');
                         return (
                           <div key={idx} className="flex items-center gap-2 px-3 py-1 bg-amber-100 rounded-lg">
                             <span className="text-sm">
-                              {slotLabel} ({slot.payout}:1)
+                              {slotLabel} {playerBet.meeples?.[idx] ? `(${t.meeples[playerBet.meeples[idx]]})` : `(${t.board.odds(slot.payout)})`}
+                              {!!playerBet.wagers?.[idx] && ` + ${t.common.points(playerBet.wagers[idx])}`}
                             </span>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                actions.removeBet(player.id, idx);
-                              }}
-                              className="text-red-500 hover:text-red-700 font-bold"
-                            >
-                              ×
-                            </button>
+                            {!betsLocked && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  runGameAction(() => actions.removeBet(player.id, idx));
+                                }}
+                                className="text-red-500 hover:text-red-700 font-bold"
+                              >
+                                ×
+                              </button>
+                            )}
                           </div>
                         );
                       })}
@@ -539,7 +1728,7 @@ export default function Home() {
             disabled={!actions.canFinishBetting()}
             className="w-full mt-6 px-6 py-3 bg-green-500 text-white text-lg font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
           >
-            Ver Resultados
+            {t.betting.showResults}
           </button>
         </div>
       </div>
@@ -548,46 +1737,72 @@ export default function Home() {
 
   // Results Phase
   if (phase === 'results') {
-    const winningInfo = getWinningAnswerInfo();
-    if (!winningInfo || !currentQuestion) return null;
+    const roundResult = actions.getRoundResult();
+    if (!roundResult || !currentQuestion) return null;
 
-    const { winningAnswer, winningIndex: winningSlotIndex, sortedAnswers } = winningInfo;
+    const { winningAnswer, winningIndex: winningSlotIndex } = roundResult;
     const bettingBoard = actions.getBettingBoard();
     const winningSlot = bettingBoard[winningSlotIndex];
     const isSpecialWin = winningSlot?.isSpecial;
 
-    // Find players who gave the winning answer
+    // Find players (or teams) who gave the winning answer
     const winningPlayers = isSpecialWin 
       ? [] 
-      : players.filter(p => {
+      : competitors.filter(p => {
           const pAnswer = state.playerAnswers.find(a => a.playerId === p.id);
           return pAnswer?.answer === winningAnswer?.answer;
         });
 
     return (
       <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
+        {rosterControls}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-3xl font-bold mb-4 text-center">{currentQuestion.question}</h2>
           <div className="text-center mb-6">
-            <p className="text-xl text-gray-600">Respuesta correcta:</p>
-            <p className="text-4xl font-bold text-green-600">{currentQuestion.answer}</p>
+            <p className="text-xl text-gray-600">{t.results.correctAnswer}</p>
+            <p className="text-4xl font-bold text-green-600">
+              {formatNumber(currentQuestion.answer)}
+              {currentQuestion.unit && (
+                <span className="text-2xl ml-2">{currentQuestion.unit}</span>
+              )}
+            </p>
+            {currentQuestion.asOf && (
+              <p className="text-sm text-gray-500">{t.results.asOf(currentQuestion.asOf)}</p>
+            )}
           </div>
 
+          {(currentQuestion.explanation || currentQuestion.source) && (
+            <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              {currentQuestion.explanation && (
+                <p className="text-gray-700">{currentQuestion.explanation}</p>
+              )}
+              {currentQuestion.source && (
+                <p className="text-sm text-gray-500 mt-2">{t.results.source(currentQuestion.source)}</p>
+              )}
+            </div>
+          )}
+
           <div className="mb-6">
-            <h3 className="text-xl font-semibold mb-3">Casilla Ganadora:</h3>
+            <h3 className="text-xl font-semibold mb-3">{t.results.winningSlot}</h3>
             <div className={`p-4 border-2 rounded-lg ${
               isSpecialWin 
                 ? 'bg-red-100 border-red-500' 
                 : 'bg-green-100 border-green-500'
             }`}>
               <p className="text-lg font-bold">
-                {winningSlot?.label}
-                {winningSlot && ` (paga ${winningSlot.payout}:1)`}
+                {winningSlot && getSlotTitle(winningSlot, state.config, t)}
+                {winningSlot && state.config.scoringMode !== 'family' && ` ${t.results.pays(winningSlot.payout)}`}
+              </p>
+              <p className="text-sm text-gray-600">
+                {t.results.rule(t.winningRules[state.config.winningRule])}
               </p>
               {winningPlayers.length > 0 && (
                 <p className="text-gray-600 mt-1">
-                  Respuesta de: {winningPlayers.map(p => p.name).join(', ')}
-                  {winningAnswer && ` (${winningAnswer.answer})`}
+                  {t.results.answeredBy} {winningPlayers
+                    .map(p => getMemberNames(p.id) ? `${p.name} [${getMemberNames(p.id)}]` : p.name)
+                    .join(', ')}
+                  {winningAnswer && ` (${formatNumber(winningAnswer.answer)})`}
                 </p>
               )}
             </div>
@@ -595,7 +1810,7 @@ export default function Home() {
 
           {/* Betting Board Results */}
           <div className="mb-6">
-            <h3 className="text-xl font-semibold mb-3">Mesa de Apuestas:</h3>
+            <h3 className="text-xl font-semibold mb-3">{t.results.boardTitle}</h3>
             <div className="bg-emerald-800 rounded-xl p-4 space-y-2">
               {bettingBoard.map((slot) => {
                 if (!slot.isSpecial && slot.answerGroups.length === 0) return null;
@@ -607,6 +1822,18 @@ export default function Home() {
                 const betCount = betsOnSlot.reduce((sum, b) => 
                   sum + b.betOnSlotIndices.filter(idx => idx === slot.index).length, 0
                 );
+                const wagered = betsOnSlot.reduce((sum, b) =>
+                  sum + b.betOnSlotIndices.reduce((s, idx, i) =>
+                    idx === slot.index ? s + (b.wagers?.[i] ?? 0) : s, 0
+                  ), 0
+                );
+                const meeplePoints = betsOnSlot.reduce((sum, b) =>
+                  sum + b.betOnSlotIndices.reduce((s, idx, i) => {
+                    const meeple = b.meeples?.[i];
+                    return idx === slot.index && meeple ? s + FAMILY_MEEPLE_POINTS[meeple] : s;
+                  }, 0), 0
+                );
+                const isFamily = state.config.scoringMode === 'family';
 
                 return (
                   <div
@@ -621,17 +1848,19 @@ export default function Home() {
                   >
                     <div className="flex justify-between items-center">
                       <div>
-                        <span className="font-bold">{slot.label}</span>
+                        <span className="font-bold">{getSlotTitle(slot, state.config, t)}</span>
                         {!slot.isSpecial && slot.answerGroups.length > 0 && (
                           <span className="ml-2">
-                            ({slot.answerGroups.map(g => g.answer).join(', ')})
+                            ({slot.answerGroups.map(g => formatNumber(g.answer)).join(', ')})
                           </span>
                         )}
                       </div>
                       {betCount > 0 && (
                         <span className="font-semibold">
-                          {betCount} ficha(s)
-                          {isWinning && ` → +${betCount * slot.payout} pts`}
+                          {t.results.betCount(betCount, isFamily)}
+                          {wagered > 0 && ` + ${t.common.points(wagered)}`}
+                          {isWinning && ` → +${t.common.points(isFamily ? meeplePoints : (betCount + wagered) * slot.payout)}`}
+                          {!isWinning && wagered > 0 && ` → -${t.common.points(wagered)}`}
                         </span>
                       )}
                     </div>
@@ -641,15 +1870,41 @@ export default function Home() {
             </div>
           </div>
 
+          {state.finalWagers.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-xl font-semibold mb-3">{t.results.finalWagersTitle}</h3>
+              <div className="space-y-2">
+                {state.finalWagers.map(wager => {
+                  const slot = bettingBoard[wager.slotIndex];
+                  const won = wager.slotIndex === winningSlotIndex;
+                  return (
+                    <div key={wager.playerId} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                      <span className="font-medium">
+                        {t.results.finalWager(
+                          competitors.find(p => p.id === wager.playerId)?.name ?? '',
+                          wager.amount,
+                          (slot && getSlotTitle(slot, state.config, t)) ?? '?'
+                        )}
+                      </span>
+                      <span className={`font-bold ${won ? 'text-green-600' : 'text-red-600'}`}>
+                        {won ? `+${t.common.points(wager.amount * (slot?.payout ?? 0))}` : `-${t.common.points(wager.amount)}`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className="mb-6">
-            <h3 className="text-xl font-semibold mb-3">Puntuaciones Actualizadas:</h3>
+            <h3 className="text-xl font-semibold mb-3">{t.results.updatedScores}</h3>
             <div className="space-y-2">
               {actions.getSortedPlayers().map((player, index) => (
                 <div key={player.id} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
                   <span className="font-medium">
                     {index + 1}. {player.name}
                   </span>
-                  <span className="text-2xl font-bold text-blue-600">{player.score}</span>
+                  <span className="text-2xl font-bold text-blue-600">{formatNumber(player.score)}</span>
                 </div>
               ))}
             </div>
@@ -661,7 +1916,7 @@ export default function Home() {
             onClick={actions.nextRound}
             className="w-full mt-6 px-6 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
           >
-            {currentRound + 1 < totalRounds ? 'Siguiente Ronda' : 'Ver Ganador'}
+            {actions.isFinalRound() ? t.results.showWinner : t.results.nextRound}
           </button>
         </div>
       </div>
@@ -672,20 +1927,25 @@ export default function Home() {
   if (phase === 'game-over') {
     const sortedPlayers = actions.getSortedPlayers();
     const winner = sortedPlayers[0];
+    const gameOverSeed = actions.getViewFor({ role: 'host' }).gameSeed;
 
     return (
       <div className="container mx-auto p-4 max-w-4xl">
+        {toolbar}
         <div className="bg-white rounded-lg shadow-lg p-8 text-center">
-          <h1 className="text-5xl font-bold mb-8">¡Juego Terminado!</h1>
+          <h1 className="text-5xl font-bold mb-8">{t.gameOver.title}</h1>
 
           <div className="mb-8 p-6 bg-yellow-100 border-4 border-yellow-500 rounded-lg">
-            <p className="text-2xl mb-2">🏆 Ganador 🏆</p>
+            <p className="text-2xl mb-2">{t.gameOver.winner}</p>
             <p className="text-4xl font-bold text-yellow-700">{winner?.name}</p>
-            <p className="text-3xl font-semibold mt-2">{winner?.score} puntos</p>
+            {winner && getMemberNames(winner.id) && (
+              <p className="text-xl text-yellow-700">{getMemberNames(winner.id)}</p>
+            )}
+            <p className="text-3xl font-semibold mt-2">{winner && t.gameOver.points(winner.score)}</p>
           </div>
 
           <div className="mb-8">
-            <h2 className="text-2xl font-semibold mb-4">Clasificación Final:</h2>
+            <h2 className="text-2xl font-semibold mb-4">{t.gameOver.standings}</h2>
             <div className="space-y-3">
               {sortedPlayers.map((player, index) => (
                 <div
@@ -697,7 +1957,7 @@ export default function Home() {
                   <span className="text-xl font-medium">
                     {index + 1}. {player.name}
                   </span>
-                  <span className="text-2xl font-bold text-blue-600">{player.score}</span>
+                  <span className="text-2xl font-bold text-blue-600">{formatNumber(player.score)}</span>
                 </div>
               ))}
             </div>
@@ -705,11 +1965,18 @@ export default function Home() {
 
           <ScoreboardGraph />
 
+          {/* The seed is only given away once the game is over */}
+          {gameOverSeed !== null && (
+            <p className="text-sm text-gray-500 mt-4">
+              {t.gameOver.seed(gameOverSeed)}
+            </p>
+          )}
+
           <button
-            onClick={actions.resetGame}
+            onClick={handleResetGame}
             className="w-full mt-8 px-6 py-4 bg-green-500 text-white text-xl font-bold rounded-lg hover:bg-green-600 transition-colors"
           >
-            Jugar de Nuevo
+            {t.gameOver.playAgain}
           </button>
         </div>
       </div>
@@ -1,7 +1,13 @@
 export interface Question {
+  id?: string; // Stable identifier, unique within a question bank
   question: string;
   answer: number;
   labels: string[];
+  unit?: string; // Shown next to answers, e.g. 'km', 'años', 'millones'
+  precision?: number; // Decimal places player answers are rounded to (negative rounds to tens, hundreds...)
+  source?: string; // Citation for the answer
+  explanation?: string; // Shown after the reveal
+  asOf?: string; // Date the answer was true, for time-sensitive facts (e.g. '2024-01')
 }
 
 export interface Player {
@@ -18,8 +24,12 @@ export interface PlayerAnswer {
 export interface PlayerBet {
   playerId: string;
   betOnSlotIndices: number[]; // Indices of betting board slots (0-7)
+  wagers?: number[]; // Points wagered on top of each marker (bankroll mode only)
+  meeples?: Meeple[]; // Which meeple each marker is (family rules only)
 }
 
+export type Meeple = 'big' | 'small';
+
 export type GamePhase =
   | 'setup'
   | 'question-selection'
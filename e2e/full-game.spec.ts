@@ -112,7 +112,7 @@ test.describe('Full Game E2E', () => {
     // Add all 7 players
     for (const playerName of PLAYERS) {
       await page.getByPlaceholder('Nombre del jugador').fill(playerName);
-      await page.getByRole('button', { name: 'Agregar' }).click();
+      await page.getByRole('button', { name: 'Agregar', exact: true }).click();
       await expect(page.getByText(playerName)).toBeVisible();
     }
 
@@ -35,12 +35,12 @@ async function setupGame(page: Page, questionAnswer: number): Promise<void> {
   // Add 3 players
   for (const name of PLAYERS) {
     await page.getByPlaceholder('Nombre del jugador').fill(name);
-    await page.getByRole('button', { name: 'Agregar' }).click();
+    await page.getByRole('button', { name: 'Agregar', exact: true }).click();
     await expect(page.getByText(name)).toBeVisible();
   }
 
   // Set 1 round and start
-  await page.getByRole('spinbutton').fill('1');
+  await page.getByLabel('rondas para jugar').fill('1');
   await page.getByRole('button', { name: 'Comenzar Juego' }).click();
 }
 
@@ -113,11 +113,11 @@ test.describe('Even Number of Unique Guesses', () => {
     // Add only 2 players for exactly 2 unique guesses
     for (const name of ['Alice', 'Bob']) {
       await page.getByPlaceholder('Nombre del jugador').fill(name);
-      await page.getByRole('button', { name: 'Agregar' }).click();
+      await page.getByRole('button', { name: 'Agregar', exact: true }).click();
       await expect(page.getByText(name)).toBeVisible();
     }
 
-    await page.getByRole('spinbutton').fill('1');
+    await page.getByLabel('rondas para jugar').fill('1');
     await page.getByRole('button', { name: 'Comenzar Juego' }).click();
 
     // Alice: 50, Bob: 150 (2 unique guesses, even number)
@@ -167,11 +167,11 @@ test.describe('Even Number of Unique Guesses', () => {
     const players = ['Alice', 'Bob', 'Carol', 'Dave'];
     for (const name of players) {
       await page.getByPlaceholder('Nombre del jugador').fill(name);
-      await page.getByRole('button', { name: 'Agregar' }).click();
+      await page.getByRole('button', { name: 'Agregar', exact: true }).click();
       await expect(page.getByText(name)).toBeVisible();
     }
 
-    await page.getByRole('spinbutton').fill('1');
+    await page.getByLabel('rondas para jugar').fill('1');
     await page.getByRole('button', { name: 'Comenzar Juego' }).click();
 
     // 4 unique guesses: 10, 50, 150, 200
@@ -310,3 +310,23 @@ test.describe('Winning Guess Rule: Closest Without Going Over', () => {
     expect(scores[1]).toBe(scores[2]); // Bob = Carol
   });
 });
+
+test.describe('Game Seed', () => {
+
+  test('seed only shows once the game is over', async ({ page }) => {
+    await setupGame(page, 100);
+
+    // Knowing the seed mid-game would give away which questions come next
+    await expect(page.getByText(/Semilla/)).toHaveCount(0);
+    await fillAnswers(page, [50, 95, 150]);
+    await expect(page.getByText(/Semilla/)).toHaveCount(0);
+
+    await placeBetsOnAnswer(page, 95, 'Bob');
+    await page.getByRole('button', { name: 'Ver Resultados' }).click();
+    await expect(page.getByText('Respuesta correcta:')).toBeVisible();
+    await expect(page.getByText(/Semilla/)).toHaveCount(0);
+
+    await page.getByRole('button', { name: 'Ver Ganador' }).click();
+    await expect(page.getByText(/Semilla de esta partida: \d+/)).toBeVisible();
+  });
+});
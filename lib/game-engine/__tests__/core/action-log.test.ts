@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyAction, replayActions } from '../../core/action-log';
+import { WitsAndWagersEngine } from '../../core/game-engine';
+import { createInitialGameState } from '../../core/game-state';
+import type { GameAction, Question } from '../../core/types';
+import { findSlotForAnswer } from '../helpers/board';
+
+describe('Action Log', () => {
+  const mockQuestions: Question[] = [
+    { question: 'Q1', answer: 100, labels: ['math'] },
+    { question: 'Q2', answer: 200, labels: ['science'] },
+    { question: 'Q3', answer: 300, labels: ['history'] },
+  ];
+
+  let engine: WitsAndWagersEngine;
+
+  // Plays one full round where Alice answers under and Bob answers over
+  function playRound() {
+    const [alice, bob] = engine.getPlayers();
+    const correct = engine.getCurrentQuestion()!.answer;
+
+    engine.submitAnswer(alice.id, correct - 10);
+    engine.submitAnswer(bob.id, correct + 10);
+    engine.finishAnswering();
+
+    const aliceSlot = findSlotForAnswer(engine, correct - 10);
+    engine.placeBet(alice.id, aliceSlot);
+    engine.placeBet(alice.id, 0);
+    engine.placeBet(bob.id, aliceSlot);
+    engine.placeBet(bob.id, aliceSlot);
+    engine.finishBetting();
+  }
+
+  beforeEach(() => {
+    engine = new WitsAndWagersEngine(mockQuestions);
+  });
+
+  describe('recording', () => {
+    it('should start with an empty log', () => {
+      expect(engine.getActionLog()).toEqual([]);
+    });
+
+    it('should record each mutating call in order', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+
+      const types = engine.getActionLog().map((a) => a.type);
+      expect(types).toEqual(['addPlayer', 'addPlayer', 'setRoundsToPlay', 'startGame']);
+    });
+
+    it('should capture generated player IDs', () => {
+      engine.addPlayer('Alice');
+
+      const [action] = engine.getActionLog();
+      expect(action).toEqual({
+        type: 'addPlayer',
+        playerId: engine.getPlayers()[0].id,
+        name: 'Alice',
+      });
+    });
+
+    it('should capture the seed questions were drawn with', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(3);
+      engine.startGame();
+
+      const startAction = engine.getActionLog().find((a) => a.type === 'startGame');
+      expect(startAction).toEqual({ type: 'startGame', seed: engine.getGameSeed() });
+    });
+
+    it('should not record actions that throw', () => {
+      expect(() => engine.addPlayer('   ')).toThrow();
+      expect(() => engine.setRoundsToPlay(0)).toThrow();
+
+      expect(engine.getActionLog()).toEqual([]);
+    });
+
+    it('should not record actions that leave state unchanged', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 10);
+      engine.submitAnswer(bob.id, 20);
+      engine.finishAnswering();
+      engine.placeBet(alice.id, 0);
+      engine.placeBet(alice.id, 0);
+      const logLength = engine.getActionLog().length;
+
+      engine.placeBet(alice.id, 0); // Third chip is silently ignored
+
+      expect(engine.getActionLog().length).toBe(logLength);
+    });
+
+    it('should return a copy of the log', () => {
+      engine.addPlayer('Alice');
+
+      (engine.getActionLog() as GameAction[]).push({ type: 'resetGame' });
+
+      expect(engine.getActionLog().length).toBe(1);
+    });
+
+    it('should produce a JSON-serializable log', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      playRound();
+
+      const log = engine.getActionLog();
+      expect(JSON.parse(JSON.stringify(log))).toEqual(log);
+    });
+  });
+
+  describe('replay', () => {
+    it('should rebuild an identical state for a full game', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setQuestionLabels(['math', 'science']);
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      playRound();
+      engine.nextRound();
+      playRound();
+      engine.nextRound();
+
+      const replayed = WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions);
+
+      expect(replayed.getPhase()).toBe('game-over');
+      expect(replayed.getState()).toEqual(engine.getState());
+      expect(replayed.getActionLog()).toEqual(engine.getActionLog());
+    });
+
+    it('should rebuild from a log that went through JSON', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      playRound();
+
+      const log = JSON.parse(JSON.stringify(engine.getActionLog())) as GameAction[];
+
+      expect(replayActions(log, mockQuestions)).toEqual(engine.getState());
+    });
+
+    it('should replay question bank updates', () => {
+      const lateQuestions: Question[] = [
+        { question: 'Q4', answer: 400, labels: ['art'] },
+        { question: 'Q5', answer: 500, labels: ['art'] },
+      ];
+      const lateEngine = new WitsAndWagersEngine();
+      lateEngine.updateQuestions(lateQuestions);
+      lateEngine.addPlayer('Alice');
+      lateEngine.addPlayer('Bob');
+      lateEngine.setRoundsToPlay(2);
+      lateEngine.startGame();
+
+      expect(replayActions(lateEngine.getActionLog())).toEqual(lateEngine.getState());
+    });
+
+    it('should throw when an action is invalid at its position', () => {
+      const log: GameAction[] = [
+        { type: 'addPlayer', playerId: 'a', name: 'Alice' },
+        { type: 'startGame', seed: 1 },
+      ];
+
+      expect(() => replayActions(log, mockQuestions)).toThrow(
+        'At least 2 players required'
+      );
+    });
+
+    it('should replay a configured seed', () => {
+      engine.setSeed(42);
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(3);
+      engine.startGame();
+
+      const replayed = replayActions(engine.getActionLog(), mockQuestions);
+
+      expect(replayed.seed).toBe(42);
+      expect(replayed).toEqual(engine.getState());
+    });
+  });
+
+  describe('applyAction', () => {
+    it('should not mutate the original state', () => {
+      const state = createInitialGameState(mockQuestions);
+
+      applyAction(state, { type: 'addPlayer', playerId: 'a', name: 'Alice' });
+
+      expect(state.players).toEqual([]);
+    });
+
+    it('should draw the same questions for the same recorded seed', () => {
+      let state = createInitialGameState(mockQuestions);
+      state = applyAction(state, { type: 'addPlayer', playerId: 'a', name: 'Alice' });
+      state = applyAction(state, { type: 'addPlayer', playerId: 'b', name: 'Bob' });
+      state = applyAction(state, { type: 'setRoundsToPlay', rounds: 2 });
+
+      const first = applyAction(state, { type: 'startGame', seed: 7 });
+      const second = applyAction(state, { type: 'startGame', seed: 7 });
+
+      expect(first.gameQuestions).toEqual(second.gameQuestions);
+      expect(first.gameSeed).toBe(7);
+    });
+  });
+});
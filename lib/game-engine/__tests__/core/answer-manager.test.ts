@@ -3,6 +3,7 @@ import {
   submitPlayerAnswer,
   removePlayerAnswer,
   canFinishAnswering,
+  normalizeAnswer,
 } from '../../core/answer-manager';
 import { createInitialGameState } from '../../core/game-state';
 import type { GameState, Player } from '../../core/types';
@@ -82,12 +83,26 @@ describe('Answer Manager', () => {
       }).toThrow('Player not found');
     });
 
-    it('should throw error for negative answers', () => {
-      const state = createAnsweringState();
+    it('should accept negative and decimal answers', () => {
+      let state = createAnsweringState();
+      state = submitPlayerAnswer(state, '1', -89.2);
+      state = submitPlayerAnswer(state, '2', 0.1 + 0.2);
 
-      expect(() => {
-        submitPlayerAnswer(state, '1', -10);
-      }).toThrow('Invalid answer value');
+      expect(state.playerAnswers).toEqual([
+        { playerId: '1', answer: -89.2 },
+        { playerId: '2', answer: 0.3 },
+      ]);
+    });
+
+    it("should round answers to the current question's precision", () => {
+      const state = {
+        ...createAnsweringState(),
+        gameQuestions: [{ question: 'Q', answer: 1.5, labels: [], precision: 1 }],
+      };
+
+      const result = submitPlayerAnswer(state, '1', 1.46);
+
+      expect(result.playerAnswers[0].answer).toBe(1.5);
     });
 
     it('should throw error for Infinity', () => {
@@ -121,6 +136,23 @@ describe('Answer Manager', () => {
     });
   });
 
+  describe('normalizeAnswer', () => {
+    it('should strip floating point noise', () => {
+      expect(normalizeAnswer(0.1 + 0.2)).toBe(0.3);
+      expect(normalizeAnswer(-0)).toBe(0);
+    });
+
+    it('should round to decimal places', () => {
+      expect(normalizeAnswer(3.14159, 2)).toBe(3.14);
+      expect(normalizeAnswer(-2.5, 0)).toBe(-3);
+    });
+
+    it('should round to tens and hundreds with negative precision', () => {
+      expect(normalizeAnswer(1234, -2)).toBe(1200);
+      expect(normalizeAnswer(-775, -1)).toBe(-780);
+    });
+  });
+
   describe('removePlayerAnswer', () => {
     it('should remove specific player answer', () => {
       let state = createAnsweringState();
@@ -5,10 +5,15 @@ import {
   createBettingBoard,
   getWinningSlotIndex,
   getSlotPayout,
+  getMiddleSlotIndex,
+  getBoardMiddleSlotIndex,
+  expandBoard,
   SPECIAL_SLOT_INDEX,
   MIDDLE_SLOT_INDEX,
+  canBetOnSlot,
 } from '../../core/betting-board';
-import type { PlayerAnswer } from '../../core/types';
+import { DEFAULT_GAME_CONFIG } from '../../core/game-config';
+import type { GameConfig, PlayerAnswer } from '../../core/types';
 
 describe('Betting Board', () => {
   describe('groupAnswersByValue', () => {
@@ -27,6 +32,19 @@ describe('Betting Board', () => {
       ]);
     });
 
+    it('should group answers that differ only by floating point noise', () => {
+      const groups = groupAnswersByValue([
+        { playerId: '1', answer: 0.1 + 0.2 },
+        { playerId: '2', answer: 0.3 },
+        { playerId: '3', answer: -1.5 },
+      ]);
+
+      expect(groups).toEqual([
+        { answer: -1.5, playerIds: ['3'] },
+        { answer: 0.3, playerIds: ['1', '2'] },
+      ]);
+    });
+
     it('should handle empty answers', () => {
       const groups = groupAnswersByValue([]);
       expect(groups).toEqual([]);
@@ -197,7 +215,6 @@ describe('Betting Board', () => {
       
       expect(winningSlot).toBe(SPECIAL_SLOT_INDEX);
       expect(slots[winningSlot].isSpecial).toBe(true);
-      expect(slots[winningSlot].label).toContain('Menor que todas');
     });
 
     it('should return special slot when correct answer is below all guesses (even if close)', () => {
@@ -347,6 +364,28 @@ describe('Betting Board', () => {
     });
   });
 
+  describe('getWinningSlotIndex - other winning rules', () => {
+    const answers: PlayerAnswer[] = [
+      { playerId: '1', answer: 50 },
+      { playerId: '2', answer: 75 },
+      { playerId: '3', answer: 82 },
+    ];
+
+    it('should let the closest answer over the correct one win', () => {
+      const slots = createBettingBoard(answers);
+
+      expect(getWinningSlotIndex(slots, 80)).toBe(4);
+      expect(getWinningSlotIndex(slots, 80, 'closest-absolute')).toBe(5);
+    });
+
+    it('should still pick "Menor que todas" when the answer is below every guess', () => {
+      const slots = createBettingBoard(answers);
+
+      expect(getWinningSlotIndex(slots, 49, 'closest-absolute')).toBe(SPECIAL_SLOT_INDEX);
+      expect(getWinningSlotIndex(slots, 49, 'closest-relative')).toBe(SPECIAL_SLOT_INDEX);
+    });
+  });
+
   describe('getSlotPayout', () => {
     it('should return correct payouts for each slot', () => {
       expect(getSlotPayout(0)).toBe(6); // Menor que todas
@@ -365,5 +404,162 @@ describe('Betting Board', () => {
       expect(getSlotPayout(100)).toBe(0);
     });
   });
+
+  describe('canBetOnSlot', () => {
+    const answersOf = (...values: number[]): PlayerAnswer[] =>
+      values.map((answer, i) => ({ playerId: String(i), answer }));
+
+    it('should allow the special slot and slots with answers only', () => {
+      const slots = createBettingBoard(answersOf(10, 20, 30));
+
+      expect(canBetOnSlot(slots, SPECIAL_SLOT_INDEX)).toBe(true);
+      expect(canBetOnSlot(slots, MIDDLE_SLOT_INDEX)).toBe(true);
+      expect(canBetOnSlot(slots, 1)).toBe(false);
+      expect(canBetOnSlot(slots, 99)).toBe(false);
+    });
+
+    it('should allow the empty middle slot with an even number of distinct answers', () => {
+      const slots = createBettingBoard(answersOf(10, 20));
+
+      expect(slots[MIDDLE_SLOT_INDEX].answerGroups).toEqual([]);
+      expect(canBetOnSlot(slots, MIDDLE_SLOT_INDEX)).toBe(true);
+    });
+  });
+
+  describe('more answer groups than slots', () => {
+    // 10 distinct answers: 10, 20, ..., 100
+    const answers: PlayerAnswer[] = Array.from({ length: 10 }, (_, i) => ({
+      playerId: String(i),
+      answer: (i + 1) * 10,
+    }));
+
+    function boardAnswers(slots: ReturnType<typeof createBettingBoard>): number[] {
+      return slots.flatMap((s) => s.answerGroups.map((g) => g.answer));
+    }
+
+    describe('merge', () => {
+      const config: GameConfig = { ...DEFAULT_GAME_CONFIG, boardOverflow: 'merge' };
+
+      it('should keep every answer on the classic board', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(slots).toHaveLength(8);
+        expect(boardAnswers(slots)).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+      });
+
+      it('should merge the extra answers into the outermost slots', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(slots[1].answerGroups.map((g) => g.answer)).toEqual([10, 20, 30]);
+        expect(slots[7].answerGroups.map((g) => g.answer)).toEqual([80, 90, 100]);
+        expect(slots[MIDDLE_SLOT_INDEX].answerGroups).toEqual([]);
+      });
+
+      it('should let a merged answer win its shared slot', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(getWinningSlotIndex(slots, 15)).toBe(1);
+        expect(getWinningSlotIndex(slots, 500)).toBe(7);
+      });
+    });
+
+    describe('expand', () => {
+      const config: GameConfig = { ...DEFAULT_GAME_CONFIG, boardOverflow: 'expand' };
+
+      it('should add payout tiers to both ends', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(slots.map((s) => s.payout)).toEqual([6, 7, 6, 5, 4, 3, 2, 3, 4, 5, 6, 7]);
+        expect(getBoardMiddleSlotIndex(slots)).toBe(6);
+      });
+
+      it('should give every answer its own slot', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(slots.every((s) => s.answerGroups.length <= 1)).toBe(true);
+        expect(boardAnswers(slots)).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+        expect(slots[6].answerGroups).toEqual([]); // Even count leaves the middle empty
+      });
+
+      it('should not expand a board that fits', () => {
+        const slots = createBettingBoard(answers.slice(0, 7), config);
+
+        expect(slots).toHaveLength(8);
+      });
+
+      it('should find the winning slot on the expanded board', () => {
+        const slots = createBettingBoard(answers, config);
+
+        expect(getWinningSlotIndex(slots, 15)).toBe(1);
+        expect(getWinningSlotIndex(slots, 500)).toBe(11);
+      });
+    });
+
+    describe('expandBoard', () => {
+      it('should add tiers paying one more than the outermost slot', () => {
+        expect(expandBoard(DEFAULT_GAME_CONFIG, 2).answerSlotPayouts).toEqual([
+          7, 6, 5, 4, 3, 2, 3, 4, 5, 6, 7,
+        ]);
+        expect(expandBoard(DEFAULT_GAME_CONFIG, 0).answerSlotPayouts).toEqual(
+          DEFAULT_GAME_CONFIG.answerSlotPayouts
+        );
+      });
+    });
+  });
+
+  describe('with a custom config', () => {
+    const wideConfig: GameConfig = {
+      ...DEFAULT_GAME_CONFIG,
+      specialSlotPayout: 10,
+      answerSlotPayouts: [7, 6, 5, 4, 3, 4, 5, 6, 7],
+    };
+
+    it('should build one slot per configured payout plus the special slot', () => {
+      const slots = createBettingBoard([], wideConfig);
+
+      expect(slots).toHaveLength(10);
+      expect(slots.map((s) => s.payout)).toEqual([10, 7, 6, 5, 4, 3, 4, 5, 6, 7]);
+      expect(slots[0].isSpecial).toBe(true);
+      expect(slots.slice(1).every((s) => !s.isSpecial)).toBe(true);
+    });
+
+    it('should use the configured middle slot', () => {
+      expect(getMiddleSlotIndex()).toBe(MIDDLE_SLOT_INDEX);
+      expect(getMiddleSlotIndex(wideConfig)).toBe(5);
+    });
+
+    it('should fill from the configured middle outward', () => {
+      const answers: PlayerAnswer[] = [
+        { playerId: '1', answer: 10 },
+        { playerId: '2', answer: 20 },
+        { playerId: '3', answer: 30 },
+      ];
+
+      const slots = createBettingBoard(answers, wideConfig);
+
+      expect(slots[4].answerGroups[0].answer).toBe(10);
+      expect(slots[5].answerGroups[0].answer).toBe(20);
+      expect(slots[6].answerGroups[0].answer).toBe(30);
+    });
+
+    it('should use the configured outermost slots for extreme answers', () => {
+      const answers: PlayerAnswer[] = Array.from({ length: 9 }, (_, i) => ({
+        playerId: String(i),
+        answer: (i + 1) * 10,
+      }));
+
+      const slots = createBettingBoard(answers, wideConfig);
+
+      expect(slots[1].answerGroups[0].answer).toBe(10);
+      expect(slots[9].answerGroups[0].answer).toBe(90);
+    });
+
+    it('should return payouts from the config', () => {
+      expect(getSlotPayout(0, wideConfig)).toBe(10);
+      expect(getSlotPayout(5, wideConfig)).toBe(3);
+      expect(getSlotPayout(9, wideConfig)).toBe(7);
+      expect(getSlotPayout(10, wideConfig)).toBe(0);
+    });
+  });
 });
 
@@ -3,8 +3,14 @@ import {
   placeBet,
   removeBet,
   canFinishBetting,
+  getAvailableBankroll,
+  isFinalWagerRound,
+  placeFinalWager,
+  areBetsHidden,
+  redactBets,
 } from '../../core/betting-manager';
 import { createInitialGameState } from '../../core/game-state';
+import { DEFAULT_GAME_CONFIG } from '../../core/game-config';
 import type { GameState, Player, PlayerAnswer } from '../../core/types';
 
 describe('Betting Manager', () => {
@@ -203,6 +209,26 @@ describe('Betting Manager', () => {
 
       expect(result.playerBets[0].betOnSlotIndices).toEqual([]);
     });
+
+    it('should lock secret bets once every bet is placed', () => {
+      let state: GameState = {
+        ...createBettingState(),
+        config: { ...DEFAULT_GAME_CONFIG, secretBetting: true },
+      };
+      for (const playerId of ['1', '2', '3']) {
+        state = placeBet(state, playerId, 4);
+      }
+      state = placeBet(state, '1', 4);
+      state = placeBet(state, '2', 4);
+      // Until the last chip is down the board is hidden, so moving chips is fine
+      expect(removeBet(state, '1', 0).playerBets[0].betOnSlotIndices).toEqual([4]);
+
+      state = placeBet(state, '3', 4);
+
+      expect(() => removeBet(state, '1', 0)).toThrow(
+        expect.objectContaining({ code: 'BETS_LOCKED' })
+      );
+    });
   });
 
   describe('canFinishBetting', () => {
@@ -267,4 +293,328 @@ describe('Betting Manager', () => {
       expect(canFinishBetting(state)).toBe(false);
     });
   });
+
+  describe('with many distinct answers', () => {
+    function createCrowdedState(boardOverflow: 'expand' | 'merge'): GameState {
+      const players = Array.from({ length: 9 }, (_, i) => ({
+        id: String(i),
+        name: `P${i}`,
+        score: 0,
+      }));
+      return {
+        ...createBettingState(),
+        players,
+        playerAnswers: players.map((p, i) => ({ playerId: p.id, answer: (i + 1) * 10 })),
+        config: { ...DEFAULT_GAME_CONFIG, boardOverflow },
+      };
+    }
+
+    it('should allow betting on the added slots when expanding', () => {
+      const state = placeBet(createCrowdedState('expand'), '0', 9);
+
+      expect(state.playerBets[0].betOnSlotIndices).toEqual([9]);
+    });
+
+    it('should reject slots beyond the merged board', () => {
+      expect(() => placeBet(createCrowdedState('merge'), '0', 8)).toThrow('Invalid slot index');
+    });
+  });
+
+  describe('with a custom config', () => {
+    function createConfiguredState(): GameState {
+      return {
+        ...createBettingState(),
+        players: [mockPlayers[0], mockPlayers[1]],
+        config: {
+          ...DEFAULT_GAME_CONFIG,
+          maxBetsPerPlayer: 3,
+          answerSlotPayouts: [4, 3, 2, 3, 4],
+        },
+      };
+    }
+
+    it('should allow the configured number of bets', () => {
+      let state = createConfiguredState();
+      state = placeBet(state, '1', 0);
+      state = placeBet(state, '1', 0);
+      state = placeBet(state, '1', 0);
+      state = placeBet(state, '1', 0); // Fourth chip is ignored
+
+      expect(state.playerBets[0].betOnSlotIndices).toEqual([0, 0, 0]);
+    });
+
+    it('should require the configured number of bets to finish', () => {
+      let state = createConfiguredState();
+      state = placeBet(state, '1', 3);
+      state = placeBet(state, '1', 3);
+      state = placeBet(state, '2', 3);
+      state = placeBet(state, '2', 3);
+
+      expect(canFinishBetting(state)).toBe(false);
+
+      state = placeBet(state, '1', 3);
+      state = placeBet(state, '2', 3);
+
+      expect(canFinishBetting(state)).toBe(true);
+    });
+
+    it('should reject slots beyond the configured board', () => {
+      const state = createConfiguredState();
+
+      expect(() => placeBet(state, '1', 6)).toThrow('Invalid slot index');
+    });
+  });
+
+  describe('bankroll mode', () => {
+    function createBankrollState(): GameState {
+      return {
+        ...createBettingState(),
+        players: [
+          { id: '1', name: 'Alice', score: 10 },
+          { id: '2', name: 'Bob', score: 0 },
+          { id: '3', name: 'Charlie', score: 4 },
+        ],
+        config: { ...DEFAULT_GAME_CONFIG, scoringMode: 'bankroll' },
+      };
+    }
+
+    it('should record the wager alongside each chip', () => {
+      let state = createBankrollState();
+      state = placeBet(state, '1', 4, 6);
+      state = placeBet(state, '1', 0);
+
+      expect(state.playerBets[0]).toEqual({
+        playerId: '1',
+        betOnSlotIndices: [4, 0],
+        wagers: [6, 0],
+      });
+    });
+
+    it('should limit total wagers to the player score', () => {
+      let state = createBankrollState();
+      state = placeBet(state, '1', 4, 6);
+
+      expect(getAvailableBankroll(state, '1')).toBe(4);
+      expect(() => placeBet(state, '1', 3, 5)).toThrow('Wager exceeds available points');
+      expect(placeBet(state, '1', 3, 4).playerBets[0].wagers).toEqual([6, 4]);
+    });
+
+    it('should not let players without points wager', () => {
+      const state = createBankrollState();
+
+      expect(() => placeBet(state, '2', 4, 1)).toThrow('Wager exceeds available points');
+    });
+
+    it('should report the points available when a wager is too high', () => {
+      const state = placeBet(createBankrollState(), '1', 4, 6);
+
+      expect(() => placeBet(state, '1', 3, 5)).toThrow(
+        expect.objectContaining({
+          code: 'WAGER_EXCEEDS_BANKROLL',
+          details: { wager: 5, available: 4 },
+        })
+      );
+    });
+
+    it('should reject negative or fractional wagers', () => {
+      const state = createBankrollState();
+
+      expect(() => placeBet(state, '1', 4, -1)).toThrow(
+        'Wager must be a non-negative whole number'
+      );
+      expect(() => placeBet(state, '1', 4, 1.5)).toThrow(
+        'Wager must be a non-negative whole number'
+      );
+    });
+
+    it('should remove the wager with its chip', () => {
+      let state = createBankrollState();
+      state = placeBet(state, '1', 4, 6);
+      state = placeBet(state, '1', 3, 2);
+
+      const result = removeBet(state, '1', 0);
+
+      expect(result.playerBets[0].betOnSlotIndices).toEqual([3]);
+      expect(result.playerBets[0].wagers).toEqual([2]);
+      expect(getAvailableBankroll(result, '1')).toBe(8);
+    });
+
+    it('should reject wagers in family rules', () => {
+      const state = {
+        ...createBankrollState(),
+        config: { ...DEFAULT_GAME_CONFIG, scoringMode: 'family' as const },
+      };
+
+      expect(() => placeBet(state, '1', 4, 1)).toThrow(
+        'Wagers are only allowed in bankroll mode'
+      );
+    });
+
+    it('should reject wagers in simplified mode', () => {
+      expect(() => placeBet(createBettingState(), '1', 4, 1)).toThrow(
+        'Wagers are only allowed in bankroll mode'
+      );
+    });
+  });
+
+  describe('final wager', () => {
+    function createFinalRoundState(): GameState {
+      const state = createBettingState();
+      return {
+        ...state,
+        players: [
+          { id: '1', name: 'Alice', score: 10 },
+          { id: '2', name: 'Bob', score: 0 },
+          { id: '3', name: 'Charlie', score: 4 },
+        ],
+        config: { ...DEFAULT_GAME_CONFIG, finalWager: true },
+        gameQuestions: [
+          { question: 'Q1', answer: 1, labels: [] },
+          { question: 'Q2', answer: 80, labels: [] },
+        ],
+        currentQuestionIndex: 1,
+      };
+    }
+
+    it('should only take final wagers in the last round when enabled', () => {
+      const state = createFinalRoundState();
+
+      expect(isFinalWagerRound(state)).toBe(true);
+      expect(isFinalWagerRound({ ...state, currentQuestionIndex: 0 })).toBe(false);
+      expect(isFinalWagerRound({ ...state, config: DEFAULT_GAME_CONFIG })).toBe(false);
+      expect(() => placeFinalWager({ ...state, currentQuestionIndex: 0 }, '1', 4, 5)).toThrow(
+        'Final wagers are only allowed in the final round'
+      );
+    });
+
+    it('should place and replace a wager on one slot', () => {
+      let state = placeFinalWager(createFinalRoundState(), '1', 4, 5);
+      state = placeFinalWager(state, '1', 3, 10);
+
+      expect(state.finalWagers).toEqual([{ playerId: '1', slotIndex: 3, amount: 10 }]);
+    });
+
+    it('should withdraw the wager with an amount of 0', () => {
+      let state = placeFinalWager(createFinalRoundState(), '1', 4, 5);
+      state = placeFinalWager(state, '1', 4, 0);
+
+      expect(state.finalWagers).toEqual([]);
+    });
+
+    it('should limit the wager to the current score', () => {
+      const state = createFinalRoundState();
+
+      expect(() => placeFinalWager(state, '1', 4, 11)).toThrow('Wager exceeds available points');
+      expect(() => placeFinalWager(state, '2', 4, 1)).toThrow('Wager exceeds available points');
+      expect(getAvailableBankroll(placeFinalWager(state, '3', 4, 3), '3')).toBe(1);
+    });
+
+    it('should validate the slot and amount', () => {
+      const state = createFinalRoundState();
+
+      expect(() => placeFinalWager(state, '1', 1, 5)).toThrow('Cannot bet on empty slot');
+      expect(() => placeFinalWager(state, '1', 4, 1.5)).toThrow(
+        'Wager must be a non-negative whole number'
+      );
+      expect(() => placeFinalWager(state, '9', 4, 1)).toThrow('Player not found');
+    });
+  });
+
+  describe('family rules', () => {
+    function createFamilyState(): GameState {
+      return {
+        ...createBettingState(),
+        config: { ...DEFAULT_GAME_CONFIG, scoringMode: 'family' },
+      };
+    }
+
+    it('should place the big meeple first by default', () => {
+      let state = createFamilyState();
+      state = placeBet(state, '1', 4);
+      state = placeBet(state, '1', 3);
+
+      expect(state.playerBets[0]).toEqual({
+        playerId: '1',
+        betOnSlotIndices: [4, 3],
+        meeples: ['big', 'small'],
+      });
+    });
+
+    it('should place the chosen meeple', () => {
+      let state = createFamilyState();
+      state = placeBet(state, '1', 4, 0, 'small');
+      state = placeBet(state, '1', 3);
+
+      expect(state.playerBets[0].meeples).toEqual(['small', 'big']);
+    });
+
+    it('should not place the same meeple twice', () => {
+      const state = placeBet(createFamilyState(), '1', 4, 0, 'big');
+
+      expect(() => placeBet(state, '1', 3, 0, 'big')).toThrow('Meeple already placed');
+    });
+
+    it('should free the meeple when its bet is removed', () => {
+      let state = createFamilyState();
+      state = placeBet(state, '1', 4);
+      state = placeBet(state, '1', 3);
+      state = removeBet(state, '1', 0);
+
+      expect(state.playerBets[0].meeples).toEqual(['small']);
+      expect(placeBet(state, '1', 5).playerBets[0].meeples).toEqual(['small', 'big']);
+    });
+
+    it('should reject meeples outside family rules', () => {
+      expect(() => placeBet(createBettingState(), '1', 4, 0, 'big')).toThrow(
+        'Meeples are only used in family rules'
+      );
+    });
+  });
+
+  describe('secret betting', () => {
+    function createSecretState(): GameState {
+      return {
+        ...createBettingState(),
+        config: { ...DEFAULT_GAME_CONFIG, secretBetting: true },
+      };
+    }
+
+    // Everyone but Charlie has placed both chips
+    function placeAllBetsBut3(state: GameState): GameState {
+      state = placeBet(state, '1', 3);
+      state = placeBet(state, '1', 4);
+      state = placeBet(state, '2', 5);
+      state = placeBet(state, '2', 5);
+      return placeBet(state, '3', 0);
+    }
+
+    it('should hide bets until everyone has placed all of theirs', () => {
+      let state = placeAllBetsBut3(createSecretState());
+      expect(areBetsHidden(state)).toBe(true);
+
+      state = placeBet(state, '3', 0);
+      expect(areBetsHidden(state)).toBe(false);
+    });
+
+    it('should never hide bets when the rules do not ask for it', () => {
+      expect(areBetsHidden(placeAllBetsBut3(createBettingState()))).toBe(false);
+    });
+
+    it('should only leave the viewer\'s own bets in while they are hidden', () => {
+      const state = placeAllBetsBut3(createSecretState());
+
+      expect(redactBets(state, '2').playerBets).toEqual([
+        { playerId: '2', betOnSlotIndices: [5, 5] },
+      ]);
+      expect(redactBets(state, null).playerBets).toEqual([]);
+      // The rest of the state is untouched
+      expect(redactBets(state, '2').playerAnswers).toBe(state.playerAnswers);
+    });
+
+    it('should reveal all bets at once', () => {
+      const state = placeBet(placeAllBetsBut3(createSecretState()), '3', 0);
+
+      expect(redactBets(state, null)).toBe(state);
+    });
+  });
 });
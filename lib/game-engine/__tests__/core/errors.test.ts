@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GameError,
+  PhaseError,
+  NotReadyError,
+  InvalidMoveError,
+  isGameError,
+} from '../../core/errors';
+
+describe('Errors', () => {
+  describe('GameError', () => {
+    it('should carry a code, details and an English message', () => {
+      const error = new NotReadyError(
+        'NOT_ENOUGH_QUESTIONS',
+        'Not enough questions (3 available, 10 needed)',
+        { available: 3, needed: 10 }
+      );
+
+      expect(error.code).toBe('NOT_ENOUGH_QUESTIONS');
+      expect(error.details).toEqual({ available: 3, needed: 10 });
+      expect(error.message).toBe('Not enough questions (3 available, 10 needed)');
+    });
+
+    it('should be an Error and a GameError named after its class', () => {
+      const error = new PhaseError('NOTHING_TO_UNDO', 'Nothing to undo', {});
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(GameError);
+      expect(error).not.toBeInstanceOf(InvalidMoveError);
+      expect(error.name).toBe('PhaseError');
+    });
+  });
+
+  describe('isGameError', () => {
+    it('should recognize game errors and match their code', () => {
+      const error = new InvalidMoveError('EMPTY_SLOT', 'Cannot bet on empty slot', {
+        slotIndex: 2,
+      });
+
+      expect(isGameError(error)).toBe(true);
+      expect(isGameError(error, 'EMPTY_SLOT')).toBe(true);
+      expect(isGameError(error, 'INVALID_SLOT')).toBe(false);
+    });
+
+    it('should reject plain errors and other values', () => {
+      expect(isGameError(new Error('Nothing to undo'))).toBe(false);
+      expect(isGameError('EMPTY_SLOT')).toBe(false);
+    });
+  });
+});
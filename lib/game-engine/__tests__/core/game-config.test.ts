@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GAME_CONFIG,
+  GAME_CONFIG_PRESETS,
+  validateGameConfig,
+  setGameConfig,
+} from '../../core/game-config';
+import { createInitialGameState } from '../../core/game-state';
+
+describe('Game Config', () => {
+  describe('DEFAULT_GAME_CONFIG', () => {
+    it('should describe the classic rules', () => {
+      expect(DEFAULT_GAME_CONFIG).toEqual({
+        scoringMode: 'simplified',
+        winningRule: 'closest-without-going-over',
+        boardOverflow: 'merge',
+        questionSelection: 'random',
+        answerTimeLimitSeconds: null,
+        betTimeLimitSeconds: null,
+        betTimeoutFallback: 'none',
+        finalWager: false,
+        secretBetting: false,
+        lateJoinScore: 'zero',
+        maxBetsPerPlayer: 2,
+        specialSlotPayout: 6,
+        answerSlotPayouts: [5, 4, 3, 2, 3, 4, 5],
+        correctAnswerPoints: 3,
+        roundBonusPerRound: 1,
+        defaultRoundsToPlay: 7,
+        targetScore: null,
+      });
+    });
+
+    it('should be used by new game states', () => {
+      const state = createInitialGameState();
+
+      expect(state.config).toEqual(DEFAULT_GAME_CONFIG);
+      expect(state.roundsToPlay).toBe(7);
+    });
+  });
+
+  describe('GAME_CONFIG_PRESETS', () => {
+    it('should only contain valid configs', () => {
+      for (const config of Object.values(GAME_CONFIG_PRESETS)) {
+        expect(validateGameConfig(config)).toEqual([]);
+      }
+    });
+
+    it('should use the default config for classic', () => {
+      expect(GAME_CONFIG_PRESETS.classic).toBe(DEFAULT_GAME_CONFIG);
+    });
+  });
+
+  describe('validateGameConfig', () => {
+    it('should reject unknown scoring modes', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, scoringMode: 'poker' as 'bankroll' };
+
+      expect(validateGameConfig(config)).toContain('Unknown scoring mode');
+    });
+
+    it('should reject fewer than 1 bet', () => {
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, maxBetsPerPlayer: 0 })).toContain(
+        'Players must have at least 1 bet'
+      );
+    });
+
+    it('should reject an even number of answer slots', () => {
+      expect(
+        validateGameConfig({ ...DEFAULT_GAME_CONFIG, answerSlotPayouts: [3, 2, 2, 3] })
+      ).toContain('Board must have an odd number of answer slots (at least 3)');
+    });
+
+    it('should reject non-positive payouts', () => {
+      expect(
+        validateGameConfig({ ...DEFAULT_GAME_CONFIG, answerSlotPayouts: [3, 0, 3] })
+      ).toContain('Answer slot payouts must be positive');
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, specialSlotPayout: -1 })).toContain(
+        'Special slot payout must be positive'
+      );
+    });
+
+    it('should reject negative points and bonuses', () => {
+      const errors = validateGameConfig({
+        ...DEFAULT_GAME_CONFIG,
+        correctAnswerPoints: -1,
+        roundBonusPerRound: -1,
+      });
+
+      expect(errors).toContain('Correct answer points cannot be negative');
+      expect(errors).toContain('Round bonus cannot be negative');
+    });
+
+    it('should reject unknown board overflow strategies', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, boardOverflow: 'drop' as 'merge' };
+
+      expect(validateGameConfig(config)).toContain('Unknown board overflow strategy');
+    });
+
+    it('should reject unknown question selection modes', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, questionSelection: 'host-picks' as 'random' };
+
+      expect(validateGameConfig(config)).toContain('Unknown question selection mode');
+    });
+
+    it('should reject invalid time limits and fallbacks', () => {
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, answerTimeLimitSeconds: 0 })).toContain(
+        'Time limits must be a positive whole number of seconds'
+      );
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, betTimeLimitSeconds: 1.5 })).toContain(
+        'Time limits must be a positive whole number of seconds'
+      );
+      expect(
+        validateGameConfig({ ...DEFAULT_GAME_CONFIG, betTimeoutFallback: 'random' as 'none' })
+      ).toContain('Unknown bet timeout fallback');
+      expect(
+        validateGameConfig({
+          ...DEFAULT_GAME_CONFIG,
+          answerTimeLimitSeconds: 60,
+          betTimeLimitSeconds: 30,
+        })
+      ).toEqual([]);
+    });
+
+    it('should reject unknown winning rules', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, winningRule: 'furthest' as 'closest-absolute' };
+
+      expect(validateGameConfig(config)).toContain('Unknown winning rule');
+    });
+
+    it('should reject unknown late join scores', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, lateJoinScore: 'highest' as 'zero' };
+
+      expect(validateGameConfig(config)).toContain('Unknown late join score');
+    });
+
+    it('should reject a final wager in family rules', () => {
+      expect(validateGameConfig({ ...GAME_CONFIG_PRESETS.family, finalWager: true })).toContain(
+        'Family rules have no odds for a final wager'
+      );
+    });
+
+    it('should require exactly 2 meeples in family rules', () => {
+      expect(
+        validateGameConfig({ ...GAME_CONFIG_PRESETS.family, maxBetsPerPlayer: 3 })
+      ).toContain('Family rules use exactly 2 meeples');
+    });
+
+    it('should reject non-positive target scores', () => {
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, targetScore: 0 })).toContain(
+        'Target score must be a positive whole number'
+      );
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, targetScore: 20 })).toEqual([]);
+    });
+
+    it('should reject fewer than 1 default round', () => {
+      expect(validateGameConfig({ ...DEFAULT_GAME_CONFIG, defaultRoundsToPlay: 0 })).toContain(
+        'Must have at least 1 round'
+      );
+    });
+  });
+
+  describe('setGameConfig', () => {
+    it('should apply the config and its default rounds', () => {
+      const result = setGameConfig(createInitialGameState(), GAME_CONFIG_PRESETS.quick);
+
+      expect(result.config).toBe(GAME_CONFIG_PRESETS.quick);
+      expect(result.roundsToPlay).toBe(3);
+    });
+
+    it('should keep the chosen rounds when the default is unchanged', () => {
+      const state = { ...createInitialGameState(), roundsToPlay: 4 };
+
+      const result = setGameConfig(state, { ...DEFAULT_GAME_CONFIG, targetScore: 12 });
+
+      expect(result.roundsToPlay).toBe(4);
+    });
+
+    it('should throw for invalid configs', () => {
+      expect(() =>
+        setGameConfig(createInitialGameState(), { ...DEFAULT_GAME_CONFIG, maxBetsPerPlayer: 0 })
+      ).toThrow('Invalid game config: Players must have at least 1 bet');
+      expect(() =>
+        setGameConfig(createInitialGameState(), { ...DEFAULT_GAME_CONFIG, maxBetsPerPlayer: 0 })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_CONFIG',
+          details: { problems: ['Players must have at least 1 bet'] },
+        })
+      );
+    });
+
+    it('should throw outside setup', () => {
+      const state = { ...createInitialGameState(), phase: 'answering' as const };
+
+      expect(() => setGameConfig(state, GAME_CONFIG_PRESETS.quick)).toThrow(
+        'Can only change rules during setup'
+      );
+    });
+  });
+});
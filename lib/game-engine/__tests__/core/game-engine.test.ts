@@ -1,17 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { WitsAndWagersEngine } from '../../core/game-engine';
-import type { Question } from '../../core/types';
-
-// Helper to find slot index for a given answer value
-function findSlotForAnswer(engine: WitsAndWagersEngine, answerValue: number): number {
-  const board = engine.getBettingBoard();
-  for (const slot of board) {
-    if (slot.answerGroups.some(g => g.answer === answerValue)) {
-      return slot.index;
-    }
-  }
-  throw new Error(`No slot found for answer ${answerValue}`);
-}
+import { GAME_CONFIG_PRESETS } from '../../core/game-config';
+import type { GameAction, Question } from '../../core/types';
+import { findSlotForAnswer } from '../helpers/board';
 
 describe('WitsAndWagersEngine', () => {
   const mockQuestions: Question[] = [
@@ -72,27 +63,114 @@ describe('WitsAndWagersEngine', () => {
       expect(engine.getPlayers()[0].name).toBe('Alice');
     });
 
-    it('should not allow adding players outside setup', () => {
+    it('should not allow adding or removing players after the game is over', () => {
       engine.addPlayer('Alice');
       engine.addPlayer('Bob');
-      engine.setRoundsToPlay(2);
+      const aliceId = engine.getPlayers()[0].id;
+      const bobId = engine.getPlayers()[1].id;
+      engine.setRoundsToPlay(1);
       engine.startGame();
+      engine.submitAnswer(aliceId, 50);
+      engine.submitAnswer(bobId, 80);
+      engine.finishAnswering();
+      const slot = findSlotForAnswer(engine, 50);
+      for (const playerId of [aliceId, bobId]) {
+        engine.placeBet(playerId, slot);
+        engine.placeBet(playerId, slot);
+      }
+      engine.finishBetting();
+      engine.nextRound();
 
       expect(() => engine.addPlayer('Charlie')).toThrow(
-        'Can only add players during setup'
+        'Cannot add players after the game is over'
+      );
+      expect(() => engine.removePlayer(aliceId)).toThrow(
+        'Cannot remove players after the game is over'
       );
     });
+  });
+
+  describe('Joining and leaving mid-game', () => {
+    let aliceId: string;
+    let bobId: string;
 
-    it('should not allow removing players outside setup', () => {
+    beforeEach(() => {
       engine.addPlayer('Alice');
       engine.addPlayer('Bob');
-      const aliceId = engine.getPlayers()[0].id;
-      engine.setRoundsToPlay(2);
+      [aliceId, bobId] = engine.getPlayers().map((p) => p.id);
+      engine.setRoundsToPlay(3);
       engine.startGame();
+    });
 
-      expect(() => engine.removePlayer(aliceId)).toThrow(
-        'Can only remove players during setup'
-      );
+    function playRound(answers: Record<string, number>) {
+      for (const [playerId, answer] of Object.entries(answers)) {
+        engine.submitAnswer(playerId, answer);
+      }
+      engine.finishAnswering();
+      const slot = engine.getBettingBoard().find((s) => s.answerGroups.length > 0)!.index;
+      for (const playerId of Object.keys(answers)) {
+        engine.placeBet(playerId, slot);
+        engine.placeBet(playerId, slot);
+      }
+      engine.finishBetting();
+    }
+
+    it('should let a late player join and play from the current round', () => {
+      playRound({ [aliceId]: 1, [bobId]: 2 });
+      engine.nextRound();
+
+      engine.addPlayer('Charlie');
+      const charlieId = engine.getPlayers()[2].id;
+      engine.submitAnswer(aliceId, 1);
+      engine.submitAnswer(bobId, 2);
+
+      expect(engine.canFinishAnswering()).toBe(false);
+      engine.submitAnswer(charlieId, 3);
+      expect(engine.canFinishAnswering()).toBe(true);
+      expect(engine.getState().scoreHistory[charlieId]).toEqual([null, 0]);
+    });
+
+    it('should stop waiting for a player who left', () => {
+      engine.submitAnswer(aliceId, 100);
+      expect(engine.canFinishAnswering()).toBe(false);
+
+      engine.removePlayer(bobId);
+
+      expect(engine.hasLeft(bobId)).toBe(true);
+      expect(engine.canFinishAnswering()).toBe(true);
+      expect(engine.getPlayers()).toHaveLength(2);
+      expect(engine.getActiveCompetitors().map((p) => p.id)).toEqual([aliceId]);
+    });
+
+    it('should keep the history of a player who left but stop scoring them', () => {
+      playRound({ [aliceId]: 100, [bobId]: 100 });
+      const bobScore = engine.getPlayers()[1].score;
+      engine.nextRound();
+
+      engine.removePlayer(bobId);
+      playRound({ [aliceId]: 200 });
+
+      expect(engine.getPlayers()[1].score).toBe(bobScore);
+      expect(engine.getState().scoreHistory[bobId]).toEqual([0, bobScore]);
+      expect(engine.getState().scoreHistory[aliceId]).toHaveLength(3);
+    });
+
+    it('should drop players who left when the game is reset', () => {
+      engine.removePlayer(bobId);
+
+      engine.resetGame();
+
+      expect(engine.getPlayers().map((p) => p.id)).toEqual([aliceId]);
+      expect(engine.hasLeft(bobId)).toBe(false);
+    });
+
+    it('should replay joins and departures from the action log', () => {
+      engine.addPlayer('Charlie');
+      engine.removePlayer(bobId);
+
+      const replayed = WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions);
+
+      expect(replayed.getState()).toEqual(engine.getState());
     });
   });
 
@@ -523,4 +601,706 @@ describe('WitsAndWagersEngine', () => {
       expect(sorted[1].answer).toBe(100);
     });
   });
+
+  describe('Undo / Redo', () => {
+    beforeEach(() => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+    });
+
+    // Plays answering and betting so Alice wins with both chips on herself
+    function playToResults() {
+      const [alice, bob] = engine.getPlayers();
+      const correctAnswer = engine.getCurrentQuestion()!.answer;
+      engine.submitAnswer(alice.id, correctAnswer - 20);
+      engine.submitAnswer(bob.id, correctAnswer + 20);
+      engine.finishAnswering();
+      const aliceSlot = findSlotForAnswer(engine, correctAnswer - 20);
+      engine.placeBet(alice.id, aliceSlot);
+      engine.placeBet(alice.id, aliceSlot);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      engine.finishBetting();
+    }
+
+    it('should have nothing to undo or redo initially', () => {
+      const fresh = new WitsAndWagersEngine(mockQuestions);
+
+      expect(fresh.canUndo()).toBe(false);
+      expect(fresh.canRedo()).toBe(false);
+      expect(() => fresh.undo()).toThrow('Nothing to undo');
+      expect(() => fresh.redo()).toThrow('Nothing to redo');
+    });
+
+    it('should undo and redo setup actions', () => {
+      engine.undo();
+      expect(engine.getTotalRounds()).toBe(7);
+
+      engine.undo();
+      expect(engine.getPlayers().map((p) => p.name)).toEqual(['Alice']);
+
+      engine.redo();
+      engine.redo();
+      expect(engine.getPlayers().map((p) => p.name)).toEqual(['Alice', 'Bob']);
+      expect(engine.getTotalRounds()).toBe(2);
+    });
+
+    it('should undo a submitted answer', () => {
+      engine.startGame();
+      const [alice] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 50);
+      engine.submitAnswer(alice.id, 500);
+
+      engine.undo();
+
+      expect(engine.getState().playerAnswers).toEqual([{ playerId: alice.id, answer: 50 }]);
+    });
+
+    it('should undo finishAnswering back to answering with answers kept', () => {
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 80);
+      engine.submitAnswer(bob.id, 120);
+      engine.finishAnswering();
+
+      engine.undo();
+
+      expect(engine.getPhase()).toBe('answering');
+      expect(engine.getState().playerAnswers.length).toBe(2);
+    });
+
+    it('should roll back scores and score history when undoing finishBetting', () => {
+      engine.startGame();
+      const before = engine.getState();
+      playToResults();
+      expect(engine.getPlayers()[0].score).toBe(9);
+
+      engine.undo();
+
+      expect(engine.getPhase()).toBe('betting');
+      expect(engine.getPlayers().map((p) => p.score)).toEqual([0, 0]);
+      expect(engine.getState().scoreHistory).toEqual(before.scoreHistory);
+    });
+
+    it('should redo finishBetting with the same scores', () => {
+      engine.startGame();
+      playToResults();
+      const afterScoring = engine.getState();
+
+      engine.undo();
+      engine.redo();
+
+      expect(engine.getState()).toEqual(afterScoring);
+    });
+
+    it('should undo nextRound back to results', () => {
+      engine.startGame();
+      playToResults();
+      const resultsState = engine.getState();
+      engine.nextRound();
+
+      engine.undo();
+
+      expect(engine.getState()).toBe(resultsState);
+    });
+
+    it('should keep an action to redo when re-applying it throws', () => {
+      engine.undo();
+      const log = engine.getActionLog();
+      // Re-applying is internal, so the failure is simulated there
+      const internals = engine as unknown as { commit(action: GameAction): boolean };
+      vi.spyOn(internals, 'commit').mockImplementationOnce(() => {
+        throw new Error('Could not apply');
+      });
+
+      expect(() => engine.redo()).toThrow('Could not apply');
+      expect(engine.canRedo()).toBe(true);
+      expect(engine.getActionLog()).toEqual(log);
+
+      engine.redo();
+      expect(engine.getTotalRounds()).toBe(2);
+      expect(engine.canRedo()).toBe(false);
+    });
+
+    it('should clear redo after a new action', () => {
+      engine.undo();
+      engine.setRoundsToPlay(3);
+
+      expect(engine.canRedo()).toBe(false);
+    });
+
+    it('should keep the action log in sync with undo and redo', () => {
+      engine.startGame();
+      playToResults();
+      const log = engine.getActionLog();
+
+      engine.undo();
+      expect(engine.getActionLog()).toEqual(log.slice(0, -1));
+      expect(WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions).getState())
+        .toEqual(engine.getState());
+
+      engine.redo();
+      expect(engine.getActionLog()).toEqual(log);
+    });
+
+    it('should not undo past a question bank update', () => {
+      engine.updateQuestions([{ question: 'Q9', answer: 900, labels: [] }]);
+
+      expect(engine.canUndo()).toBe(false);
+      expect(engine.getState().allQuestions.length).toBe(1);
+    });
+  });
+
+  describe('Save / Restore', () => {
+    it('should restore a serialized mid-game state', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 42);
+
+      const restored = new WitsAndWagersEngine();
+      restored.restore(engine.serialize());
+
+      expect(restored.getState()).toEqual(engine.getState());
+      expect(restored.getPhase()).toBe('answering');
+      expect(restored.getCurrentQuestion()).toEqual(engine.getCurrentQuestion());
+    });
+
+    it('should let a restored game continue', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+
+      const restored = new WitsAndWagersEngine();
+      restored.restore(engine.serialize());
+      const [alice, bob] = restored.getPlayers();
+      restored.submitAnswer(alice.id, 10);
+      restored.submitAnswer(bob.id, 20);
+      restored.finishAnswering();
+
+      expect(restored.getPhase()).toBe('betting');
+    });
+
+    it('should start a fresh history after restoring', () => {
+      engine.addPlayer('Alice');
+      const serialized = engine.serialize();
+      engine.addPlayer('Bob');
+
+      engine.restore(serialized);
+
+      expect(engine.getPlayers().length).toBe(1);
+      expect(engine.getActionLog()).toEqual([]);
+      expect(engine.canUndo()).toBe(false);
+      expect(engine.canRedo()).toBe(false);
+    });
+
+    it('should keep the current state when restoring invalid data', () => {
+      engine.addPlayer('Alice');
+
+      expect(() => engine.restore('garbage')).toThrow('Invalid saved game');
+      expect(engine.getPlayers().length).toBe(1);
+    });
+  });
+
+  describe('Seeded Questions', () => {
+    function startSeededGame(seed: number | null): WitsAndWagersEngine {
+      const seeded = new WitsAndWagersEngine(mockQuestions);
+      seeded.setSeed(seed);
+      seeded.addPlayer('Alice');
+      seeded.addPlayer('Bob');
+      seeded.setRoundsToPlay(3);
+      seeded.startGame();
+      return seeded;
+    }
+
+    it('should draw the same questions for two games with the same seed', () => {
+      const first = startSeededGame(2024);
+      const second = startSeededGame(2024);
+
+      expect(first.getState().gameQuestions).toEqual(second.getState().gameQuestions);
+      expect(first.getGameSeed()).toBe(2024);
+    });
+
+    it('should expose a generated seed that reproduces the game', () => {
+      const random = startSeededGame(null);
+      const seed = random.getGameSeed()!;
+
+      expect(startSeededGame(seed).getState().gameQuestions).toEqual(
+        random.getState().gameQuestions
+      );
+    });
+
+    it('should keep the seed but clear the game seed on reset', () => {
+      const seeded = startSeededGame(5);
+
+      seeded.resetGame();
+
+      expect(seeded.getState().seed).toBe(5);
+      expect(seeded.getGameSeed()).toBeNull();
+    });
+
+    it('should not allow changing the seed after start', () => {
+      const seeded = startSeededGame(5);
+
+      expect(() => seeded.setSeed(6)).toThrow('Can only change seed during setup');
+    });
+  });
+
+  describe('Rules', () => {
+    it('should start with the classic rules', () => {
+      expect(engine.getConfig()).toBe(GAME_CONFIG_PRESETS.classic);
+    });
+
+    it('should apply a preset and its default rounds', () => {
+      engine.setConfig(GAME_CONFIG_PRESETS.quick);
+
+      expect(engine.getConfig()).toBe(GAME_CONFIG_PRESETS.quick);
+      expect(engine.getTotalRounds()).toBe(3);
+    });
+
+    it('should play a round with the configured bets and points', () => {
+      engine.setConfig(GAME_CONFIG_PRESETS['high-stakes']);
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      const correct = engine.getCurrentQuestion()!.answer;
+
+      engine.submitAnswer(alice.id, correct);
+      engine.submitAnswer(bob.id, correct + 10);
+      engine.finishAnswering();
+      const slot = findSlotForAnswer(engine, correct);
+      engine.placeBet(alice.id, slot);
+      engine.placeBet(alice.id, slot);
+      expect(engine.canFinishBetting()).toBe(false);
+      engine.placeBet(alice.id, slot);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      const result = engine.finishBetting();
+
+      // 5 points for the answer plus 3 chips on the 4:1 slot left of the empty middle
+      expect(result.pointsAwarded[alice.id]).toBe(5 + 3 * 4);
+      expect(result.pointsAwarded[bob.id]).toBe(0);
+    });
+
+    it('should carry bankroll across rounds and record wagers in the log', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.classic, scoringMode: 'bankroll' });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+
+      const playRound = (aliceWager: number) => {
+        const correct = engine.getCurrentQuestion()!.answer;
+        engine.submitAnswer(alice.id, correct);
+        engine.submitAnswer(bob.id, correct + 10);
+        engine.finishAnswering();
+        const slot = findSlotForAnswer(engine, correct);
+        engine.placeBet(alice.id, slot, aliceWager);
+        engine.placeBet(alice.id, slot);
+        engine.placeBet(bob.id, 0);
+        engine.placeBet(bob.id, 0);
+        return engine.finishBetting();
+      };
+
+      playRound(0);
+      const scoreAfterFirst = engine.getPlayers()[0].score;
+      engine.nextRound();
+
+      expect(engine.getAvailableBankroll(alice.id)).toBe(scoreAfterFirst);
+      const result = playRound(scoreAfterFirst);
+
+      // Left of the empty middle (3:1): 2 markers + the wager, plus correct answer and bonus
+      expect(result.pointsAwarded[alice.id]).toBe(3 + 2 * 3 + scoreAfterFirst * 3 + 1);
+      expect(WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions).getState()).toEqual(
+        engine.getState()
+      );
+    });
+
+    it('should end a family game once a player reaches the target score', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.family, targetScore: 3 });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(3);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      const correct = engine.getCurrentQuestion()!.answer;
+
+      engine.submitAnswer(alice.id, correct);
+      engine.submitAnswer(bob.id, correct + 10);
+      engine.finishAnswering();
+      const slot = findSlotForAnswer(engine, correct);
+      engine.placeBet(alice.id, slot, 0, 'small');
+      engine.placeBet(alice.id, slot);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      const result = engine.finishBetting();
+
+      // Correct answer 1 + big meeple 2 + small meeple 1
+      expect(result.pointsAwarded[alice.id]).toBe(4);
+      expect(engine.isFinalRound()).toBe(true);
+      engine.nextRound();
+      expect(engine.getPhase()).toBe('game-over');
+      expect(engine.getWinner()?.id).toBe(alice.id);
+    });
+
+    it('should report the round result under the configured winning rule', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.classic, winningRule: 'closest-absolute' });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      const correct = engine.getCurrentQuestion()!.answer;
+
+      engine.submitAnswer(alice.id, correct - 10);
+      engine.submitAnswer(bob.id, correct + 1);
+      engine.finishAnswering();
+      expect(engine.getRoundResult()).toBeNull();
+      engine.placeBet(alice.id, 0);
+      engine.placeBet(alice.id, 0);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      const result = engine.finishBetting();
+
+      expect(result.winningAnswer.playerId).toBe(bob.id);
+      expect(engine.getRoundResult()).toEqual(result);
+    });
+
+    it('should throw when changing rules outside setup', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+
+      expect(() => engine.setConfig(GAME_CONFIG_PRESETS.quick)).toThrow(
+        'Can only change rules during setup'
+      );
+    });
+  });
+
+  describe('Final wager', () => {
+    it('should take final wagers only in the last round and score them', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.classic, finalWager: true });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+
+      const playRound = (wager?: number) => {
+        const correct = engine.getCurrentQuestion()!.answer;
+        engine.submitAnswer(alice.id, correct);
+        engine.submitAnswer(bob.id, correct + 10);
+        engine.finishAnswering();
+        const slot = findSlotForAnswer(engine, correct);
+        if (wager !== undefined) engine.placeFinalWager(alice.id, slot, wager);
+        engine.placeBet(alice.id, 0);
+        engine.placeBet(alice.id, 0);
+        engine.placeBet(bob.id, 0);
+        engine.placeBet(bob.id, 0);
+        return engine.finishBetting();
+      };
+
+      expect(engine.isFinalWagerRound()).toBe(false);
+      playRound();
+      const scoreAfterFirst = engine.getPlayers()[0].score;
+      engine.nextRound();
+
+      expect(engine.isFinalWagerRound()).toBe(true);
+      const result = playRound(scoreAfterFirst);
+
+      // Correct answer 3, the wager on the 3:1 slot left of the empty middle, round bonus 1
+      expect(result.pointsAwarded[alice.id]).toBe(3 + scoreAfterFirst * 3 + 1);
+      expect(engine.getFinalWager(alice.id)?.amount).toBe(scoreAfterFirst);
+      expect(engine.getFinalWager(bob.id)).toBeNull();
+    });
+  });
+
+  describe('Secret betting', () => {
+    it('should redact other players\' bets in a viewer\'s view until everyone has bet', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.classic, secretBetting: true });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 10);
+      engine.submitAnswer(bob.id, 20);
+      engine.finishAnswering();
+
+      engine.placeBet(alice.id, 0);
+      engine.placeBet(alice.id, 0);
+      engine.placeBet(bob.id, 0);
+
+      expect(engine.areBetsHidden()).toBe(true);
+      const bobView = { role: 'player', playerId: bob.id } as const;
+      expect(engine.getViewFor(bobView).playerBets.map((b) => b.playerId)).toEqual([bob.id]);
+      expect(engine.getViewFor({ role: 'host' }).playerBets).toEqual([]);
+      // The state itself is complete
+      expect(engine.getState().playerBets).toHaveLength(2);
+
+      engine.placeBet(bob.id, 0);
+
+      expect(engine.areBetsHidden()).toBe(false);
+      expect(engine.getViewFor(bobView).playerBets).toHaveLength(2);
+    });
+  });
+
+  describe('Views', () => {
+    it('should project the state down to what each viewer may see', () => {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 10);
+
+      const aliceView = engine.getViewFor({ role: 'player', playerId: alice.id });
+      expect(aliceView.playerAnswers).toEqual([{ playerId: alice.id, answer: 10 }]);
+      expect(aliceView.currentQuestion).not.toHaveProperty('answer');
+      expect(aliceView).not.toHaveProperty('gameQuestions');
+      expect(engine.getViewFor({ role: 'player', playerId: bob.id }).playerAnswers).toEqual([]);
+      expect(engine.getViewFor({ role: 'spectator' }).answeredPlayerIds).toEqual([alice.id]);
+    });
+  });
+
+  describe('Timers', () => {
+    let time: number;
+
+    beforeEach(() => {
+      time = 0;
+      engine = new WitsAndWagersEngine(mockQuestions, () => time);
+      engine.setConfig({
+        ...GAME_CONFIG_PRESETS.classic,
+        answerTimeLimitSeconds: 30,
+        betTimeLimitSeconds: 20,
+        betTimeoutFallback: 'special-slot',
+      });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+    });
+
+    it('should not count down outside timed phases', () => {
+      expect(engine.getTimeRemaining()).toBeNull();
+      expect(engine.tick()).toBe(false);
+    });
+
+    it('should lock answers and bets when time runs out', () => {
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      engine.submitAnswer(alice.id, 50);
+      time += 29_000;
+
+      expect(engine.getTimeRemaining()).toBe(1_000);
+      expect(engine.tick()).toBe(false);
+
+      time += 1_000;
+      expect(engine.tick()).toBe(true);
+      expect(engine.getPhase()).toBe('betting');
+      expect(engine.getState().playerAnswers).toHaveLength(1);
+      expect(engine.getTimeRemaining()).toBe(20_000);
+
+      engine.placeBet(bob.id, 0);
+      time += 20_000;
+      engine.tick();
+
+      expect(engine.getPhase()).toBe('results');
+      expect(engine.getTimeRemaining()).toBeNull();
+      expect(engine.getState().playerBets).toEqual([
+        { playerId: bob.id, betOnSlotIndices: [0, 0] },
+        { playerId: alice.id, betOnSlotIndices: [0, 0] },
+      ]);
+      expect(WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions).getState()).toEqual(
+        engine.getState()
+      );
+    });
+
+    it('should pause and resume the countdown', () => {
+      engine.startGame();
+      time += 10_000;
+      engine.pauseTimer();
+      time += 60_000;
+
+      expect(engine.isTimerPaused()).toBe(true);
+      expect(engine.tick()).toBe(false);
+      expect(engine.getTimeRemaining()).toBe(20_000);
+
+      engine.resumeTimer();
+      time += 20_000;
+      expect(engine.tick()).toBe(true);
+    });
+
+    it('should restart the countdown for each round', () => {
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+      time += 30_000;
+      engine.tick();
+      time += 20_000;
+      engine.tick();
+      engine.nextRound();
+
+      expect(engine.getPhase()).toBe('answering');
+      expect(engine.getTimeRemaining()).toBe(30_000);
+      engine.submitAnswer(alice.id, 1);
+      engine.submitAnswer(bob.id, 2);
+      engine.finishAnswering();
+      expect(engine.getTimeRemaining()).toBe(20_000);
+    });
+  });
+
+  describe('Category picking', () => {
+    it('should let the last-place player pick each round and replay the draws', () => {
+      engine.setConfig({ ...GAME_CONFIG_PRESETS.classic, questionSelection: 'last-place-picks' });
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.setRoundsToPlay(2);
+      engine.startGame();
+      const [alice, bob] = engine.getPlayers();
+
+      expect(engine.getPhase()).toBe('question-selection');
+      expect(engine.getCurrentQuestion()).toBeNull();
+      expect(engine.getSelectableLabels()).toEqual(['history', 'math', 'science']);
+      expect(engine.getCategoryPicker()?.id).toBe(alice.id);
+      engine.selectCategory(alice.id, 'science');
+      expect(engine.getCurrentQuestion()?.question).toBe('Q2');
+
+      engine.submitAnswer(alice.id, 200);
+      engine.submitAnswer(bob.id, 10);
+      engine.finishAnswering();
+      engine.placeBet(alice.id, findSlotForAnswer(engine, 200));
+      engine.placeBet(alice.id, findSlotForAnswer(engine, 200));
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      engine.finishBetting();
+      engine.nextRound();
+
+      expect(engine.getPhase()).toBe('question-selection');
+      expect(engine.getSelectableLabels()).toEqual(['history', 'math']);
+      expect(engine.getCategoryPicker()?.id).toBe(bob.id);
+      engine.selectCategory(bob.id, 'math');
+      expect(engine.getCurrentRound()).toBe(1);
+      expect(engine.isFinalRound()).toBe(true);
+      expect(WitsAndWagersEngine.replay(engine.getActionLog(), mockQuestions).getState()).toEqual(
+        engine.getState()
+      );
+    });
+  });
+
+  describe('Signed and decimal answers', () => {
+    it('should group and score answers rounded to the question precision', () => {
+      const coldest: Question = {
+        question: 'Lowest temperature recorded in Antarctica (°C)',
+        answer: -89.2,
+        labels: [],
+        precision: 0,
+      };
+      engine = new WitsAndWagersEngine([coldest]);
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.addPlayer('Carol');
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const [alice, bob, carol] = engine.getPlayers();
+
+      engine.submitAnswer(alice.id, -90.4);
+      engine.submitAnswer(bob.id, -89.6);
+      engine.submitAnswer(carol.id, -50.5);
+      engine.finishAnswering();
+      const slot = findSlotForAnswer(engine, -90);
+      engine.placeBet(alice.id, slot);
+      engine.placeBet(alice.id, slot);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(bob.id, 0);
+      engine.placeBet(carol.id, 0);
+      engine.placeBet(carol.id, 0);
+      const result = engine.finishBetting();
+
+      // -90.4 and -89.6 both round to -90 and share the winning slot
+      expect(engine.getBettingBoard()[slot].answerGroups).toEqual([
+        { answer: -90, playerIds: [alice.id, bob.id] },
+      ]);
+      expect(result.pointsAwarded[bob.id]).toBe(3);
+      expect(result.pointsAwarded[carol.id]).toBe(0);
+    });
+  });
+
+  describe('Teams', () => {
+    function setUpTeams() {
+      engine.addPlayer('Alice');
+      engine.addPlayer('Bob');
+      engine.addPlayer('Carol');
+      engine.addTeam('Reds');
+      engine.addTeam('Blues');
+      const [alice, bob, carol] = engine.getPlayers();
+      const [reds, blues] = engine.getTeams();
+      engine.assignPlayerToTeam(alice.id, reds.id);
+      engine.assignPlayerToTeam(bob.id, reds.id);
+      engine.assignPlayerToTeam(carol.id, blues.id);
+      return { reds, blues };
+    }
+
+    it('should refuse to start with an unassigned player', () => {
+      const { reds } = setUpTeams();
+      engine.addPlayer('Dave');
+      engine.assignPlayerToTeam(engine.getPlayers()[0].id, reds.id);
+
+      expect(() => engine.startGame()).toThrow('Every player must be on a team');
+    });
+
+    it('should answer, bet and score as teams', () => {
+      const { reds, blues } = setUpTeams();
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const correct = engine.getCurrentQuestion()!.answer;
+
+      expect(engine.getCompetitors()).toEqual(engine.getTeams());
+      expect(() => engine.submitAnswer(engine.getPlayers()[0].id, correct)).toThrow(
+        'Player not found'
+      );
+      engine.submitAnswer(reds.id, correct);
+      expect(engine.canFinishAnswering()).toBe(false);
+      engine.submitAnswer(blues.id, correct + 10);
+      engine.finishAnswering();
+      const slot = findSlotForAnswer(engine, correct);
+      engine.placeBet(reds.id, slot);
+      engine.placeBet(reds.id, slot);
+      engine.placeBet(blues.id, 0);
+      engine.placeBet(blues.id, 0);
+      const result = engine.finishBetting();
+      engine.nextRound();
+
+      expect(engine.getTeams()[0].score).toBe(result.pointsAwarded[reds.id]);
+      expect(engine.getPlayers().every((p) => p.score === 0)).toBe(true);
+      expect(engine.getState().scoreHistory[reds.id]).toEqual([0, result.pointsAwarded[reds.id]]);
+      expect(engine.getWinner()?.id).toBe(reds.id);
+    });
+
+    it('should reset team scores', () => {
+      const { reds, blues } = setUpTeams();
+      engine.setRoundsToPlay(1);
+      engine.startGame();
+      const correct = engine.getCurrentQuestion()!.answer;
+      engine.submitAnswer(reds.id, correct);
+      engine.submitAnswer(blues.id, correct + 10);
+      engine.finishAnswering();
+      engine.placeBet(reds.id, 0);
+      engine.placeBet(reds.id, 0);
+      engine.placeBet(blues.id, 0);
+      engine.placeBet(blues.id, 0);
+      engine.finishBetting();
+      engine.resetGame();
+
+      expect(engine.getTeams().map((t) => t.score)).toEqual([0, 0]);
+      expect(engine.getTeams()[0].memberIds).toHaveLength(2);
+    });
+  });
 });
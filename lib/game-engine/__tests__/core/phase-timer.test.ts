@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PhaseTimer } from '../../core/phase-timer';
+
+describe('PhaseTimer', () => {
+  let time: number;
+  let timer: PhaseTimer;
+
+  beforeEach(() => {
+    time = 1_000;
+    timer = new PhaseTimer(() => time);
+  });
+
+  it('should have no countdown until started', () => {
+    expect(timer.getRemaining()).toBeNull();
+    expect(timer.isExpired()).toBe(false);
+  });
+
+  it('should count down with the clock and expire at zero', () => {
+    timer.start(5_000);
+    time += 2_000;
+
+    expect(timer.getRemaining()).toBe(3_000);
+    expect(timer.isExpired()).toBe(false);
+
+    time += 4_000;
+    expect(timer.getRemaining()).toBe(0);
+    expect(timer.isExpired()).toBe(true);
+  });
+
+  it('should not run while paused', () => {
+    timer.start(5_000);
+    time += 1_000;
+    timer.pause();
+    time += 60_000;
+
+    expect(timer.isPaused()).toBe(true);
+    expect(timer.getRemaining()).toBe(4_000);
+    expect(timer.isExpired()).toBe(false);
+
+    timer.resume();
+    time += 1_000;
+    expect(timer.isPaused()).toBe(false);
+    expect(timer.getRemaining()).toBe(3_000);
+  });
+
+  it('should clear the countdown when stopped or restarted without a limit', () => {
+    timer.start(5_000);
+    timer.pause();
+    timer.stop();
+
+    expect(timer.getRemaining()).toBeNull();
+    expect(timer.isPaused()).toBe(false);
+
+    timer.start(5_000);
+    timer.start(null);
+    expect(timer.getRemaining()).toBeNull();
+  });
+});
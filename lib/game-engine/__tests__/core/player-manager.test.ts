@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { addPlayer, removePlayer, getLateJoinScore } from '../../core/player-manager';
+import { createInitialGameState } from '../../core/game-state';
+import type { GameState, LateJoinScore } from '../../core/types';
+
+// A game in round 3 (two rounds scored) with Alice at 10 and Bob at 3
+function createGameInProgress(lateJoinScore: LateJoinScore = 'zero'): GameState {
+  const state = createInitialGameState();
+  return {
+    ...state,
+    phase: 'answering',
+    currentQuestionIndex: 2,
+    players: [
+      { id: 'p1', name: 'Alice', score: 10 },
+      { id: 'p2', name: 'Bob', score: 3 },
+    ],
+    scoreHistory: { p1: [0, 4, 10], p2: [0, 3, 3] },
+    config: { ...state.config, lateJoinScore },
+  };
+}
+
+describe('Player Manager', () => {
+  describe('addPlayer', () => {
+    it('should add a player with the given ID and zero score', () => {
+      const state = createInitialGameState();
+      const result = addPlayer(state, 'p1', 'Alice');
+
+      expect(result.players).toEqual([{ id: 'p1', name: 'Alice', score: 0 }]);
+    });
+
+    it('should trim player names', () => {
+      const result = addPlayer(createInitialGameState(), 'p1', '  Alice  ');
+
+      expect(result.players[0].name).toBe('Alice');
+    });
+
+    it('should throw for empty names', () => {
+      expect(() => addPlayer(createInitialGameState(), 'p1', '  ')).toThrow(
+        'Player name cannot be empty'
+      );
+      expect(() => addPlayer(createInitialGameState(), 'p1', '  ')).toThrow(
+        expect.objectContaining({ code: 'EMPTY_NAME' })
+      );
+    });
+
+    it('should let a player join mid-game with padded score history', () => {
+      const result = addPlayer(createGameInProgress(), 'p3', 'Charlie');
+
+      expect(result.players[2]).toEqual({ id: 'p3', name: 'Charlie', score: 0 });
+      expect(result.scoreHistory.p3).toEqual([null, null, 0]);
+    });
+
+    it('should start a late player with the configured catch-up score', () => {
+      expect(addPlayer(createGameInProgress('average'), 'p3', 'C').players[2].score).toBe(7);
+      expect(addPlayer(createGameInProgress('lowest'), 'p3', 'C').players[2].score).toBe(3);
+    });
+
+    it('should throw after the game is over', () => {
+      const state = { ...createInitialGameState(), phase: 'game-over' as const };
+
+      expect(() => addPlayer(state, 'p1', 'Alice')).toThrow(
+        'Cannot add players after the game is over'
+      );
+    });
+
+    it('should throw during a team game', () => {
+      const state: GameState = {
+        ...createGameInProgress(),
+        teams: [{ id: 't1', name: 'Reds', score: 0, memberIds: ['p1', 'p2'] }],
+      };
+
+      expect(() => addPlayer(state, 'p3', 'Charlie')).toThrow(
+        'Cannot change players during a team game'
+      );
+      expect(() => addPlayer(state, 'p3', 'Charlie')).toThrow(
+        expect.objectContaining({ code: 'TEAM_GAME_IN_PROGRESS', details: { phase: state.phase } })
+      );
+    });
+
+    it('should not mutate original state', () => {
+      const state = createInitialGameState();
+      addPlayer(state, 'p1', 'Alice');
+
+      expect(state.players).toEqual([]);
+    });
+  });
+
+  describe('removePlayer', () => {
+    it('should remove the player', () => {
+      let state = addPlayer(createInitialGameState(), 'p1', 'Alice');
+      state = addPlayer(state, 'p2', 'Bob');
+
+      const result = removePlayer(state, 'p1');
+
+      expect(result.players.map((p) => p.id)).toEqual(['p2']);
+    });
+
+    it('should keep a player who leaves mid-game and withdraw their answer', () => {
+      const state = { ...createGameInProgress(), playerAnswers: [{ playerId: 'p2', answer: 5 }] };
+
+      const result = removePlayer(state, 'p2');
+
+      expect(result.players).toEqual(state.players);
+      expect(result.scoreHistory).toEqual(state.scoreHistory);
+      expect(result.departedPlayerIds).toEqual(['p2']);
+      expect(result.playerAnswers).toEqual([]);
+    });
+
+    it('should keep the answer on the board but withdraw bets when leaving during betting', () => {
+      const state: GameState = {
+        ...createGameInProgress(),
+        phase: 'betting',
+        playerAnswers: [{ playerId: 'p2', answer: 5 }],
+        playerBets: [{ playerId: 'p2', betOnSlotIndices: [0] }],
+      };
+
+      const result = removePlayer(state, 'p2');
+
+      expect(result.playerAnswers).toEqual(state.playerAnswers);
+      expect(result.playerBets).toEqual([]);
+    });
+
+    it('should throw for unknown players mid-game', () => {
+      expect(() => removePlayer(createGameInProgress(), 'p9')).toThrow('Player not found');
+    });
+
+    it('should throw after the game is over', () => {
+      const state = { ...createInitialGameState(), phase: 'game-over' as const };
+
+      expect(() => removePlayer(state, 'p1')).toThrow(
+        'Cannot remove players after the game is over'
+      );
+    });
+  });
+
+  describe('getLateJoinScore', () => {
+    it('should ignore players who left', () => {
+      const state: GameState = {
+        ...createGameInProgress('lowest'),
+        departedPlayerIds: ['p2'],
+      };
+
+      expect(getLateJoinScore(state)).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { translateQuestions, validateQuestions } from '../../core/question-manager';
+import type { Question } from '../../core/types';
+import bank from '../../../../public/questions.json';
+import english from '../../../../public/questions.en.json';
+
+describe('Question bank', () => {
+  const questions: Question[] = bank;
+
+  it('should be a valid bank', () => {
+    expect(validateQuestions(questions)).toEqual([]);
+  });
+
+  it('should give some answers a unit, explanation, source and date', () => {
+    for (const field of ['unit', 'explanation', 'source', 'asOf'] as const) {
+      expect(questions.some((q) => q[field] !== undefined)).toBe(true);
+    }
+  });
+
+  it('should only translate questions that exist', () => {
+    const ids = new Set(questions.map((q) => q.id));
+    expect(english.questions.filter((t) => !ids.has(t.id))).toEqual([]);
+  });
+
+  it('should keep the date and translate the explanation in English', () => {
+    const translated = translateQuestions(questions, english.questions);
+    const iceland = translated.find((q) => q.id === 'q003')!;
+
+    expect(iceland).toMatchObject({ unit: 'thousand', asOf: '2024-01', source: 'Statistics Iceland' });
+    expect(iceland.explanation).toContain('inhabitants');
+  });
+});
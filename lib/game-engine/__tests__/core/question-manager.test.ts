@@ -4,7 +4,14 @@ import {
   selectRandomQuestions,
   getAvailableLabels,
   updateQuestionLabels,
+  updateQuestions,
+  getCurrentQuestion,
+  getQuestionById,
+  validateQuestions,
+  translateQuestions,
+  setSeed,
 } from '../../core/question-manager';
+import { createSeededRandom } from '../../core/random';
 import { createInitialGameState } from '../../core/game-state';
 import type { Question } from '../../core/types';
 
@@ -84,6 +91,42 @@ describe('Question Manager', () => {
       selectRandomQuestions(mockQuestions, 3);
       expect(mockQuestions).toEqual(original);
     });
+
+    it('should be reproducible with a seeded random source', () => {
+      const first = selectRandomQuestions(mockQuestions, 3, createSeededRandom(42));
+      const second = selectRandomQuestions(mockQuestions, 3, createSeededRandom(42));
+
+      expect(first).toEqual(second);
+    });
+
+    it('should not repeat questions', () => {
+      const result = selectRandomQuestions(mockQuestions, 5, createSeededRandom(3));
+
+      expect(new Set(result).size).toBe(5);
+    });
+  });
+
+  describe('setSeed', () => {
+    it('should set and clear the seed', () => {
+      const state = setSeed(createInitialGameState(mockQuestions), 42);
+      expect(state.seed).toBe(42);
+
+      expect(setSeed(state, null).seed).toBeNull();
+    });
+
+    it('should reject invalid seeds', () => {
+      expect(() => setSeed(createInitialGameState(), -1)).toThrow('Invalid seed');
+      expect(() => setSeed(createInitialGameState(), 1.5)).toThrow('Invalid seed');
+      expect(() => setSeed(createInitialGameState(), -1)).toThrow(
+        expect.objectContaining({ code: 'INVALID_SEED', details: { seed: -1 } })
+      );
+    });
+
+    it('should throw outside setup', () => {
+      const state = { ...createInitialGameState(), phase: 'answering' as const };
+
+      expect(() => setSeed(state, 1)).toThrow('Can only change seed during setup');
+    });
   });
 
   describe('getAvailableLabels', () => {
@@ -152,4 +195,146 @@ describe('Question Manager', () => {
       expect(result.currentQuestionIndex).toBe(5);
     });
   });
+
+  describe('updateQuestions', () => {
+    it('should replace the bank and re-apply the label filter', () => {
+      const state = updateQuestionLabels(createInitialGameState(mockQuestions), ['math']);
+      const newQuestions: Question[] = [
+        { question: 'Q6', answer: 600, labels: ['math'] },
+        { question: 'Q7', answer: 700, labels: ['art'] },
+      ];
+
+      const result = updateQuestions(state, newQuestions);
+
+      expect(result.allQuestions).toEqual(newQuestions);
+      expect(result.filteredQuestions).toEqual([newQuestions[0]]);
+    });
+
+    it('should throw outside setup', () => {
+      const state = { ...createInitialGameState(mockQuestions), phase: 'answering' as const };
+
+      expect(() => updateQuestions(state, [])).toThrow(
+        'Can only update questions during setup'
+      );
+    });
+
+    it('should throw for invalid questions', () => {
+      const duplicated: Question[] = [
+        { id: 'q1', question: 'Q6', answer: 600, labels: [] },
+        { id: 'q1', question: 'Q7', answer: 700, labels: [] },
+      ];
+
+      expect(() => updateQuestions(createInitialGameState(), duplicated)).toThrow(
+        'Invalid questions: Duplicate question id: q1'
+      );
+    });
+  });
+
+  describe('getQuestionById', () => {
+    it('should find questions by their stable ID', () => {
+      const questions: Question[] = [
+        { id: 'everest', question: 'Height of Everest', answer: 8849, labels: [], unit: 'm' },
+        { question: 'No ID', answer: 1, labels: [] },
+      ];
+
+      expect(getQuestionById(questions, 'everest')).toBe(questions[0]);
+      expect(getQuestionById(questions, 'k2')).toBeUndefined();
+    });
+  });
+
+  describe('translateQuestions', () => {
+    const originals: Question[] = [
+      {
+        id: 'everest',
+        question: 'Altura del Everest',
+        answer: 8849,
+        labels: ['geografía'],
+        unit: 'm',
+        precision: 0,
+        explanation: 'Medición de 2020',
+      },
+      { id: 'sonnet', question: 'Versos de un soneto', answer: 14, labels: ['poesía'] },
+      { question: 'Sin ID', answer: 1, labels: [] },
+    ];
+
+    it('should replace the text of translated questions', () => {
+      const result = translateQuestions(originals, [
+        { id: 'everest', question: 'Height of Everest', explanation: 'Measured in 2020' },
+      ]);
+
+      expect(result[0]).toEqual({
+        id: 'everest',
+        question: 'Height of Everest',
+        answer: 8849,
+        labels: ['geografía'],
+        unit: 'm',
+        precision: 0,
+        explanation: 'Measured in 2020',
+      });
+    });
+
+    it('should fall back to the original for missing translations', () => {
+      const result = translateQuestions(originals, [
+        { id: 'everest', question: 'Height of Everest' },
+        { id: 'unknown', question: 'Not in the bank' },
+      ]);
+
+      expect(result).toHaveLength(3);
+      expect(result[1]).toBe(originals[1]);
+      expect(result[2]).toBe(originals[2]);
+    });
+
+    it('should keep canonical labels so label filters still match', () => {
+      const result = translateQuestions(originals, [
+        { id: 'sonnet', question: 'Lines in a sonnet' },
+      ]);
+
+      expect(filterQuestionsByLabels(result, ['poesía'])).toEqual([
+        { id: 'sonnet', question: 'Lines in a sonnet', answer: 14, labels: ['poesía'] },
+      ]);
+    });
+  });
+
+  describe('validateQuestions', () => {
+    it('should accept questions with and without optional fields', () => {
+      const questions: Question[] = [
+        ...mockQuestions,
+        {
+          id: 'population',
+          question: 'World population',
+          answer: 8.1,
+          labels: ['geography'],
+          unit: 'mil millones',
+          precision: 1,
+          source: 'UN World Population Prospects',
+          explanation: 'Estimate for mid-2024',
+          asOf: '2024-07',
+        },
+      ];
+
+      expect(validateQuestions(questions)).toEqual([]);
+    });
+
+    it('should reject fractional precision', () => {
+      expect(
+        validateQuestions([{ id: 'q1', question: 'Q', answer: 1, labels: [], precision: 0.5 }])
+      ).toEqual(['Precision must be a whole number: q1']);
+    });
+  });
+
+  describe('getCurrentQuestion', () => {
+    it('should return the question at the current index', () => {
+      const state = {
+        ...createInitialGameState(mockQuestions),
+        gameQuestions: mockQuestions.slice(0, 2),
+        currentQuestionIndex: 1,
+      };
+
+      expect(getCurrentQuestion(state)).toEqual(mockQuestions[1]);
+    });
+
+    it('should return null when no questions are selected', () => {
+      expect(getCurrentQuestion(createInitialGameState(mockQuestions))).toBeNull();
+    });
+  });
 });
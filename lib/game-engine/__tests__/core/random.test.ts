@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  generateSeed,
+  isValidSeed,
+  shuffle,
+} from '../../core/random';
+
+describe('Random', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(1234);
+      const b = createSeededRandom(1234);
+
+      const seqA = Array.from({ length: 5 }, () => a());
+      const seqB = Array.from({ length: 5 }, () => b());
+
+      expect(seqA).toEqual(seqB);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      expect(a()).not.toBe(b());
+    });
+
+    it('should produce numbers in [0, 1)', () => {
+      const random = createSeededRandom(99);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should pin the first value for a known seed', () => {
+      expect(createSeededRandom(0)()).toBeCloseTo(0.26642920868471265, 12);
+    });
+  });
+
+  describe('shuffle', () => {
+    it('should return a permutation of the input', () => {
+      const items = [1, 2, 3, 4, 5, 6];
+
+      const result = shuffle(items, createSeededRandom(5));
+
+      expect([...result].sort()).toEqual(items);
+    });
+
+    it('should not modify the input', () => {
+      const items = [1, 2, 3];
+
+      shuffle(items, createSeededRandom(5));
+
+      expect(items).toEqual([1, 2, 3]);
+    });
+
+    it('should be reproducible with a seeded source', () => {
+      const items = ['a', 'b', 'c', 'd', 'e'];
+
+      expect(shuffle(items, createSeededRandom(77))).toEqual(
+        shuffle(items, createSeededRandom(77))
+      );
+    });
+
+    it('should handle empty and single-item arrays', () => {
+      expect(shuffle([], createSeededRandom(1))).toEqual([]);
+      expect(shuffle(['x'], createSeededRandom(1))).toEqual(['x']);
+    });
+
+    it('should be unbiased across all permutations', () => {
+      // Each of the 6 orderings of 3 items should appear ~1/6 of the time
+      const random = createSeededRandom(2024);
+      const counts = new Map<string, number>();
+      const runs = 60000;
+
+      for (let i = 0; i < runs; i++) {
+        const key = shuffle(['a', 'b', 'c'], random).join('');
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+
+      expect(counts.size).toBe(6);
+      counts.forEach((count) => {
+        expect(Math.abs(count / runs - 1 / 6)).toBeLessThan(0.01);
+      });
+    });
+  });
+
+  describe('seeds', () => {
+    it('should generate valid seeds', () => {
+      for (let i = 0; i < 100; i++) {
+        expect(isValidSeed(generateSeed())).toBe(true);
+      }
+    });
+
+    it('should validate the unsigned 32-bit range', () => {
+      expect(isValidSeed(0)).toBe(true);
+      expect(isValidSeed(0xffffffff)).toBe(true);
+      expect(isValidSeed(-1)).toBe(false);
+      expect(isValidSeed(0x100000000)).toBe(false);
+      expect(isValidSeed(1.5)).toBe(false);
+      expect(isValidSeed(NaN)).toBe(false);
+    });
+  });
+});
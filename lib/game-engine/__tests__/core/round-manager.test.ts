@@ -3,9 +3,18 @@ import {
   startGame,
   advanceToPhase,
   nextRound,
+  isFinalRound,
   resetGame,
+  setRoundsToPlay,
+  finishAnswering,
+  scoreCurrentRound,
+  finishBetting,
+  getCategoryPicker,
+  selectCategory,
+  expirePhase,
 } from '../../core/round-manager';
 import { createInitialGameState } from '../../core/game-state';
+import { NotReadyError } from '../../core/errors';
 import type { GameState, Player, Question } from '../../core/types';
 
 describe('Round Manager', () => {
@@ -100,6 +109,18 @@ describe('Round Manager', () => {
       );
     });
 
+    it('should report how many questions are missing', () => {
+      const state = { ...createSetupState(), roundsToPlay: 10 };
+      state.filteredQuestions = mockQuestions.slice(0, 3);
+
+      expect(() => startGame(state)).toThrow(
+        expect.objectContaining({
+          code: 'NOT_ENOUGH_QUESTIONS',
+          details: { available: 3, needed: 10 },
+        })
+      );
+    });
+
     it('should not mutate original state', () => {
       const state = createSetupState();
       const originalPhase = state.phase;
@@ -133,6 +154,96 @@ describe('Round Manager', () => {
     });
   });
 
+  describe('category picking', () => {
+    function createPickState(
+      questionSelection: 'leader-picks' | 'last-place-picks' = 'leader-picks'
+    ): GameState {
+      const state = createSetupState();
+      return { ...state, config: { ...state.config, questionSelection } };
+    }
+
+    it('should start in question-selection without drawing questions', () => {
+      const result = startGame(createPickState(), 42);
+
+      expect(result.phase).toBe('question-selection');
+      expect(result.gameQuestions).toEqual([]);
+    });
+
+    it('should let the leader or the player in last place pick', () => {
+      const started = startGame(createPickState(), 42);
+      const scored = {
+        ...started,
+        players: [
+          { ...mockPlayers[0], score: 3 },
+          { ...mockPlayers[1], score: 7 },
+        ],
+      };
+
+      expect(getCategoryPicker(started)?.id).toBe('1');
+      expect(getCategoryPicker(scored)?.id).toBe('2');
+      expect(
+        getCategoryPicker({
+          ...scored,
+          config: { ...scored.config, questionSelection: 'last-place-picks' },
+        })?.id
+      ).toBe('1');
+      expect(getCategoryPicker(createSetupState())).toBeNull();
+    });
+
+    it('should draw an unused question from the picked category', () => {
+      let state = startGame(createPickState(), 42);
+      state = selectCategory(state, '1', 'math');
+
+      expect(state.phase).toBe('answering');
+      expect(state.gameQuestions).toHaveLength(1);
+      expect(state.gameQuestions[0].labels).toContain('math');
+
+      const first = state.gameQuestions[0];
+      state = { ...state, phase: 'results' };
+      state = nextRound(state);
+      expect(state.phase).toBe('question-selection');
+      state = selectCategory(state, '1', 'math');
+
+      expect(state.gameQuestions[1].labels).toContain('math');
+      expect(state.gameQuestions[1]).not.toBe(first);
+    });
+
+    it('should draw the same question for the same seed', () => {
+      const a = selectCategory(startGame(createPickState(), 7), '1', 'science');
+      const b = selectCategory(startGame(createPickState(), 7), '1', 'science');
+
+      expect(a.gameQuestions).toEqual(b.gameQuestions);
+    });
+
+    it('should reject categories without unused questions', () => {
+      let state = startGame(createPickState(), 42);
+      state = selectCategory(state, '1', 'history');
+      state = nextRound({ ...state, phase: 'results' });
+
+      expect(() => selectCategory(state, '1', 'history')).toThrow(
+        'Category has no unused questions'
+      );
+    });
+
+    it('should only let the picker select', () => {
+      const state = startGame(createPickState(), 42);
+
+      expect(() => selectCategory(state, '2', 'math')).toThrow(
+        'Only the picking player can select the category'
+      );
+      expect(() => selectCategory(createSetupState(), '1', 'math')).toThrow(
+        'Cannot select category outside question-selection phase'
+      );
+    });
+
+    it('should end after the configured rounds', () => {
+      let state = startGame({ ...createPickState(), roundsToPlay: 1 }, 42);
+      state = selectCategory(state, '1', 'math');
+
+      expect(isFinalRound(state)).toBe(true);
+    });
+  });
+
   describe('advanceToPhase', () => {
     it('should update game phase', () => {
       const state = createSetupState();
@@ -228,6 +339,34 @@ describe('Round Manager', () => {
       expect(result.phase).toBe('game-over');
     });
 
+    it('should end the game once a player reaches the target score', () => {
+      const state: GameState = {
+        ...createMidGameState(0),
+        config: { ...createMidGameState(0).config, targetScore: 10 },
+        players: [
+          { id: '1', name: 'Alice', score: 10 },
+          { id: '2', name: 'Bob', score: 4 },
+        ],
+      };
+
+      expect(isFinalRound(state)).toBe(true);
+      expect(nextRound(state).phase).toBe('game-over');
+    });
+
+    it('should keep playing while everyone is below the target score', () => {
+      const state: GameState = {
+        ...createMidGameState(0),
+        config: { ...createMidGameState(0).config, targetScore: 10 },
+        players: [
+          { id: '1', name: 'Alice', score: 9 },
+          { id: '2', name: 'Bob', score: 4 },
+        ],
+      };
+
+      expect(isFinalRound(state)).toBe(false);
+      expect(nextRound(state).phase).toBe('answering');
+    });
+
     it('should not mutate original state', () => {
       const state = createMidGameState(0);
       const originalIndex = state.currentQuestionIndex;
@@ -372,4 +511,205 @@ describe('Round Manager', () => {
       expect(result.selectedLabels).toEqual(['math', 'science']);
     });
   });
+
+  describe('setRoundsToPlay', () => {
+    it('should update rounds to play', () => {
+      const result = setRoundsToPlay(createSetupState(), 5);
+
+      expect(result.roundsToPlay).toBe(5);
+    });
+
+    it('should throw for less than 1 round', () => {
+      expect(() => setRoundsToPlay(createSetupState(), 0)).toThrow(
+        'Must have at least 1 round'
+      );
+    });
+
+    it('should throw outside setup', () => {
+      const state = { ...createSetupState(), phase: 'answering' as const };
+
+      expect(() => setRoundsToPlay(state, 5)).toThrow(
+        'Can only change rounds during setup'
+      );
+    });
+  });
+
+  describe('startGame with a seed', () => {
+    it('should draw the same questions for the same seed', () => {
+      const state = createSetupState();
+
+      expect(startGame(state, 123).gameQuestions).toEqual(
+        startGame(state, 123).gameQuestions
+      );
+    });
+
+    it('should pin the question order for a known seed', () => {
+      const result = startGame(createSetupState(), 42);
+
+      expect(result.gameQuestions.map((q) => q.question)).toEqual(['Q1', 'Q5', 'Q3']);
+    });
+
+    it('should record the seed used', () => {
+      expect(startGame(createSetupState(), 99).gameSeed).toBe(99);
+    });
+
+    it('should use the configured seed by default', () => {
+      const state = { ...createSetupState(), seed: 42 };
+
+      expect(startGame(state).gameQuestions).toEqual(
+        startGame(createSetupState(), 42).gameQuestions
+      );
+      expect(startGame(state).gameSeed).toBe(42);
+    });
+
+    it('should generate a seed when none is configured', () => {
+      const result = startGame(createSetupState());
+
+      expect(typeof result.gameSeed).toBe('number');
+    });
+  });
+
+  describe('finishAnswering / finishBetting', () => {
+    function createAnsweringState(): GameState {
+      return {
+        ...createSetupState(),
+        gameQuestions: mockQuestions.slice(0, 3),
+        currentQuestionIndex: 0,
+        phase: 'answering',
+        scoreHistory: { '1': [0], '2': [0] },
+      };
+    }
+
+    it('should move to betting once everyone answered', () => {
+      const state = {
+        ...createAnsweringState(),
+        playerAnswers: [
+          { playerId: '1', answer: 90 },
+          { playerId: '2', answer: 120 },
+        ],
+      };
+
+      expect(finishAnswering(state).phase).toBe('betting');
+    });
+
+    it('should throw if answers are missing', () => {
+      expect(() => finishAnswering(createAnsweringState())).toThrow(
+        'All players must submit answers'
+      );
+    });
+
+    it('should report who has not answered yet', () => {
+      const state = {
+        ...createAnsweringState(),
+        playerAnswers: [{ playerId: '1', answer: 90 }],
+      };
+
+      expect(() => finishAnswering(state)).toThrow(NotReadyError);
+      expect(() => finishAnswering(state)).toThrow(
+        expect.objectContaining({ code: 'ANSWERS_MISSING', details: { playerIds: ['2'] } })
+      );
+    });
+
+    it('should score and apply the round when finishing betting', () => {
+      const state: GameState = {
+        ...createAnsweringState(),
+        phase: 'betting',
+        playerAnswers: [
+          { playerId: '1', answer: 90 },
+          { playerId: '2', answer: 120 },
+        ],
+        // 90 sits in slot 3 (3:1) with two answer groups
+        playerBets: [
+          { playerId: '1', betOnSlotIndices: [3, 3] },
+          { playerId: '2', betOnSlotIndices: [5, 5] },
+        ],
+      };
+
+      const scoring = scoreCurrentRound(state);
+      const result = finishBetting(state);
+
+      expect(scoring.pointsAwarded).toEqual({ '1': 9, '2': 0 });
+      expect(result.phase).toBe('results');
+      expect(result.players.map((p) => p.score)).toEqual([9, 0]);
+      expect(result.scoreHistory).toEqual({ '1': [0, 9], '2': [0, 0] });
+    });
+
+    it('should throw if bets are missing', () => {
+      const state = { ...createAnsweringState(), phase: 'betting' as const };
+
+      expect(() => finishBetting(state)).toThrow('All players must place 2 bets');
+    });
+  });
+
+  describe('expirePhase', () => {
+    function createTimedState(betTimeoutFallback: 'none' | 'special-slot'): GameState {
+      const state = createSetupState();
+      return {
+        ...state,
+        config: {
+          ...state.config,
+          answerTimeLimitSeconds: 30,
+          betTimeLimitSeconds: 20,
+          betTimeoutFallback,
+        },
+        gameQuestions: mockQuestions.slice(0, 3),
+        currentQuestionIndex: 0,
+        phase: 'answering',
+        scoreHistory: { '1': [0], '2': [0] },
+      };
+    }
+
+    it('should move to betting without the missing answers', () => {
+      const state = {
+        ...createTimedState('none'),
+        playerAnswers: [{ playerId: '1', answer: 90 }],
+      };
+
+      const result = expirePhase(state);
+
+      expect(result.phase).toBe('betting');
+      expect(result.playerAnswers).toEqual([{ playerId: '1', answer: 90 }]);
+    });
+
+    it('should forfeit chips not placed with no fallback', () => {
+      const state: GameState = {
+        ...createTimedState('none'),
+        phase: 'betting',
+        playerAnswers: [{ playerId: '1', answer: 90 }],
+        // 90 is the only answer, so it sits in the middle slot (2:1)
+        playerBets: [{ playerId: '1', betOnSlotIndices: [4] }],
+      };
+
+      const result = expirePhase(state);
+
+      expect(result.phase).toBe('results');
+      expect(result.playerBets).toEqual(state.playerBets);
+      expect(result.players.map((p) => p.score)).toEqual([3 + 2, 0]);
+    });
+
+    it('should bet chips not placed on the special slot with that fallback', () => {
+      const state: GameState = {
+        ...createTimedState('special-slot'),
+        phase: 'betting',
+        playerAnswers: [{ playerId: '1', answer: 150 }],
+        playerBets: [{ playerId: '1', betOnSlotIndices: [4] }],
+      };
+
+      const result = expirePhase(state);
+
+      // 100 is below every answer, so "Menor que todas" (6:1) wins
+      expect(result.playerBets).toEqual([
+        { playerId: '1', betOnSlotIndices: [4, 0] },
+        { playerId: '2', betOnSlotIndices: [0, 0] },
+      ]);
+      expect(result.players.map((p) => p.score)).toEqual([6, 12]);
+    });
+
+    it('should throw for phases without a time limit', () => {
+      const untimed = { ...createTimedState('none'), config: createSetupState().config };
+
+      expect(() => expirePhase(createSetupState())).toThrow('Current phase has no time limit');
+      expect(() => expirePhase(untimed)).toThrow('Current phase has no time limit');
+    });
+  });
 });
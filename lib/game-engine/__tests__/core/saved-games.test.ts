@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SavedGamesStore,
+  SAVED_GAMES_STORAGE_KEY,
+  type StorageLike,
+} from '../../core/saved-games';
+import { serializeGameState } from '../../core/serialization';
+import { createInitialGameState } from '../../core/game-state';
+import type { GameState } from '../../core/types';
+
+function createMemoryStorage(): StorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe('SavedGamesStore', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let clock: number;
+  let store: SavedGamesStore;
+
+  function createGameState(round: number, scores: number[]): GameState {
+    const names = ['Alice', 'Bob', 'Charlie'];
+    return {
+      ...createInitialGameState(),
+      players: scores.map((score, i) => ({ id: String(i), name: names[i], score })),
+      currentQuestionIndex: round,
+      roundsToPlay: 7,
+      phase: 'answering',
+    };
+  }
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    clock = 1000;
+    store = new SavedGamesStore(storage, () => clock);
+  });
+
+  describe('save / load', () => {
+    it('should start empty', () => {
+      expect(store.list()).toEqual([]);
+    });
+
+    it('should save and load a game by name', () => {
+      const serialized = serializeGameState(createGameState(2, [5, 3]));
+
+      store.save('Familia', serialized);
+
+      expect(store.load('Familia')).toBe(serialized);
+      expect(store.has('Familia')).toBe(true);
+    });
+
+    it('should trim names', () => {
+      store.save('  Liga  ', serializeGameState(createGameState(0, [0, 0])));
+
+      expect(store.has('Liga')).toBe(true);
+      expect(store.load(' Liga ')).toBeDefined();
+    });
+
+    it('should summarize round and leaders', () => {
+      const summary = store.save('Liga', serializeGameState(createGameState(4, [10, 12, 12])));
+
+      expect(summary).toEqual({
+        name: 'Liga',
+        createdAt: 1000,
+        updatedAt: 1000,
+        phase: 'answering',
+        currentRound: 4,
+        totalRounds: 7,
+        leaders: [
+          { name: 'Bob', score: 12 },
+          { name: 'Charlie', score: 12 },
+        ],
+      });
+    });
+
+    it('should keep createdAt when overwriting', () => {
+      store.save('Liga', serializeGameState(createGameState(0, [0, 0])));
+      clock = 5000;
+
+      const summary = store.save('Liga', serializeGameState(createGameState(1, [3, 0])));
+
+      expect(summary.createdAt).toBe(1000);
+      expect(summary.updatedAt).toBe(5000);
+      expect(summary.currentRound).toBe(1);
+    });
+
+    it('should list most recently updated first', () => {
+      store.save('Old', serializeGameState(createGameState(0, [0, 0])));
+      clock = 2000;
+      store.save('New', serializeGameState(createGameState(0, [0, 0])));
+
+      expect(store.list().map((s) => s.name)).toEqual(['New', 'Old']);
+    });
+
+    it('should reject empty names', () => {
+      expect(() => store.save('  ', serializeGameState(createGameState(0, [0, 0])))).toThrow(
+        'Saved game name cannot be empty'
+      );
+    });
+
+    it('should reject unreadable states', () => {
+      expect(() => store.save('Liga', 'garbage')).toThrow('Invalid saved game');
+      expect(store.list()).toEqual([]);
+    });
+
+    it('should throw when loading a missing game', () => {
+      expect(() => store.load('Nope')).toThrow('Saved game "Nope" not found');
+    });
+
+    it('should not mistake Object\'s own members for saved games', () => {
+      for (const name of ['toString', 'constructor', '__proto__']) {
+        expect(store.has(name)).toBe(false);
+        expect(() => store.load(name)).toThrow(`Saved game "${name}" not found`);
+      }
+
+      const serialized = serializeGameState(createGameState(0, [0, 0]));
+      store.save('constructor', serialized);
+      store.rename('constructor', '__proto__');
+
+      expect(store.has('__proto__')).toBe(true);
+      expect(store.load('__proto__')).toBe(serialized);
+      expect(store.list().map((s) => s.name)).toEqual(['__proto__']);
+    });
+
+    it('should skip corrupted entries when listing', () => {
+      store.save('Good', serializeGameState(createGameState(0, [0, 0])));
+      const records = JSON.parse(storage.data.get(SAVED_GAMES_STORAGE_KEY)!);
+      records.Bad = { name: 'Bad', createdAt: 0, updatedAt: 0, serialized: '{' };
+      storage.setItem(SAVED_GAMES_STORAGE_KEY, JSON.stringify(records));
+
+      expect(store.list().map((s) => s.name)).toEqual(['Good']);
+    });
+
+    it('should treat unreadable storage as empty', () => {
+      storage.setItem(SAVED_GAMES_STORAGE_KEY, 'not json');
+
+      expect(store.list()).toEqual([]);
+    });
+  });
+
+  describe('rename', () => {
+    beforeEach(() => {
+      store.save('Liga', serializeGameState(createGameState(3, [1, 2])));
+    });
+
+    it('should move the game to the new name', () => {
+      const serialized = store.load('Liga');
+      clock = 3000;
+
+      store.rename('Liga', 'Liga 2026');
+
+      expect(store.has('Liga')).toBe(false);
+      expect(store.load('Liga 2026')).toBe(serialized);
+      expect(store.list()[0]).toMatchObject({ name: 'Liga 2026', createdAt: 1000, updatedAt: 3000 });
+    });
+
+    it('should not overwrite another game', () => {
+      store.save('Familia', serializeGameState(createGameState(0, [0, 0])));
+
+      expect(() => store.rename('Liga', 'Familia')).toThrow(
+        'Saved game "Familia" already exists'
+      );
+    });
+
+    it('should throw for missing games', () => {
+      expect(() => store.rename('Nope', 'X')).toThrow('Saved game "Nope" not found');
+    });
+  });
+
+  describe('duplicate', () => {
+    it('should copy the game under a new name', () => {
+      store.save('Liga', serializeGameState(createGameState(3, [1, 2])));
+      clock = 4000;
+
+      const summary = store.duplicate('Liga', 'Liga (copia)');
+
+      expect(store.load('Liga (copia)')).toBe(store.load('Liga'));
+      expect(summary).toMatchObject({ createdAt: 4000, updatedAt: 4000, currentRound: 3 });
+      expect(store.list().length).toBe(2);
+    });
+
+    it('should not overwrite another game', () => {
+      store.save('Liga', serializeGameState(createGameState(3, [1, 2])));
+
+      expect(() => store.duplicate('Liga', 'Liga')).toThrow('Saved game "Liga" already exists');
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the game', () => {
+      store.save('Liga', serializeGameState(createGameState(3, [1, 2])));
+
+      store.delete('Liga');
+
+      expect(store.has('Liga')).toBe(false);
+      expect(store.list()).toEqual([]);
+    });
+
+    it('should ignore missing games', () => {
+      expect(() => store.delete('Nope')).not.toThrow();
+    });
+  });
+});
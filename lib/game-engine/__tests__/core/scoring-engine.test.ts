@@ -5,6 +5,7 @@ import {
   applyScores,
 } from '../../core/scoring-engine';
 import { createInitialGameState } from '../../core/game-state';
+import { DEFAULT_GAME_CONFIG } from '../../core/game-config';
 import type { GameState, PlayerAnswer, Player } from '../../core/types';
 
 describe('Scoring Engine', () => {
@@ -334,6 +335,173 @@ describe('Scoring Engine', () => {
       // With 3 answers, median (75) goes to slot 4
       expect(result.winningIndex).toBe(4);
     });
+
+    it('should use points and payouts from the config', () => {
+      const state: GameState = {
+        ...createScoringState(2),
+        config: {
+          ...DEFAULT_GAME_CONFIG,
+          answerSlotPayouts: [8, 6, 4, 2, 4, 6, 8],
+          correctAnswerPoints: 5,
+          roundBonusPerRound: 3,
+        },
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+          { playerId: '3', answer: 100 },
+        ],
+        playerBets: [
+          { playerId: '1', betOnSlotIndices: [4] },
+          { playerId: '2', betOnSlotIndices: [] },
+          { playerId: '3', betOnSlotIndices: [5] },
+        ],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      // 75 wins in the middle slot (2:1); round bonus is 2 × 3
+      expect(result.pointsAwarded['1']).toBe(2 + 6);
+      expect(result.pointsAwarded['2']).toBe(5 + 6);
+      expect(result.pointsAwarded['3']).toBe(0);
+    });
+
+    it('should pay bankroll wagers at the slot odds and deduct losing ones', () => {
+      const state: GameState = {
+        ...createScoringState(0),
+        config: { ...DEFAULT_GAME_CONFIG, scoringMode: 'bankroll' },
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+          { playerId: '3', answer: 100 },
+        ],
+        playerBets: [
+          // 75 wins in the middle slot (2:1)
+          { playerId: '1', betOnSlotIndices: [4, 3], wagers: [5, 2] },
+          { playerId: '2', betOnSlotIndices: [5, 5], wagers: [0, 4] },
+          { playerId: '3', betOnSlotIndices: [4, 0], wagers: [0, 0] },
+        ],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      // Marker 2 + wager 5 × 2 - lost wager 2
+      expect(result.pointsAwarded['1']).toBe(2 + 10 - 2);
+      // Correct answer 3 - lost wager 4
+      expect(result.pointsAwarded['2']).toBe(3 - 4);
+      // Marker only
+      expect(result.pointsAwarded['3']).toBe(2);
+    });
+
+    it('should score family meeples without odds', () => {
+      const state: GameState = {
+        ...createScoringState(0),
+        config: { ...DEFAULT_GAME_CONFIG, scoringMode: 'family', correctAnswerPoints: 1 },
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+          { playerId: '3', answer: 100 },
+        ],
+        playerBets: [
+          // 75 wins in the middle slot
+          { playerId: '1', betOnSlotIndices: [4, 3], meeples: ['big', 'small'] },
+          { playerId: '2', betOnSlotIndices: [4, 4], meeples: ['small', 'big'] },
+          { playerId: '3', betOnSlotIndices: [5, 4], meeples: ['big', 'small'] },
+        ],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      expect(result.pointsAwarded['1']).toBe(2);
+      expect(result.pointsAwarded['2']).toBe(1 + 1 + 2);
+      expect(result.pointsAwarded['3']).toBe(1);
+    });
+
+    it('should use the configured winning rule for answers and bets', () => {
+      const state: GameState = {
+        ...createScoringState(0),
+        config: { ...DEFAULT_GAME_CONFIG, winningRule: 'closest-absolute' },
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+          { playerId: '3', answer: 82 },
+        ],
+        playerBets: [
+          { playerId: '1', betOnSlotIndices: [5, 5] },
+          { playerId: '2', betOnSlotIndices: [4, 4] },
+          { playerId: '3', betOnSlotIndices: [] },
+        ],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      // 82 is 2 over, closer than 75 which is 5 under; it sits in slot 5 (3:1)
+      expect(result.winningAnswer).toEqual({ playerId: '3', answer: 82 });
+      expect(result.winningIndex).toBe(5);
+      expect(result.pointsAwarded).toEqual({ '1': 6, '2': 0, '3': 3 });
+    });
+
+    it('should pay the expanded tier when an overflow answer wins', () => {
+      const players = Array.from({ length: 9 }, (_, i) => ({
+        id: String(i),
+        name: `P${i}`,
+        score: 0,
+      }));
+      const state: GameState = {
+        ...createScoringState(0),
+        players,
+        config: { ...DEFAULT_GAME_CONFIG, boardOverflow: 'expand' },
+        playerAnswers: players.map((p, i) => ({ playerId: p.id, answer: (i + 1) * 10 })),
+        // Slot 1 holds 10 on the expanded 10-slot board and pays 6:1
+        playerBets: players.map((p) => ({ playerId: p.id, betOnSlotIndices: [1] })),
+      };
+
+      const result = calculateRoundScores(state, 15);
+
+      expect(result.winningIndex).toBe(1);
+      expect(result.pointsAwarded['0']).toBe(3 + 6);
+      expect(result.pointsAwarded['1']).toBe(6);
+    });
+
+    it('should pay final wagers at the winning odds and take lost ones', () => {
+      const state: GameState = {
+        ...createScoringState(0),
+        players: [
+          { id: '1', name: 'Alice', score: 10 },
+          { id: '2', name: 'Bob', score: 10 },
+          { id: '3', name: 'Charlie', score: 10 },
+        ],
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+          { playerId: '3', answer: 100 },
+        ],
+        // 75 is the median (slot 4, 2:1); 50 is in slot 3
+        finalWagers: [
+          { playerId: '2', slotIndex: 4, amount: 5 },
+          { playerId: '3', slotIndex: 3, amount: 4 },
+        ],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      expect(result.pointsAwarded).toEqual({ '1': 0, '2': 3 + 5 * 2, '3': -4 });
+    });
+
+    it('should not award a round bonus when disabled', () => {
+      const state: GameState = {
+        ...createScoringState(3),
+        config: { ...DEFAULT_GAME_CONFIG, roundBonusPerRound: 0 },
+        playerAnswers: [
+          { playerId: '1', answer: 50 },
+          { playerId: '2', answer: 75 },
+        ],
+        playerBets: [],
+      };
+
+      const result = calculateRoundScores(state, 80);
+
+      expect(result.pointsAwarded['2']).toBe(3);
+    });
   });
 
   describe('applyScores', () => {
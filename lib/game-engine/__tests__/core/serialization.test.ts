@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GAME_STATE_SCHEMA_VERSION,
+  serializeGameState,
+  deserializeGameState,
+  migrateGameState,
+  type GameStateMigration,
+} from '../../core/serialization';
+import { createInitialGameState } from '../../core/game-state';
+import { DEFAULT_GAME_CONFIG } from '../../core/game-config';
+import type { GameState, Question } from '../../core/types';
+
+describe('Serialization', () => {
+  const mockQuestions: Question[] = [
+    { question: 'Q1', answer: 100, labels: ['math'] },
+    { question: 'Q2', answer: 200, labels: ['science'] },
+  ];
+
+  function createMidGameState(): GameState {
+    return {
+      ...createInitialGameState(mockQuestions),
+      players: [
+        { id: '1', name: 'Alice', score: 9 },
+        { id: '2', name: 'Bob', score: 0 },
+      ],
+      gameQuestions: mockQuestions,
+      currentQuestionIndex: 1,
+      phase: 'betting',
+      playerAnswers: [
+        { playerId: '1', answer: 150 },
+        { playerId: '2', answer: 250 },
+      ],
+      playerBets: [{ playerId: '1', betOnSlotIndices: [3] }],
+      scoreHistory: { '1': [0, 9], '2': [0, 0] },
+      roundsToPlay: 2,
+    };
+  }
+
+  describe('serializeGameState', () => {
+    it('should include the current schema version', () => {
+      const parsed = JSON.parse(serializeGameState(createMidGameState()));
+
+      expect(parsed.schemaVersion).toBe(GAME_STATE_SCHEMA_VERSION);
+    });
+
+    it('should round-trip a game state', () => {
+      const state = createMidGameState();
+
+      expect(deserializeGameState(serializeGameState(state))).toEqual(state);
+    });
+  });
+
+  describe('deserializeGameState', () => {
+    it('should throw for malformed JSON', () => {
+      expect(() => deserializeGameState('{not json')).toThrow('Invalid saved game');
+    });
+
+    it('should throw when the envelope is missing fields', () => {
+      expect(() => deserializeGameState('{}')).toThrow('Invalid saved game');
+      expect(() => deserializeGameState('{"schemaVersion":1}')).toThrow('Invalid saved game');
+      expect(() => deserializeGameState('null')).toThrow('Invalid saved game');
+    });
+
+    it('should reject saves from a newer version', () => {
+      const future = JSON.stringify({
+        schemaVersion: GAME_STATE_SCHEMA_VERSION + 1,
+        state: createMidGameState(),
+      });
+
+      expect(() => deserializeGameState(future)).toThrow(
+        `Unsupported save version ${GAME_STATE_SCHEMA_VERSION + 1}`
+      );
+    });
+  });
+
+  describe('migrateGameState', () => {
+    const migrations: Record<number, GameStateMigration> = {
+      1: (state) => ({ ...state, addedInV2: true }),
+      2: (state) => ({ ...state, addedInV3: 'x' }),
+    };
+
+    it('should apply migrations in order up to the target', () => {
+      const result = migrateGameState({ phase: 'setup' }, 1, migrations, 3);
+
+      expect(result).toEqual({ phase: 'setup', addedInV2: true, addedInV3: 'x' });
+    });
+
+    it('should only apply migrations newer than the saved version', () => {
+      const result = migrateGameState({ addedInV2: false }, 2, migrations, 3);
+
+      expect(result).toEqual({ addedInV2: false, addedInV3: 'x' });
+    });
+
+    it('should leave current-version states unchanged', () => {
+      const state = { phase: 'setup' };
+
+      expect(migrateGameState(state, 3, migrations, 3)).toBe(state);
+    });
+
+    it('should throw when a migration step is missing', () => {
+      expect(() => migrateGameState({}, 0, migrations, 3)).toThrow(
+        'No migration from save version 0'
+      );
+    });
+  });
+
+  describe('MIGRATIONS', () => {
+    // GameState as it was saved before any migrations existed
+    const v1State = {
+      players: [{ id: '1', name: 'Alice', score: 3 }],
+      allQuestions: mockQuestions,
+      filteredQuestions: mockQuestions,
+      gameQuestions: mockQuestions,
+      currentQuestionIndex: 1,
+      phase: 'answering',
+      playerAnswers: [],
+      playerBets: [],
+      scoreHistory: { '1': [0, 3] },
+      roundsToPlay: 2,
+      selectedLabels: [],
+    };
+
+    function deserializeAt(schemaVersion: number, state: object): GameState {
+      return deserializeGameState(JSON.stringify({ schemaVersion, state }));
+    }
+
+    it('should upgrade a version 1 save with seed fields', () => {
+      const result = deserializeAt(1, v1State);
+
+      expect(result.seed).toBeNull();
+      expect(result.gameSeed).toBeNull();
+      expect(result.players).toEqual(v1State.players);
+    });
+
+    it('should upgrade a version 2 save with the classic rules', () => {
+      const result = deserializeAt(2, { ...v1State, seed: null, gameSeed: null });
+
+      expect(result.config).toEqual(DEFAULT_GAME_CONFIG);
+      expect(result.roundsToPlay).toBe(2);
+    });
+
+    it('should upgrade a version 3 save to simplified scoring', () => {
+      const { scoringMode, ...v3Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(3, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        config: { ...v3Config, maxBetsPerPlayer: 3 },
+      });
+
+      expect(result.config.scoringMode).toBe(scoringMode);
+      expect(result.config.maxBetsPerPlayer).toBe(3);
+    });
+
+    it('should upgrade a version 4 save without a target score', () => {
+      const { targetScore, ...v4Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(4, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        config: v4Config,
+      });
+
+      expect(result.config.targetScore).toBe(targetScore);
+    });
+
+    it('should upgrade a version 5 save to the classic winning rule', () => {
+      const { winningRule, ...v5Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(5, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        config: v5Config,
+      });
+
+      expect(result.config.winningRule).toBe(winningRule);
+    });
+
+    it('should upgrade a version 6 save to merge overflowing answers', () => {
+      const { boardOverflow, ...v6Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(6, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        config: v6Config,
+      });
+
+      expect(result.config.boardOverflow).toBe(boardOverflow);
+    });
+
+    it('should upgrade a version 7 save without teams', () => {
+      const result = deserializeAt(7, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        config: DEFAULT_GAME_CONFIG,
+      });
+
+      expect(result.teams).toEqual([]);
+    });
+
+    it('should upgrade a version 8 save to random question selection', () => {
+      const { questionSelection, ...v8Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(8, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        teams: [],
+        config: v8Config,
+      });
+
+      expect(result.config.questionSelection).toBe(questionSelection);
+    });
+
+    it('should upgrade a version 9 save without timers', () => {
+      const {
+        answerTimeLimitSeconds,
+        betTimeLimitSeconds,
+        betTimeoutFallback,
+        ...v9Config
+      } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(9, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        teams: [],
+        config: v9Config,
+      });
+
+      expect(result.config.answerTimeLimitSeconds).toBe(answerTimeLimitSeconds);
+      expect(result.config.betTimeLimitSeconds).toBe(betTimeLimitSeconds);
+      expect(result.config.betTimeoutFallback).toBe(betTimeoutFallback);
+    });
+
+    it('should upgrade a version 10 save without a final wager', () => {
+      const { finalWager, ...v10Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(10, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        teams: [],
+        config: v10Config,
+      });
+
+      expect(result.config.finalWager).toBe(finalWager);
+      expect(result.finalWagers).toEqual([]);
+    });
+
+    it('should upgrade a version 11 save without late joins', () => {
+      const { lateJoinScore, ...v11Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(11, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        teams: [],
+        finalWagers: [],
+        config: v11Config,
+      });
+
+      expect(result.config.lateJoinScore).toBe(lateJoinScore);
+      expect(result.departedPlayerIds).toEqual([]);
+    });
+
+    it('should upgrade a version 12 save without secret betting', () => {
+      const { secretBetting, ...v12Config } = DEFAULT_GAME_CONFIG;
+      const result = deserializeAt(12, {
+        ...v1State,
+        seed: null,
+        gameSeed: null,
+        teams: [],
+        finalWagers: [],
+        departedPlayerIds: [],
+        config: v12Config,
+      });
+
+      expect(result.config.secretBetting).toBe(secretBetting);
+    });
+  });
+});
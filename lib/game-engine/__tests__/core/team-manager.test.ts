@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isTeamMode,
+  getCompetitors,
+  updateCompetitorScores,
+  addTeam,
+  removeTeam,
+  assignPlayerToTeam,
+  validateTeams,
+  getPlayerTeam,
+} from '../../core/team-manager';
+import { addPlayer, removePlayer } from '../../core/player-manager';
+import { createInitialGameState } from '../../core/game-state';
+import type { GameState } from '../../core/types';
+
+function createTeamState(): GameState {
+  let state = createInitialGameState();
+  state = addPlayer(state, 'p1', 'Alice');
+  state = addPlayer(state, 'p2', 'Bob');
+  state = addPlayer(state, 'p3', 'Carol');
+  state = addTeam(state, 't1', 'Reds');
+  state = addTeam(state, 't2', 'Blues');
+  state = assignPlayerToTeam(state, 'p1', 't1');
+  state = assignPlayerToTeam(state, 'p2', 't1');
+  return assignPlayerToTeam(state, 'p3', 't2');
+}
+
+describe('Team Manager', () => {
+  describe('getCompetitors', () => {
+    it('should return players when there are no teams', () => {
+      const state = addPlayer(createInitialGameState(), 'p1', 'Alice');
+
+      expect(isTeamMode(state)).toBe(false);
+      expect(getCompetitors(state)).toBe(state.players);
+    });
+
+    it('should return teams in team mode', () => {
+      const state = createTeamState();
+
+      expect(isTeamMode(state)).toBe(true);
+      expect(getCompetitors(state).map((c) => c.id)).toEqual(['t1', 't2']);
+    });
+  });
+
+  describe('updateCompetitorScores', () => {
+    it('should update team scores and leave players alone in team mode', () => {
+      const result = updateCompetitorScores(createTeamState(), (t) => t.score + 5);
+
+      expect(result.teams.map((t) => t.score)).toEqual([5, 5]);
+      expect(result.players.map((p) => p.score)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('addTeam', () => {
+    it('should add an empty team with zero score', () => {
+      const result = addTeam(createInitialGameState(), 't1', '  Reds  ');
+
+      expect(result.teams).toEqual([{ id: 't1', name: 'Reds', score: 0, memberIds: [] }]);
+    });
+
+    it('should throw for empty names', () => {
+      expect(() => addTeam(createInitialGameState(), 't1', ' ')).toThrow(
+        'Team name cannot be empty'
+      );
+    });
+
+    it('should throw outside setup', () => {
+      const state = { ...createInitialGameState(), phase: 'answering' as const };
+
+      expect(() => addTeam(state, 't1', 'Reds')).toThrow('Can only change teams during setup');
+    });
+  });
+
+  describe('removeTeam', () => {
+    it('should remove the team and leave its members unassigned', () => {
+      const result = removeTeam(createTeamState(), 't2');
+
+      expect(result.teams.map((t) => t.id)).toEqual(['t1']);
+      expect(getPlayerTeam(result, 'p3')).toBeUndefined();
+    });
+  });
+
+  describe('assignPlayerToTeam', () => {
+    it('should move a player out of their previous team', () => {
+      const result = assignPlayerToTeam(createTeamState(), 'p2', 't2');
+
+      expect(result.teams[0].memberIds).toEqual(['p1']);
+      expect(result.teams[1].memberIds).toEqual(['p3', 'p2']);
+    });
+
+    it('should unassign a player with a null team', () => {
+      const result = assignPlayerToTeam(createTeamState(), 'p1', null);
+
+      expect(getPlayerTeam(result, 'p1')).toBeUndefined();
+    });
+
+    it('should throw for unknown players and teams', () => {
+      const state = createTeamState();
+
+      expect(() => assignPlayerToTeam(state, 'p9', 't1')).toThrow('Player not found');
+      expect(() => assignPlayerToTeam(state, 'p1', 't9')).toThrow('Team not found');
+      expect(() => assignPlayerToTeam(state, 'p1', 't9')).toThrow(
+        expect.objectContaining({ code: 'TEAM_NOT_FOUND', details: { teamId: 't9' } })
+      );
+    });
+  });
+
+  describe('removePlayer', () => {
+    it('should remove the player from their team', () => {
+      const result = removePlayer(createTeamState(), 'p1');
+
+      expect(result.teams[0].memberIds).toEqual(['p2']);
+    });
+  });
+
+  describe('validateTeams', () => {
+    it('should accept complete rosters and games without teams', () => {
+      expect(validateTeams(createTeamState())).toEqual([]);
+      expect(validateTeams(createInitialGameState())).toEqual([]);
+    });
+
+    it('should require at least 2 teams', () => {
+      const state = removeTeam(createTeamState(), 't2');
+
+      expect(validateTeams(state)).toContain('At least 2 teams required');
+    });
+
+    it('should reject empty teams', () => {
+      const state = addTeam(createTeamState(), 't3', 'Greens');
+
+      expect(validateTeams(state)).toContain('Every team needs at least one player');
+    });
+
+    it('should require every player to be on a team', () => {
+      const state = assignPlayerToTeam(createTeamState(), 'p2', null);
+
+      expect(validateTeams(state)).toContain('Every player must be on a team');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import { getViewFor, getViewerSeatId, isRoundRevealed } from '../../core/views';
+import { createInitialGameState } from '../../core/game-state';
+import { DEFAULT_GAME_CONFIG } from '../../core/game-config';
+import type { GamePhase, GameState, Player, Question, Viewer } from '../../core/types';
+
+describe('Views', () => {
+  const mockPlayers: Player[] = [
+    { id: 'p1', name: 'Alice', score: 0 },
+    { id: 'p2', name: 'Bob', score: 0 },
+  ];
+  // Answers no player guesses, so they can be looked for in a view
+  const questions: Question[] = [
+    {
+      id: 'q1',
+      question: 'Q1',
+      answer: 987654,
+      labels: [],
+      explanation: 'Counted in 2020',
+      source: 'Almanac',
+      asOf: '2020',
+    },
+    { id: 'q2', question: 'Q2', answer: 876543, labels: [] },
+    { id: 'q3', question: 'Q3', answer: 765432, labels: [] },
+  ];
+
+  const host: Viewer = { role: 'host' };
+  const spectator: Viewer = { role: 'spectator' };
+  const alice: Viewer = { role: 'player', playerId: 'p1' };
+  const bob: Viewer = { role: 'player', playerId: 'p2' };
+  const viewers = [host, spectator, alice, bob];
+
+  const phases: GamePhase[] = [
+    'setup',
+    'question-selection',
+    'answering',
+    'betting',
+    'results',
+    'game-over',
+  ];
+
+  function createState(overrides: Partial<GameState> = {}): GameState {
+    return {
+      ...createInitialGameState(questions),
+      players: mockPlayers,
+      gameQuestions: questions.slice(0, 2),
+      filteredQuestions: questions,
+      currentQuestionIndex: 0,
+      roundsToPlay: 2,
+      phase: 'answering',
+      seed: 1111,
+      gameSeed: 2222,
+      ...overrides,
+    };
+  }
+
+  describe('getViewerSeatId', () => {
+    it('should be the player\'s own ID, or their team\'s in team mode', () => {
+      const state = createState();
+      expect(getViewerSeatId(state, alice)).toBe('p1');
+      expect(getViewerSeatId(state, host)).toBeNull();
+      expect(getViewerSeatId(state, spectator)).toBeNull();
+
+      const teamState = createState({
+        teams: [{ id: 't1', name: 'Red', score: 0, memberIds: ['p1', 'p2'] }],
+      });
+      expect(getViewerSeatId(teamState, bob)).toBe('t1');
+    });
+  });
+
+  describe('isRoundRevealed', () => {
+    it('should only be true in the results and after the game', () => {
+      expect(phases.filter((phase) => isRoundRevealed(createState({ phase })))).toEqual([
+        'results',
+        'game-over',
+      ]);
+    });
+  });
+
+  describe('getViewFor', () => {
+    it('should never include the question bank or other rounds\' answers', () => {
+      for (const phase of phases) {
+        for (const viewer of viewers) {
+          const view = getViewFor(createState({ phase }), viewer);
+          const json = JSON.stringify(view);
+
+          expect(view).not.toHaveProperty('allQuestions');
+          expect(view).not.toHaveProperty('filteredQuestions');
+          expect(view).not.toHaveProperty('gameQuestions');
+          expect(json).not.toContain('876543');
+          expect(json).not.toContain('765432');
+        }
+      }
+    });
+
+    it('should strip the correct answer before the results', () => {
+      for (const phase of ['answering', 'betting'] as const) {
+        for (const viewer of viewers) {
+          const view = getViewFor(createState({ phase }), viewer);
+
+          expect(view.currentQuestion).toEqual({ id: 'q1', question: 'Q1', labels: [] });
+          expect(JSON.stringify(view)).not.toContain('987654');
+          expect(JSON.stringify(view)).not.toContain('Counted in 2020');
+          expect(JSON.stringify(view)).not.toContain('Almanac');
+        }
+      }
+    });
+
+    it('should show the correct answer to everyone from the results on', () => {
+      for (const phase of ['results', 'game-over'] as const) {
+        for (const viewer of viewers) {
+          expect(getViewFor(createState({ phase }), viewer).currentQuestion).toMatchObject({
+            answer: 987654,
+            explanation: 'Counted in 2020',
+            source: 'Almanac',
+            asOf: '2020',
+          });
+        }
+      }
+    });
+
+    it('should not show a question before the round starts', () => {
+      for (const phase of ['setup', 'question-selection'] as const) {
+        expect(getViewFor(createState({ phase }), host).currentQuestion).toBeNull();
+      }
+    });
+
+    it('should only show a player their own answer while answering', () => {
+      const state = createState({
+        playerAnswers: [
+          { playerId: 'p1', answer: 4321 },
+          { playerId: 'p2', answer: 5678 },
+        ],
+      });
+
+      const aliceView = getViewFor(state, alice);
+      expect(aliceView.playerAnswers).toEqual([{ playerId: 'p1', answer: 4321 }]);
+      expect(JSON.stringify(aliceView)).not.toContain('5678');
+      expect(getViewFor(state, host).playerAnswers).toEqual([]);
+      expect(getViewFor(state, spectator).playerAnswers).toEqual([]);
+      // Who has answered is public, what they answered is not
+      expect(getViewFor(state, spectator).answeredPlayerIds).toEqual(['p1', 'p2']);
+    });
+
+    it('should show everyone every answer once answering closes', () => {
+      const state = createState({
+        phase: 'betting',
+        playerAnswers: [
+          { playerId: 'p1', answer: 4321 },
+          { playerId: 'p2', answer: 5678 },
+        ],
+      });
+
+      for (const viewer of viewers) {
+        expect(getViewFor(state, viewer).playerAnswers).toHaveLength(2);
+      }
+    });
+
+    it('should show a team member their team\'s answer', () => {
+      const state = createState({
+        teams: [{ id: 't1', name: 'Red', score: 0, memberIds: ['p1'] }],
+        playerAnswers: [{ playerId: 't1', answer: 4321 }],
+      });
+
+      expect(getViewFor(state, alice).playerAnswers).toEqual([{ playerId: 't1', answer: 4321 }]);
+      expect(getViewFor(state, bob).playerAnswers).toEqual([]);
+    });
+
+    it('should hide other players\' bets with secret betting until everyone has bet', () => {
+      const config = { ...DEFAULT_GAME_CONFIG, secretBetting: true, maxBetsPerPlayer: 1 };
+      const state = createState({
+        config,
+        phase: 'betting',
+        playerAnswers: [
+          { playerId: 'p1', answer: 10 },
+          { playerId: 'p2', answer: 20 },
+        ],
+        playerBets: [{ playerId: 'p1', betOnSlotIndices: [0] }],
+      });
+
+      expect(getViewFor(state, alice).playerBets).toEqual([{ playerId: 'p1', betOnSlotIndices: [0] }]);
+      expect(getViewFor(state, bob).playerBets).toEqual([]);
+      expect(getViewFor(state, host).playerBets).toEqual([]);
+      expect(getViewFor(state, spectator).playerBets).toEqual([]);
+
+      const allBet = {
+        ...state,
+        playerBets: [...state.playerBets, { playerId: 'p2', betOnSlotIndices: [0] }],
+      };
+      expect(getViewFor(allBet, spectator).playerBets).toHaveLength(2);
+    });
+
+    it('should show every bet without secret betting', () => {
+      const state = createState({
+        phase: 'betting',
+        playerBets: [{ playerId: 'p1', betOnSlotIndices: [0] }],
+      });
+
+      expect(getViewFor(state, bob).playerBets).toHaveLength(1);
+    });
+
+    it('should only show a player their own final wager until the results', () => {
+      const finalWagers = [
+        { playerId: 'p1', slotIndex: 3, amount: 5 },
+        { playerId: 'p2', slotIndex: 4, amount: 7 },
+      ];
+      const state = createState({ phase: 'betting', finalWagers });
+
+      expect(getViewFor(state, alice).finalWagers).toEqual([finalWagers[0]]);
+      expect(getViewFor(state, host).finalWagers).toEqual([]);
+      expect(getViewFor({ ...state, phase: 'results' }, bob).finalWagers).toEqual(finalWagers);
+    });
+
+    it('should hide the seed from everyone until the game is over', () => {
+      for (const phase of phases.filter((p) => p !== 'game-over')) {
+        for (const viewer of viewers) {
+          expect(getViewFor(createState({ phase }), viewer)).toMatchObject({ seed: null, gameSeed: null });
+        }
+      }
+      for (const viewer of viewers) {
+        expect(getViewFor(createState({ phase: 'game-over' }), viewer)).toMatchObject({
+          seed: 1111,
+          gameSeed: 2222,
+        });
+      }
+    });
+
+    it('should not change the state it projects', () => {
+      const state = createState({ playerAnswers: [{ playerId: 'p2', answer: 5678 }] });
+      const copy = structuredClone(state);
+
+      getViewFor(state, alice);
+
+      expect(state).toEqual(copy);
+    });
+  });
+});
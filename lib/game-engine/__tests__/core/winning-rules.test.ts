@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WINNING_RULES,
+  DEFAULT_WINNING_RULE,
+  findWinningValue,
+  isWinningRuleName,
+} from '../../core/winning-rules';
+
+describe('Winning Rules', () => {
+  describe('WINNING_RULES', () => {
+    it('should rule out guesses over the answer by default', () => {
+      const rule = WINNING_RULES[DEFAULT_WINNING_RULE];
+
+      expect(rule(90, 100)).toBe(10);
+      expect(rule(101, 100)).toBe(Infinity);
+    });
+
+    it('should measure absolute distance in either direction', () => {
+      const rule = WINNING_RULES['closest-absolute'];
+
+      expect(rule(90, 100)).toBe(10);
+      expect(rule(110, 100)).toBe(10);
+    });
+
+    it('should treat equal ratios as equally close', () => {
+      const rule = WINNING_RULES['closest-relative'];
+
+      expect(rule(50, 100)).toBeCloseTo(rule(200, 100));
+      expect(rule(1_000_000, 8_000_000)).toBeGreaterThan(rule(10_000_000, 8_000_000));
+    });
+
+    it('should fall back to absolute distance for non-positive answers', () => {
+      const rule = WINNING_RULES['closest-relative'];
+
+      expect(rule(-3, -5)).toBe(2);
+      expect(rule(0, 100)).toBe(Infinity);
+    });
+  });
+
+  describe('isWinningRuleName', () => {
+    it('should accept known rules only', () => {
+      expect(isWinningRuleName('closest-absolute')).toBe(true);
+      expect(isWinningRuleName('toString')).toBe(false);
+      expect(isWinningRuleName('furthest')).toBe(false);
+    });
+  });
+
+  describe('findWinningValue', () => {
+    it('should pick the closest without going over by default', () => {
+      expect(findWinningValue([50, 75, 90], 80)).toBe(75);
+    });
+
+    it('should let a guess over the answer win under absolute distance', () => {
+      expect(findWinningValue([50, 75, 82], 80, 'closest-absolute')).toBe(82);
+    });
+
+    it('should use ratios under relative distance', () => {
+      // 1M is 8x too low, 20M is 2.5x too high
+      expect(findWinningValue([1_000_000, 20_000_000], 8_000_000, 'closest-relative')).toBe(
+        20_000_000
+      );
+      expect(findWinningValue([1_000_000, 20_000_000], 8_000_000, 'closest-absolute')).toBe(
+        1_000_000
+      );
+    });
+
+    it('should break ties toward the lower value', () => {
+      expect(findWinningValue([110, 90], 100, 'closest-absolute')).toBe(90);
+    });
+
+    it('should return null when the answer is below every guess under every rule', () => {
+      for (const rule of Object.keys(WINNING_RULES) as (keyof typeof WINNING_RULES)[]) {
+        expect(findWinningValue([51, 100], 50, rule)).toBeNull();
+      }
+    });
+
+    it('should return null without guesses', () => {
+      expect(findWinningValue([], 50)).toBeNull();
+    });
+
+    it('should fall back to the highest guess not over when the rule rules out all', () => {
+      expect(findWinningValue([-5, 0], 10, 'closest-relative')).toBe(0);
+    });
+  });
+});
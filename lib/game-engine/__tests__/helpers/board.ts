@@ -0,0 +1,12 @@
+import type { WitsAndWagersEngine } from '../../core/game-engine';
+
+// Helper to find slot index for a given answer value
+export function findSlotForAnswer(engine: WitsAndWagersEngine, answerValue: number): number {
+  const board = engine.getBettingBoard();
+  for (const slot of board) {
+    if (slot.answerGroups.some(g => g.answer === answerValue)) {
+      return slot.index;
+    }
+  }
+  throw new Error(`No slot found for answer ${answerValue}`);
+}
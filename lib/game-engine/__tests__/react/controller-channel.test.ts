@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ControllerSeats,
+  createControllerView,
+  parseControllerMessage,
+  publishToControllers,
+  type TableLink,
+  type TableMessage,
+} from '../../react/controller-channel';
+import { createInitialGameState } from '../../core/game-state';
+import type { GameState, Player, Question } from '../../core/types';
+
+describe('createControllerView', () => {
+  const mockPlayers: Player[] = [
+    { id: '1', name: 'Alice', score: 4 },
+    { id: '2', name: 'Bob', score: 0 },
+  ];
+  const question: Question = { question: 'How tall?', answer: 300, labels: [], unit: 'm' };
+
+  function createState(overrides: Partial<GameState> = {}): GameState {
+    return {
+      ...createInitialGameState([question]),
+      players: mockPlayers,
+      gameQuestions: [question],
+      currentQuestionIndex: 0,
+      roundsToPlay: 1,
+      phase: 'answering',
+      playerAnswers: [
+        { playerId: '1', answer: 250 },
+        { playerId: '2', answer: 320 },
+      ],
+      ...overrides,
+    };
+  }
+
+  it('should show only the seat\'s own answer', () => {
+    const view = createControllerView(createState(), '1')!;
+
+    expect(view.answer).toBe(250);
+    expect(JSON.stringify(view)).not.toContain('320');
+  });
+
+  it('should never include the correct answer', () => {
+    for (const phase of ['answering', 'betting', 'results'] as const) {
+      const view = createControllerView(createState({ phase }), '1')!;
+      expect(view.question).toEqual({ question: 'How tall?', unit: 'm' });
+    }
+  });
+
+  it('should fill the betting board only once answering is closed', () => {
+    expect(createControllerView(createState(), '1')!.bettingBoard).toEqual([]);
+
+    const board = createControllerView(createState({ phase: 'betting' }), '1')!.bettingBoard;
+    const answers = board.flatMap((slot) => slot.answerGroups.map((g) => g.answer));
+    expect(answers.sort()).toEqual([250, 320]);
+  });
+
+  it('should offer the empty middle slot but no other empty slot', () => {
+    const board = createControllerView(createState({ phase: 'betting' }), '1')!.bettingBoard;
+
+    expect(board.some((slot) => slot.answerGroups.length === 0 && !slot.isSpecial)).toBe(true);
+    expect(board.filter((slot) => slot.answerGroups.length === 0 && !slot.isSpecial)).toHaveLength(1);
+  });
+
+  it('should include the seat\'s bankroll and placed meeples', () => {
+    const state = createState({
+      phase: 'betting',
+      config: { ...createInitialGameState([question]).config, scoringMode: 'family' },
+      playerBets: [{ playerId: '1', betOnSlotIndices: [3], meeples: ['big'] }],
+    });
+    const view = createControllerView(state, '1')!;
+
+    expect(view.scoringMode).toBe('family');
+    expect(view.meeples).toEqual(['big']);
+    expect(view.bankroll).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should list the seat\'s chips and score', () => {
+    const state = createState({
+      phase: 'betting',
+      playerBets: [{ playerId: '1', betOnSlotIndices: [3] }],
+    });
+    const view = createControllerView(state, '1')!;
+
+    expect(view.bets).toEqual([3]);
+    expect(view.maxBets).toBe(state.config.maxBetsPerPlayer);
+    expect(view.score).toBe(4);
+  });
+
+  it('should return null for players who are not in the game', () => {
+    expect(createControllerView(createState(), 'nobody')).toBeNull();
+    expect(createControllerView(createState({ departedPlayerIds: ['2'] }), '2')).toBeNull();
+  });
+});
+
+describe('ControllerSeats', () => {
+  const state: GameState = {
+    ...createInitialGameState([]),
+    players: [
+      { id: '1', name: 'Alice', score: 0 },
+      { id: '2', name: 'Bob', score: 0 },
+    ],
+  };
+  let nextToken = 0;
+  const createSeats = () => new ControllerSeats(() => `token-${++nextToken}`);
+
+  it('should give a seat to its first controller with a token', () => {
+    const seats = createSeats();
+    const token = seats.claim(state, 'c1', '1');
+
+    expect(token).toMatch(/^token-/);
+    expect(seats.getSeat('c1')).toBe('1');
+  });
+
+  it('should refuse a seat another controller holds', () => {
+    const seats = createSeats();
+    const token = seats.claim(state, 'c1', '1');
+
+    expect(() => seats.claim(state, 'c2', '1', token)).toThrow(
+      expect.objectContaining({ code: 'SEAT_TAKEN', seatId: '1' })
+    );
+  });
+
+  it('should only give a seat back with its token', () => {
+    const seats = createSeats();
+    const token = seats.claim(state, 'c1', '1');
+    seats.leave('c1');
+
+    expect(() => seats.claim(state, 'c2', '1')).toThrow(expect.objectContaining({ code: 'BAD_TOKEN' }));
+    expect(() => seats.claim(state, 'c2', '1', 'guess')).toThrow(expect.objectContaining({ code: 'BAD_TOKEN' }));
+    expect(seats.claim(state, 'c2', '1', token)).toBe(token);
+    expect(seats.getSeat('c2')).toBe('1');
+  });
+
+  it('should refuse seats that are not in the game', () => {
+    expect(() => createSeats().claim(state, 'c1', 'nobody')).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_SEAT' })
+    );
+  });
+
+  it('should refuse moves from a controller without a seat', () => {
+    const seats = createSeats();
+    seats.claim(state, 'c1', '1');
+    seats.release('c1');
+
+    expect(() => seats.getSeat('c1')).toThrow(expect.objectContaining({ code: 'NO_SEAT' }));
+  });
+});
+
+describe('publishToControllers', () => {
+  it('should send each seat\'s view to the controller holding it only', () => {
+    const question: Question = { question: 'How tall?', answer: 300, labels: [] };
+    const state: GameState = {
+      ...createInitialGameState([question]),
+      players: [
+        { id: '1', name: 'Alice', score: 0 },
+        { id: '2', name: 'Bob', score: 0 },
+      ],
+      gameQuestions: [question],
+      roundsToPlay: 1,
+      phase: 'answering',
+      playerAnswers: [
+        { playerId: '1', answer: 250 },
+        { playerId: '2', answer: 320 },
+      ],
+    };
+    const sent: [string, TableMessage][] = [];
+    const link: TableLink = {
+      send: (controllerId, message) => sent.push([controllerId, message]),
+      subscribe: () => () => {},
+      close: () => {},
+    };
+    const seats = new ControllerSeats(() => 'token');
+    seats.connect('c1');
+    seats.connect('c2');
+    seats.connect('watcher');
+    seats.claim(state, 'c1', '1');
+    seats.claim(state, 'c2', '2');
+
+    publishToControllers(link, seats, state);
+
+    const sentTo = (controllerId: string) => sent.filter(([id]) => id === controllerId).map(([, m]) => m);
+    expect(sentTo('watcher')).toEqual([{ type: 'seats', seats: [{ id: '1', name: 'Alice' }, { id: '2', name: 'Bob' }] }]);
+    expect(sentTo('c1')).toContainEqual(expect.objectContaining({ type: 'view', view: expect.objectContaining({ seatId: '1' }) }));
+    expect(JSON.stringify(sentTo('c1'))).not.toContain('320');
+    expect(JSON.stringify(sentTo('c2'))).not.toContain('250');
+  });
+});
+
+describe('parseControllerMessage', () => {
+  it('should accept well-formed messages', () => {
+    expect(parseControllerMessage({ type: 'connect' })).toEqual({ type: 'connect' });
+    expect(parseControllerMessage({ type: 'claim', seatId: '1', token: 'secret' })).toEqual({
+      type: 'claim',
+      seatId: '1',
+      token: 'secret',
+    });
+    expect(parseControllerMessage({ type: 'answer', answer: 42 })).toEqual({ type: 'answer', answer: 42 });
+    expect(parseControllerMessage({ type: 'bet', slotIndex: 3, wager: 2, meeple: 'big' })).toEqual({
+      type: 'bet',
+      slotIndex: 3,
+      wager: 2,
+      meeple: 'big',
+    });
+  });
+
+  it('should drop fields a message does not have', () => {
+    expect(parseControllerMessage({ type: 'release', seatId: '1' })).toEqual({ type: 'release' });
+  });
+
+  it('should reject payloads that are not objects', () => {
+    expect(parseControllerMessage(null)).toBeNull();
+    expect(parseControllerMessage(undefined)).toBeNull();
+    expect(parseControllerMessage('connect')).toBeNull();
+    expect(parseControllerMessage(42)).toBeNull();
+  });
+
+  it('should reject unknown message types', () => {
+    expect(parseControllerMessage({})).toBeNull();
+    expect(parseControllerMessage({ type: 'advance' })).toBeNull();
+  });
+
+  it('should reject messages with missing or mistyped fields', () => {
+    expect(parseControllerMessage({ type: 'claim' })).toBeNull();
+    expect(parseControllerMessage({ type: 'claim', seatId: 1 })).toBeNull();
+    expect(parseControllerMessage({ type: 'claim', seatId: '1', token: 7 })).toBeNull();
+    expect(parseControllerMessage({ type: 'answer' })).toBeNull();
+    expect(parseControllerMessage({ type: 'answer', answer: '42' })).toBeNull();
+    expect(parseControllerMessage({ type: 'bet' })).toBeNull();
+    expect(parseControllerMessage({ type: 'bet', slotIndex: 1.5 })).toBeNull();
+    expect(parseControllerMessage({ type: 'bet', slotIndex: 1, wager: '2' })).toBeNull();
+    expect(parseControllerMessage({ type: 'bet', slotIndex: 1, meeple: 'huge' })).toBeNull();
+  });
+});
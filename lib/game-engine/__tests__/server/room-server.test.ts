@@ -0,0 +1,217 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { startRoomServer, type RoomServer } from '../../server/room-server';
+import {
+  TABLE_LINK_PATH,
+  type ClientMessage,
+  type LinkClientMessage,
+  type LinkServerMessage,
+  type ServerMessage,
+} from '../../server/protocol';
+import type { Question } from '../../core/types';
+
+// A WebSocket client that queues what the server sends until a test reads it
+class TestClient<In extends { type: string } = ServerMessage, Out = ClientMessage> {
+  private received: In[] = [];
+  private waiting: ((message: In) => void) | null = null;
+
+  private constructor(private socket: WebSocket) {
+    socket.on('message', (data) => {
+      const message: In = JSON.parse(data.toString());
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve(message);
+      } else {
+        this.received.push(message);
+      }
+    });
+  }
+
+  static connect<In extends { type: string } = ServerMessage, Out = ClientMessage>(
+    port: number,
+    path = ''
+  ): Promise<TestClient<In, Out>> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}${path}`);
+    return new Promise((resolve, reject) => {
+      socket.once('open', () => resolve(new TestClient<In, Out>(socket)));
+      socket.once('error', reject);
+    });
+  }
+
+  send(message: Out | string): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  next(): Promise<In> {
+    const queued = this.received.shift();
+    if (queued) return Promise.resolve(queued);
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  // Skips messages until one of the given type arrives
+  async nextOf<T extends In['type']>(type: T): Promise<Extract<In, { type: T }>> {
+    for (;;) {
+      const message = await this.next();
+      if (message.type === type) return message as Extract<In, { type: T }>;
+    }
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('startRoomServer', () => {
+  const questions: Question[] = [
+    { id: 'q1', question: 'Q1', answer: 100, labels: ['math'] },
+    { id: 'q2', question: 'Q2', answer: 200, labels: ['science'] },
+  ];
+
+  let server: RoomServer;
+  let clients: { close(): void }[];
+
+  beforeEach(async () => {
+    server = await startRoomServer({ questions });
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.close());
+    await server.close();
+  });
+
+  async function connect(): Promise<TestClient> {
+    const client = await TestClient.connect(server.port);
+    clients.push(client);
+    return client;
+  }
+
+  async function connectLink(): Promise<TestClient<LinkServerMessage, LinkClientMessage>> {
+    const client = await TestClient.connect<LinkServerMessage, LinkClientMessage>(server.port, TABLE_LINK_PATH);
+    clients.push(client);
+    return client;
+  }
+
+  // Polls until the server has caught up with something a client did
+  async function waitUntil(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  it('should listen on a free port', () => {
+    expect(server.port).toBeGreaterThan(0);
+  });
+
+  it('should create a room when its first client joins', async () => {
+    const host = await connect();
+    host.send({ type: 'join', roomId: 'table', role: 'host' });
+
+    expect(await host.next()).toEqual({
+      type: 'joined',
+      roomId: 'table',
+      role: 'host',
+      playerId: null,
+      token: expect.any(String),
+    });
+    const { snapshot } = await host.nextOf('snapshot');
+    expect(snapshot.roomId).toBe('table');
+    expect(snapshot.phase).toBe('setup');
+    expect(server.rooms.has('table')).toBe(true);
+  });
+
+  it('should not create a room for a refused join', async () => {
+    const client = await connect();
+    client.send({ type: 'join', roomId: 'table', role: 'player', name: 'Alice', playerId: 'nobody' });
+
+    expect(await client.next()).toMatchObject({ type: 'error', code: 'UNKNOWN_SEAT' });
+    expect(server.rooms.has('table')).toBe(false);
+
+    // The socket is still free to join a room
+    client.send({ type: 'join', roomId: 'other', role: 'player', name: 'Alice' });
+    expect((await client.nextOf('snapshot')).snapshot.roomId).toBe('other');
+    expect([...server.rooms.keys()]).toEqual(['other']);
+  });
+
+  it('should remove a room when its last client disconnects', async () => {
+    const host = await connect();
+    const alice = await connect();
+    host.send({ type: 'join', roomId: 'table', role: 'host' });
+    await host.nextOf('snapshot');
+    alice.send({ type: 'join', roomId: 'table', role: 'player', name: 'Alice' });
+    await alice.nextOf('snapshot');
+
+    host.close();
+    await waitUntil(() => server.rooms.get('table')?.getConnectionCount() === 1);
+    expect(server.rooms.has('table')).toBe(true);
+
+    alice.close();
+    await waitUntil(() => !server.rooms.has('table'));
+    expect(server.rooms.size).toBe(0);
+  });
+
+  it('should keep rooms apart', async () => {
+    const alice = await connect();
+    const bob = await connect();
+    alice.send({ type: 'join', roomId: 'one', role: 'player', name: 'Alice' });
+    bob.send({ type: 'join', roomId: 'two', role: 'player', name: 'Bob' });
+
+    expect((await alice.nextOf('snapshot')).snapshot.players.map((p) => p.name)).toEqual(['Alice']);
+    expect((await bob.nextOf('snapshot')).snapshot.players.map((p) => p.name)).toEqual(['Bob']);
+  });
+
+  it('should reject malformed messages', async () => {
+    const client = await connect();
+    client.send('not json');
+    expect(await client.next()).toMatchObject({ type: 'error', code: 'BAD_MESSAGE' });
+
+    client.send({ type: 'answer', answer: 1 });
+    expect(await client.next()).toMatchObject({ type: 'error', code: 'NOT_JOINED' });
+  });
+
+  it('should only show players their own answer while answering', async () => {
+    const host = await connect();
+    const alice = await connect();
+    const bob = await connect();
+    host.send({ type: 'join', roomId: 'table', role: 'host' });
+    await host.nextOf('snapshot');
+    alice.send({ type: 'join', roomId: 'table', role: 'player', name: 'Alice' });
+    await alice.nextOf('snapshot');
+    bob.send({ type: 'join', roomId: 'table', role: 'player', name: 'Bob' });
+    await bob.nextOf('snapshot');
+    server.rooms.get('table')!.engine.setRoundsToPlay(2);
+
+    host.send({ type: 'advance' });
+    expect((await bob.nextOf('snapshot')).snapshot.phase).toBe('answering');
+
+    alice.send({ type: 'answer', answer: 42 });
+    const { snapshot } = await bob.nextOf('snapshot');
+    expect(snapshot.answeredPlayerIds).toHaveLength(1);
+    expect(snapshot.answers).toEqual([]);
+    expect(snapshot.question?.answer).toBeUndefined();
+  });
+
+  it('should relay table links between a table screen and its controllers', async () => {
+    const table = await connectLink();
+    const phone = await connectLink();
+    table.send({ type: 'openTable', tableId: 'K7QX2' });
+    await table.nextOf('linked');
+    phone.send({ type: 'joinTable', tableId: 'K7QX2' });
+    await phone.nextOf('linked');
+
+    phone.send({ type: 'toTable', message: { type: 'connect' } });
+    const { controllerId } = await table.nextOf('fromController');
+    table.send({ type: 'toController', controllerId, message: { type: 'seats', seats: [] } });
+
+    expect(await phone.nextOf('fromTable')).toEqual({
+      type: 'fromTable',
+      message: { type: 'seats', seats: [] },
+    });
+    expect(server.tables.has('K7QX2')).toBe(true);
+    expect(server.rooms.size).toBe(0);
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Room, type RoomConnection } from '../../server/room';
+import type { RoomSnapshot, ServerMessage } from '../../server/protocol';
+import type { Question } from '../../core/types';
+
+// A client that records everything the room sends it
+class FakeConnection implements RoomConnection {
+  messages: ServerMessage[] = [];
+
+  send(message: ServerMessage): void {
+    this.messages.push(message);
+  }
+
+  lastSnapshot(): RoomSnapshot {
+    const snapshots = this.messages.filter((m) => m.type === 'snapshot');
+    return snapshots[snapshots.length - 1].snapshot;
+  }
+
+  lastError() {
+    const errors = this.messages.filter((m) => m.type === 'error');
+    return errors[errors.length - 1];
+  }
+
+  playerId(): string {
+    const joined = this.messages.find((m) => m.type === 'joined');
+    if (!joined?.playerId) throw new Error('Not joined as a player');
+    return joined.playerId;
+  }
+
+  token(): string {
+    const joined = this.messages.find((m) => m.type === 'joined');
+    if (!joined?.token) throw new Error('Not joined to a seat');
+    return joined.token;
+  }
+}
+
+describe('Room', () => {
+  const questions: Question[] = [
+    { id: 'q1', question: 'Q1', answer: 100, labels: ['math'], explanation: 'It is 100', source: 'Atlas' },
+    { id: 'q2', question: 'Q2', answer: 200, labels: ['science'], explanation: 'It is 200', source: 'Atlas' },
+  ];
+
+  let room: Room;
+  let host: FakeConnection;
+  let alice: FakeConnection;
+  let bob: FakeConnection;
+
+  beforeEach(() => {
+    room = new Room('table', questions);
+    room.engine.setRoundsToPlay(2);
+    host = new FakeConnection();
+    alice = new FakeConnection();
+    bob = new FakeConnection();
+    room.handle(host, { type: 'join', roomId: 'table', role: 'host' });
+    room.handle(alice, { type: 'join', roomId: 'table', role: 'player', name: 'Alice' });
+    room.handle(bob, { type: 'join', roomId: 'table', role: 'player', name: 'Bob' });
+  });
+
+  function startAnswering() {
+    room.handle(host, { type: 'advance' });
+    expect(room.engine.getPhase()).toBe('answering');
+  }
+
+  // Both players use all their bets on the first slot holding an answer
+  function placeAllBets() {
+    const slot = host.lastSnapshot().bettingBoard.find((s) => s.answerGroups.length > 0)!;
+    for (const player of [alice, bob]) {
+      for (let i = 0; i < room.engine.getConfig().maxBetsPerPlayer; i++) {
+        room.handle(player, { type: 'bet', slotIndex: slot.index });
+      }
+    }
+  }
+
+  describe('Joining', () => {
+    it('should seat each player joining and tell them their ID', () => {
+      const players = room.engine.getPlayers();
+      expect(players.map((p) => p.name)).toEqual(['Alice', 'Bob']);
+      expect(alice.playerId()).toBe(players[0].id);
+      expect(host.messages[0]).toEqual({
+        type: 'joined',
+        roomId: 'table',
+        role: 'host',
+        playerId: null,
+        token: expect.any(String),
+      });
+      expect(alice.token()).not.toBe(bob.token());
+    });
+
+    it('should send every client a snapshot when someone joins', () => {
+      expect(host.lastSnapshot().players).toHaveLength(2);
+      expect(alice.lastSnapshot().players).toHaveLength(2);
+    });
+
+    it('should let a player rejoin their seat with its token', () => {
+      const phone = new FakeConnection();
+      room.leave(alice);
+      room.handle(phone, {
+        type: 'join',
+        roomId: 'table',
+        role: 'player',
+        name: 'Alice',
+        playerId: alice.playerId(),
+        token: alice.token(),
+      });
+
+      expect(phone.playerId()).toBe(alice.playerId());
+      expect(phone.token()).toBe(alice.token());
+      expect(room.engine.getPlayers()).toHaveLength(2);
+    });
+
+    it('should refuse to rejoin a seat without its token', () => {
+      startAnswering();
+      room.handle(alice, { type: 'answer', answer: 4242 });
+      room.leave(alice);
+
+      const thief = new FakeConnection();
+      const join = { type: 'join', roomId: 'table', role: 'player', name: 'Eve', playerId: alice.playerId() } as const;
+      room.handle(thief, join);
+      expect(thief.lastError()?.code).toBe('BAD_TOKEN');
+      room.handle(thief, { ...join, token: bob.token() });
+      expect(thief.lastError()?.code).toBe('BAD_TOKEN');
+
+      expect(JSON.stringify(thief.messages)).not.toContain('4242');
+      room.handle(thief, { type: 'answer', answer: 1 });
+      expect(room.engine.getState().playerAnswers).toEqual([
+        { playerId: alice.playerId(), answer: 4242 },
+      ]);
+    });
+
+    it('should refuse a seat another client is still connected to', () => {
+      const tab = new FakeConnection();
+      room.handle(tab, {
+        type: 'join',
+        roomId: 'table',
+        role: 'player',
+        name: 'Alice',
+        playerId: alice.playerId(),
+        token: alice.token(),
+      });
+
+      expect(tab.lastError()?.code).toBe('SEAT_TAKEN');
+    });
+
+    it('should only let the first host back in with the host token', () => {
+      const second = new FakeConnection();
+      room.handle(second, { type: 'join', roomId: 'table', role: 'host' });
+      expect(second.lastError()?.code).toBe('BAD_TOKEN');
+      room.handle(second, { type: 'advance' });
+      expect(second.lastError()?.code).toBe('NOT_JOINED');
+
+      room.handle(second, { type: 'join', roomId: 'table', role: 'host', token: host.token() });
+      expect(second.lastError()?.code).toBe('SEAT_TAKEN');
+
+      room.leave(host);
+      room.handle(second, { type: 'join', roomId: 'table', role: 'host', token: host.token() });
+      room.handle(second, { type: 'advance' });
+      expect(room.engine.getPhase()).toBe('answering');
+    });
+
+    it('should refuse to rejoin a seat that does not exist', () => {
+      const stranger = new FakeConnection();
+      room.handle(stranger, {
+        type: 'join',
+        roomId: 'table',
+        role: 'player',
+        name: 'Eve',
+        playerId: 'nobody',
+      });
+
+      expect(stranger.lastError()?.code).toBe('UNKNOWN_SEAT');
+    });
+
+    it('should report a rejected seat with its error code', () => {
+      const stranger = new FakeConnection();
+      room.handle(stranger, { type: 'join', roomId: 'table', role: 'player', name: '  ' });
+
+      expect(stranger.lastError()).toMatchObject({ code: 'EMPTY_NAME', details: {} });
+    });
+
+    it('should refuse to join twice on one connection', () => {
+      room.handle(alice, { type: 'join', roomId: 'table', role: 'spectator' });
+      expect(alice.lastError()?.code).toBe('ALREADY_JOINED');
+    });
+
+    it('should refuse moves before joining', () => {
+      const stranger = new FakeConnection();
+      room.handle(stranger, { type: 'answer', answer: 1 });
+      expect(stranger.lastError()?.code).toBe('NOT_JOINED');
+    });
+  });
+
+  describe('Moves', () => {
+    it('should only let the host advance the game', () => {
+      room.handle(alice, { type: 'advance' });
+
+      expect(alice.lastError()?.code).toBe('NOT_HOST');
+      expect(room.engine.getPhase()).toBe('setup');
+    });
+
+    it('should not let the host or spectators answer', () => {
+      startAnswering();
+      room.handle(host, { type: 'answer', answer: 5 });
+      expect(host.lastError()?.code).toBe('NOT_PLAYER');
+    });
+
+    it('should report rule errors with their code and details to the sender only', () => {
+      startAnswering();
+      const hostMessages = host.messages.length;
+      room.handle(alice, { type: 'bet', slotIndex: 0 });
+
+      expect(alice.lastError()).toMatchObject({
+        type: 'error',
+        code: 'WRONG_PHASE',
+        details: { phase: 'answering', allowed: ['betting'] },
+      });
+      expect(host.messages).toHaveLength(hostMessages);
+    });
+
+    it('should play a round from answers to results', () => {
+      startAnswering();
+      room.handle(alice, { type: 'answer', answer: 90 });
+      room.handle(bob, { type: 'answer', answer: 150 });
+      room.handle(host, { type: 'advance' });
+      expect(room.engine.getPhase()).toBe('betting');
+
+      placeAllBets();
+      room.handle(host, { type: 'advance' });
+
+      expect(room.engine.getPhase()).toBe('results');
+      expect(bob.lastSnapshot().roundResult).not.toBeNull();
+    });
+  });
+
+  describe('Hidden information', () => {
+    it('should hide answers from other players until answering closes', () => {
+      startAnswering();
+      room.handle(alice, { type: 'answer', answer: 4321 });
+
+      expect(alice.lastSnapshot().answers.map((a) => a.answer)).toEqual([4321]);
+      expect(bob.lastSnapshot().answers).toEqual([]);
+      expect(host.lastSnapshot().answers).toEqual([]);
+      expect(bob.lastSnapshot().answeredPlayerIds).toEqual([alice.playerId()]);
+      expect(JSON.stringify(bob.messages)).not.toContain('4321');
+
+      room.handle(bob, { type: 'answer', answer: 150 });
+      room.handle(host, { type: 'advance' });
+
+      expect(bob.lastSnapshot().answers.map((a) => a.answer)).toEqual(
+        expect.arrayContaining([4321, 150])
+      );
+    });
+
+    it('should hide the correct answer and its explanation until the results', () => {
+      startAnswering();
+      const question = room.engine.getCurrentQuestion()!;
+      const revealed = (snapshot: RoomSnapshot) => JSON.stringify(snapshot).includes(question.explanation!);
+      expect(alice.lastSnapshot().question?.answer).toBeUndefined();
+      expect(host.lastSnapshot().question?.answer).toBeUndefined();
+      expect(revealed(host.lastSnapshot())).toBe(false);
+
+      room.handle(alice, { type: 'answer', answer: 90 });
+      room.handle(bob, { type: 'answer', answer: 150 });
+      room.handle(host, { type: 'advance' });
+      expect(alice.lastSnapshot().question).not.toHaveProperty('answer');
+      expect(alice.lastSnapshot().question).not.toHaveProperty('source');
+      expect(revealed(alice.lastSnapshot())).toBe(false);
+
+      placeAllBets();
+      room.handle(host, { type: 'advance' });
+
+      expect(alice.lastSnapshot().question).toMatchObject({
+        answer: question.answer,
+        explanation: question.explanation,
+        source: 'Atlas',
+      });
+    });
+
+    it('should hide other players\' bets until everyone has bet with secret betting', () => {
+      room.engine.setConfig({ ...room.engine.getConfig(), secretBetting: true });
+      startAnswering();
+      room.handle(alice, { type: 'answer', answer: 90 });
+      room.handle(bob, { type: 'answer', answer: 150 });
+      room.handle(host, { type: 'advance' });
+
+      room.handle(alice, { type: 'bet', slotIndex: 0 });
+      expect(alice.lastSnapshot().bets).toHaveLength(1);
+      expect(bob.lastSnapshot().bets).toEqual([]);
+      expect(host.lastSnapshot().bets).toEqual([]);
+
+      room.handle(alice, { type: 'bet', slotIndex: 0 });
+      room.handle(bob, { type: 'bet', slotIndex: 0 });
+      room.handle(bob, { type: 'bet', slotIndex: 0 });
+      expect(bob.lastSnapshot().bets).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TableLinks, type LinkConnection } from '../../server/table-link';
+import type { LinkServerMessage } from '../../server/protocol';
+
+// A client that records everything the server sends it
+class FakeConnection implements LinkConnection {
+  messages: LinkServerMessage[] = [];
+
+  send(message: LinkServerMessage): void {
+    this.messages.push(message);
+  }
+
+  last(): LinkServerMessage | undefined {
+    return this.messages[this.messages.length - 1];
+  }
+}
+
+describe('TableLinks', () => {
+  let links: TableLinks;
+  let table: FakeConnection;
+  let alice: FakeConnection;
+  let bob: FakeConnection;
+
+  beforeEach(() => {
+    links = new TableLinks();
+    table = new FakeConnection();
+    alice = new FakeConnection();
+    bob = new FakeConnection();
+    links.handle(table, { type: 'openTable', tableId: 'K7QX2' });
+    links.handle(alice, { type: 'joinTable', tableId: 'K7QX2' });
+    links.handle(bob, { type: 'joinTable', tableId: 'K7QX2' });
+  });
+
+  // Controller IDs the table saw, in the order the controllers spoke
+  function controllerIds(): string[] {
+    return table.messages.flatMap((m) => (m.type === 'fromController' ? [m.controllerId] : []));
+  }
+
+  it('should link a table and its controllers', () => {
+    expect(links.has('K7QX2')).toBe(true);
+    expect(table.last()).toEqual({ type: 'linked', tableId: 'K7QX2', role: 'table' });
+    expect(alice.last()).toEqual({ type: 'linked', tableId: 'K7QX2', role: 'controller' });
+  });
+
+  it('should refuse a second table under the same code', () => {
+    const other = new FakeConnection();
+    links.handle(other, { type: 'openTable', tableId: 'K7QX2' });
+    expect(other.last()).toMatchObject({ type: 'error', code: 'TABLE_TAKEN' });
+  });
+
+  it('should refuse to join a table that is not open', () => {
+    const phone = new FakeConnection();
+    links.handle(phone, { type: 'joinTable', tableId: 'NOPE1' });
+    expect(phone.last()).toMatchObject({ type: 'error', code: 'NO_TABLE' });
+  });
+
+  it('should pass controller messages to the table with the controller\'s ID', () => {
+    links.handle(alice, { type: 'toTable', message: { type: 'connect' } });
+    links.handle(bob, { type: 'toTable', message: { type: 'connect' } });
+
+    const [aliceId, bobId] = controllerIds();
+    expect(aliceId).not.toBe(bobId);
+    expect(table.last()).toEqual({ type: 'fromController', controllerId: bobId, message: { type: 'connect' } });
+  });
+
+  it('should deliver table messages to the addressed controller only', () => {
+    links.handle(alice, { type: 'toTable', message: { type: 'connect' } });
+    const [aliceId] = controllerIds();
+    const bobMessages = bob.messages.length;
+
+    links.handle(table, { type: 'toController', controllerId: aliceId, message: { secret: 42 } });
+
+    expect(alice.last()).toEqual({ type: 'fromTable', message: { secret: 42 } });
+    expect(bob.messages).toHaveLength(bobMessages);
+  });
+
+  it('should keep tables and controllers in their roles', () => {
+    links.handle(alice, { type: 'toController', controllerId: '1', message: {} });
+    expect(alice.last()).toMatchObject({ type: 'error', code: 'NOT_TABLE' });
+
+    links.handle(table, { type: 'toTable', message: {} });
+    expect(table.last()).toMatchObject({ type: 'error', code: 'NOT_CONTROLLER' });
+
+    const stranger = new FakeConnection();
+    links.handle(stranger, { type: 'toTable', message: {} });
+    expect(stranger.last()).toMatchObject({ type: 'error', code: 'NOT_LINKED' });
+  });
+
+  it('should tell the table when a controller leaves', () => {
+    links.handle(alice, { type: 'toTable', message: { type: 'connect' } });
+    const [aliceId] = controllerIds();
+
+    links.leave(alice);
+    expect(table.last()).toEqual({ type: 'controllerLeft', controllerId: aliceId });
+  });
+
+  it('should close the table\'s controllers and free its code when the table leaves', () => {
+    links.leave(table);
+
+    expect(alice.last()).toEqual({ type: 'tableClosed' });
+    expect(bob.last()).toEqual({ type: 'tableClosed' });
+    expect(links.has('K7QX2')).toBe(false);
+    links.handle(new FakeConnection(), { type: 'openTable', tableId: 'K7QX2' });
+    expect(links.has('K7QX2')).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import type { GameAction, GameState, Question } from './types';
+import { createInitialGameState } from './game-state';
+import * as PlayerManager from './player-manager';
+import * as TeamManager from './team-manager';
+import * as QuestionManager from './question-manager';
+import * as AnswerManager from './answer-manager';
+import * as BettingManager from './betting-manager';
+import * as RoundManager from './round-manager';
+import * as GameConfigManager from './game-config';
+
+/**
+ * Applies a single recorded action to the game state.
+ * This is the only place where actions are interpreted, so live play and
+ * replay always go through the same validation and transitions.
+ * @param state - Current game state
+ * @param action - The action to apply
+ * @returns New game state after the action
+ * @throws Error if the action is not valid for the current state
+ */
+export function applyAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'addPlayer':
+      return PlayerManager.addPlayer(state, action.playerId, action.name);
+    case 'removePlayer':
+      return PlayerManager.removePlayer(state, action.playerId);
+    case 'addTeam':
+      return TeamManager.addTeam(state, action.teamId, action.name);
+    case 'removeTeam':
+      return TeamManager.removeTeam(state, action.teamId);
+    case 'assignPlayerToTeam':
+      return TeamManager.assignPlayerToTeam(state, action.playerId, action.teamId);
+    case 'setQuestionLabels':
+      return QuestionManager.updateQuestionLabels(state, action.labels);
+    case 'updateQuestions':
+      return QuestionManager.updateQuestions(state, action.questions);
+    case 'setRoundsToPlay':
+      return RoundManager.setRoundsToPlay(state, action.rounds);
+    case 'setSeed':
+      return QuestionManager.setSeed(state, action.seed);
+    case 'setConfig':
+      return GameConfigManager.setGameConfig(state, action.config);
+    case 'startGame':
+      return RoundManager.startGame(state, action.seed);
+    case 'selectCategory':
+      return RoundManager.selectCategory(state, action.playerId, action.label);
+    case 'submitAnswer':
+      return AnswerManager.submitPlayerAnswer(state, action.playerId, action.answer);
+    case 'removeAnswer':
+      return AnswerManager.removePlayerAnswer(state, action.playerId);
+    case 'finishAnswering':
+      return RoundManager.finishAnswering(state);
+    case 'placeBet':
+      return BettingManager.placeBet(
+        state,
+        action.playerId,
+        action.slotIndex,
+        action.wager ?? 0,
+        action.meeple
+      );
+    case 'placeFinalWager':
+      return BettingManager.placeFinalWager(
+        state,
+        action.playerId,
+        action.slotIndex,
+        action.amount
+      );
+    case 'removeBet':
+      return BettingManager.removeBet(state, action.playerId, action.betIndex);
+    case 'finishBetting':
+      return RoundManager.finishBetting(state);
+    case 'expireTimer':
+      return RoundManager.expirePhase(state);
+    case 'nextRound':
+      return RoundManager.nextRound(state);
+    case 'resetGame':
+      return RoundManager.resetGame(state);
+  }
+}
+
+/**
+ * Rebuilds a game state by applying a recorded action log from scratch
+ * @param actions - Actions in the order they were applied
+ * @param questions - Question bank the original game was created with
+ * @returns The resulting game state
+ * @throws Error if any action is not valid at its point in the log
+ */
+export function replayActions(
+  actions: readonly GameAction[],
+  questions: Question[] = []
+): GameState {
+  return actions.reduce(applyAction, createInitialGameState(questions));
+}
@@ -1,12 +1,43 @@
 import type { GameState, Player } from './types';
+import { getActiveCompetitors } from './team-manager';
+import { getCurrentQuestion } from './question-manager';
+import { InvalidMoveError, PhaseError } from './errors';
+
+// Significant digits kept when comparing answers, so float noise such as
+// 0.1 + 0.2 = 0.30000000000000004 does not split equal answers
+const ANSWER_SIGNIFICANT_DIGITS = 12;
 
 /**
- * Submits or updates a player's answer for the current question
+ * Normalizes an answer for grouping and scoring: rounds it to the question's
+ * precision if one is given (halves round away from zero) and strips
+ * floating point noise
+ * @param answer - The numerical answer
+ * @param precision - Decimal places to round to (negative rounds to tens, hundreds...)
+ * @returns The normalized answer
+ */
+export function normalizeAnswer(answer: number, precision?: number): number {
+  let value = answer;
+  if (precision !== undefined) {
+    const factor = 10 ** Math.abs(precision);
+    value =
+      precision >= 0
+        ? Number(value.toFixed(precision))
+        : Math.sign(value) * Math.round(Math.abs(value) / factor) * factor;
+  }
+  // `|| 0` turns -0 into 0
+  return Number(value.toPrecision(ANSWER_SIGNIFICANT_DIGITS)) || 0;
+}
+
+/**
+ * Submits or updates a player's answer for the current question.
+ * Answers may be negative or decimal; they are stored normalized
+ * (see normalizeAnswer) using the current question's precision.
  * @param state - Current game state
- * @param playerId - ID of the player submitting the answer
+ * @param playerId - ID of the player submitting the answer (the team's ID in team mode)
  * @param answer - The numerical answer
  * @returns New game state with updated playerAnswers
- * @throws Error if not in answering phase, player not found, or invalid answer
+ * @throws PhaseError if not in answering phase
+ * @throws InvalidMoveError if the player is not found or the answer is invalid
  */
 export function submitPlayerAnswer(
   state: GameState,
@@ -15,17 +46,22 @@ export function submitPlayerAnswer(
 ): GameState {
   // Validation
   if (state.phase !== 'answering') {
-    throw new Error('Cannot submit answer outside answering phase');
+    throw new PhaseError('WRONG_PHASE', 'Cannot submit answer outside answering phase', {
+      phase: state.phase,
+      allowed: ['answering'],
+    });
   }
 
-  if (!state.players.find((p) => p.id === playerId)) {
-    throw new Error('Player not found');
+  if (!getActiveCompetitors(state).find((p) => p.id === playerId)) {
+    throw new InvalidMoveError('PLAYER_NOT_FOUND', 'Player not found', { playerId });
   }
 
-  if (answer < 0 || !isFinite(answer)) {
-    throw new Error('Invalid answer value');
+  if (!isFinite(answer)) {
+    throw new InvalidMoveError('INVALID_ANSWER', 'Invalid answer value', { answer });
   }
 
+  const precision = getCurrentQuestion(state)?.precision;
+
   // Immutable update: replace or add answer
   const filteredAnswers = state.playerAnswers.filter(
     (a) => a.playerId !== playerId
@@ -33,7 +69,10 @@ export function submitPlayerAnswer(
 
   return {
     ...state,
-    playerAnswers: [...filteredAnswers, { playerId, answer }],
+    playerAnswers: [
+      ...filteredAnswers,
+      { playerId, answer: normalizeAnswer(answer, precision) },
+    ],
   };
 }
 
@@ -54,10 +93,12 @@ export function removePlayerAnswer(
 }
 
 /**
- * Checks if all players have submitted their answers
+ * Checks if all players still in the game have submitted their answers
  * @param state - Current game state
- * @returns True if all players have submitted answers
+ * @returns True if all players still in the game have submitted answers
  */
 export function canFinishAnswering(state: GameState): boolean {
-  return state.playerAnswers.length === state.players.length;
+  return getActiveCompetitors(state).every((p) =>
+    state.playerAnswers.some((a) => a.playerId === p.id)
+  );
 }
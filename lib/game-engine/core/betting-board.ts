@@ -1,22 +1,27 @@
-import type { PlayerAnswer } from './types';
+import type { GameConfig, PlayerAnswer, WinningRuleName } from './types';
+import { DEFAULT_GAME_CONFIG } from './game-config';
+import { DEFAULT_WINNING_RULE, findWinningValue } from './winning-rules';
+import { normalizeAnswer } from './answer-manager';
 
 /**
  * Betting board slot structure for Wits & Wagers
  * 
- * Layout (8 slots total):
+ * Classic layout (8 slots total, payouts come from GameConfig):
  * [0] "Menor que todas" (6:1) - wins if correct answer < all player answers
- * [1] Paga 5:1 - lowest answer group
- * [2] Paga 4:1
- * [3] Paga 3:1
- * [4] Paga 2:1 - MIDDLE (median answer)
- * [5] Paga 3:1
- * [6] Paga 4:1
- * [7] Paga 5:1 - highest answer group
+ * [1] 5:1 - lowest answer group
+ * [2] 4:1
+ * [3] 3:1
+ * [4] 2:1 - MIDDLE (median answer)
+ * [5] 3:1
+ * [6] 4:1
+ * [7] 5:1 - highest answer group
+ *
+ * Slots carry no display text: the UI names them from isSpecial and payout
+ * in the player's language.
  */
 
 export interface BettingSlot {
   index: number;
-  label: string;
   payout: number; // e.g., 6 means "6 to 1"
   isSpecial: boolean; // true for "Menor que todas"
   answerGroups: AnswerGroup[]; // grouped answers in this slot
@@ -27,30 +32,96 @@ export interface AnswerGroup {
   playerIds: string[]; // players who gave this answer
 }
 
-// Slot definitions (top to bottom on the board)
-const SLOT_DEFINITIONS: Omit<BettingSlot, 'answerGroups'>[] = [
-  { index: 0, label: 'Menor que todas (paga 6 a 1)', payout: 6, isSpecial: true },
-  { index: 1, label: 'Paga 5 a 1', payout: 5, isSpecial: false },
-  { index: 2, label: 'Paga 4 a 1', payout: 4, isSpecial: false },
-  { index: 3, label: 'Paga 3 a 1', payout: 3, isSpecial: false },
-  { index: 4, label: 'Paga 2 a 1', payout: 2, isSpecial: false },
-  { index: 5, label: 'Paga 3 a 1', payout: 3, isSpecial: false },
-  { index: 6, label: 'Paga 4 a 1', payout: 4, isSpecial: false },
-  { index: 7, label: 'Paga 5 a 1', payout: 5, isSpecial: false },
-];
-
-export const MIDDLE_SLOT_INDEX = 4;
 export const SPECIAL_SLOT_INDEX = 0;
+// Middle slot of the classic 8-slot board; see getMiddleSlotIndex for other configs
+export const MIDDLE_SLOT_INDEX = 4;
+
+/**
+ * Builds the slot definitions (top to bottom on the board) for a config.
+ * Slot 0 is always "Menor que todas", followed by the answer slots.
+ */
+export function getSlotDefinitions(
+  config: GameConfig = DEFAULT_GAME_CONFIG
+): Omit<BettingSlot, 'answerGroups'>[] {
+  return [
+    {
+      index: SPECIAL_SLOT_INDEX,
+      payout: config.specialSlotPayout,
+      isSpecial: true,
+    },
+    ...config.answerSlotPayouts.map((payout, i) => ({
+      index: i + 1,
+      payout,
+      isSpecial: false,
+    })),
+  ];
+}
+
+/**
+ * Returns the index of the middle (median) slot for a config
+ */
+export function getMiddleSlotIndex(config: GameConfig = DEFAULT_GAME_CONFIG): number {
+  return (config.answerSlotPayouts.length + 1) / 2;
+}
 
 /**
- * Groups answers by value and returns them sorted ascending
+ * Returns the index of the middle (median) slot of a built board.
+ * Differs from getMiddleSlotIndex when the board was expanded for overflow.
+ */
+export function getBoardMiddleSlotIndex(slots: BettingSlot[]): number {
+  return slots.length / 2;
+}
+
+/**
+ * Checks whether chips may go on a slot: the special slot, a slot with
+ * answers, or the empty middle slot when there is an even number of
+ * distinct answers
+ * @param slots - The built board
+ * @param slotIndex - Slot to check
+ * @returns True if the slot can be bet on
+ */
+export function canBetOnSlot(slots: BettingSlot[], slotIndex: number): boolean {
+  const slot = slots[slotIndex];
+  if (!slot) return false;
+  if (slot.isSpecial || slot.answerGroups.length > 0) return true;
+
+  const uniqueGroupCount = slots.filter((s) => !s.isSpecial && s.answerGroups.length > 0).length;
+  return slotIndex === getBoardMiddleSlotIndex(slots) && uniqueGroupCount % 2 === 0;
+}
+
+/**
+ * Adds payout tiers to both ends of the board, each paying one more than the
+ * tier inside it, so that extra answer groups get their own slot
+ * @param config - Rules with the base board
+ * @param extraTiers - Number of slots to add on each side
+ * @returns Config with the widened board
+ */
+export function expandBoard(config: GameConfig, extraTiers: number): GameConfig {
+  const payouts = config.answerSlotPayouts;
+  const lowest = payouts[0];
+  const highest = payouts[payouts.length - 1];
+
+  return {
+    ...config,
+    answerSlotPayouts: [
+      ...Array.from({ length: extraTiers }, (_, i) => lowest + extraTiers - i),
+      ...payouts,
+      ...Array.from({ length: extraTiers }, (_, i) => highest + i + 1),
+    ],
+  };
+}
+
+/**
+ * Groups answers by value and returns them sorted ascending.
+ * Values that differ only by floating point noise share a group.
  */
 export function groupAnswersByValue(answers: PlayerAnswer[]): AnswerGroup[] {
   const groups = new Map<number, string[]>();
   
   for (const answer of answers) {
-    const existing = groups.get(answer.answer) || [];
-    groups.set(answer.answer, [...existing, answer.playerId]);
+    const value = normalizeAnswer(answer.answer);
+    const existing = groups.get(value) || [];
+    groups.set(value, [...existing, answer.playerId]);
   }
   
   return Array.from(groups.entries())
@@ -60,6 +131,7 @@ export function groupAnswersByValue(answers: PlayerAnswer[]): AnswerGroup[] {
 
 /**
  * Assigns answer groups to betting slots, filling from the middle outward.
+ * Slot numbers below are for the classic board (middle slot 4, last slot 7).
  * 
  * ODD number of groups:
  *   - Median goes in slot 4 (middle, 2:1 payout)
@@ -71,55 +143,76 @@ export function groupAnswersByValue(answers: PlayerAnswer[]): AnswerGroup[] {
  *   - Two middle groups go to slots 3 and 5 (both 3:1 payout)
  *   - Lower values fill slots 2, 1
  *   - Higher values fill slots 6, 7
+ * 
+ * When there are more groups than slots, config.boardOverflow decides:
+ *   - 'expand': extra payout tiers are added to both ends (see expandBoard)
+ *   - 'merge': the extra groups share the outermost slot on their side
  */
-export function assignGroupsToSlots(groups: AnswerGroup[]): BettingSlot[] {
+export function assignGroupsToSlots(
+  groups: AnswerGroup[],
+  config: GameConfig = DEFAULT_GAME_CONFIG
+): BettingSlot[] {
+  // Groups on each side of the median (or of the empty middle slot)
+  const groupsPerSide = Math.floor(groups.length / 2);
+  const slotsPerSide = (config.answerSlotPayouts.length - 1) / 2;
+  const extraTiers =
+    config.boardOverflow === 'expand' ? Math.max(0, groupsPerSide - slotsPerSide) : 0;
+
   // Initialize all slots with empty answer groups
-  const slots: BettingSlot[] = SLOT_DEFINITIONS.map(def => ({
+  const slots: BettingSlot[] = getSlotDefinitions(expandBoard(config, extraTiers)).map(def => ({
     ...def,
     answerGroups: [],
   }));
   
   if (groups.length === 0) return slots;
   
+  const middleSlotIdx = getBoardMiddleSlotIndex(slots);
+  const lastSlotIdx = slots.length - 1;
+
+  // Groups past either end of the board are merged into the outermost slot,
+  // keeping each slot's groups in ascending order
+  const placeLower = (slotIdx: number, group: AnswerGroup) => {
+    slots[Math.max(slotIdx, 1)].answerGroups.unshift(group);
+  };
+  const placeUpper = (slotIdx: number, group: AnswerGroup) => {
+    slots[Math.min(slotIdx, lastSlotIdx)].answerGroups.push(group);
+  };
+
   const isEven = groups.length % 2 === 0;
   
   if (isEven) {
     // EVEN number of groups: leave middle slot empty
-    // Two middle groups go to slots 3 and 5
+    // Two middle groups go to the slots on either side of it
     const lowerMiddleIdx = groups.length / 2 - 1;
     const upperMiddleIdx = groups.length / 2;
     
-    slots[3].answerGroups = [groups[lowerMiddleIdx]];
-    slots[5].answerGroups = [groups[upperMiddleIdx]];
+    slots[middleSlotIdx - 1].answerGroups = [groups[lowerMiddleIdx]];
+    slots[middleSlotIdx + 1].answerGroups = [groups[upperMiddleIdx]];
     
-    // Place groups below lower-middle in slots 2, 1
-    let lowerSlotIdx = 2;
-    for (let i = lowerMiddleIdx - 1; i >= 0 && lowerSlotIdx >= 1; i--, lowerSlotIdx--) {
-      slots[lowerSlotIdx].answerGroups = [groups[i]];
+    // Place groups below lower-middle in the slots below it
+    for (let i = lowerMiddleIdx - 1, slotIdx = middleSlotIdx - 2; i >= 0; i--, slotIdx--) {
+      placeLower(slotIdx, groups[i]);
     }
     
-    // Place groups above upper-middle in slots 6, 7
-    let upperSlotIdx = 6;
-    for (let i = upperMiddleIdx + 1; i < groups.length && upperSlotIdx <= 7; i++, upperSlotIdx++) {
-      slots[upperSlotIdx].answerGroups = [groups[i]];
+    // Place groups above upper-middle in the slots above it
+    for (let i = upperMiddleIdx + 1, slotIdx = middleSlotIdx + 2; i < groups.length; i++, slotIdx++) {
+      placeUpper(slotIdx, groups[i]);
     }
   } else {
     // ODD number of groups: median goes in middle slot
     const medianIdx = Math.floor((groups.length - 1) / 2);
     
     // Place median group in middle slot
-    slots[MIDDLE_SLOT_INDEX].answerGroups = [groups[medianIdx]];
+    slots[middleSlotIdx].answerGroups = [groups[medianIdx]];
     
-    // Place groups below median (lower values) in slots 3, 2, 1
-    let lowerSlotIdx = MIDDLE_SLOT_INDEX - 1; // Start at slot 3
-    for (let i = medianIdx - 1; i >= 0 && lowerSlotIdx >= 1; i--, lowerSlotIdx--) {
-      slots[lowerSlotIdx].answerGroups = [groups[i]];
+    // Place groups below median (lower values) in the slots below it
+    for (let i = medianIdx - 1, slotIdx = middleSlotIdx - 1; i >= 0; i--, slotIdx--) {
+      placeLower(slotIdx, groups[i]);
     }
     
-    // Place groups above median (higher values) in slots 5, 6, 7
-    let upperSlotIdx = MIDDLE_SLOT_INDEX + 1; // Start at slot 5
-    for (let i = medianIdx + 1; i < groups.length && upperSlotIdx <= 7; i++, upperSlotIdx++) {
-      slots[upperSlotIdx].answerGroups = [groups[i]];
+    // Place groups above median (higher values) in the slots above it
+    for (let i = medianIdx + 1, slotIdx = middleSlotIdx + 1; i < groups.length; i++, slotIdx++) {
+      placeUpper(slotIdx, groups[i]);
     }
   }
   
@@ -129,71 +222,48 @@ export function assignGroupsToSlots(groups: AnswerGroup[]): BettingSlot[] {
 /**
  * Creates the full betting board from player answers
  */
-export function createBettingBoard(answers: PlayerAnswer[]): BettingSlot[] {
+export function createBettingBoard(
+  answers: PlayerAnswer[],
+  config: GameConfig = DEFAULT_GAME_CONFIG
+): BettingSlot[] {
   const groups = groupAnswersByValue(answers);
-  return assignGroupsToSlots(groups);
+  return assignGroupsToSlots(groups, config);
 }
 
 /**
  * Determines which slot wins based on the correct answer.
- * Returns the winning slot index or -1 if something went wrong.
+ * Returns the winning slot index or -1 if there are no answers.
  * 
  * Rules:
  * - "Menor que todas" (slot 0) wins if correctAnswer < all player answers
- * - Otherwise, the slot with the closest answer without going over wins
- * - If all answers are over, the slot with the lowest answer wins
+ * - Otherwise, the slot with the closest answer under the winning rule wins
+ *   (by default the closest answer without going over)
  */
 export function getWinningSlotIndex(
   slots: BettingSlot[],
-  correctAnswer: number
+  correctAnswer: number,
+  winningRule: WinningRuleName = DEFAULT_WINNING_RULE
 ): number {
-  // Get all answers from non-special slots
-  const allAnswerGroups = slots
-    .filter(s => !s.isSpecial && s.answerGroups.length > 0)
-    .flatMap(s => s.answerGroups);
-  
-  if (allAnswerGroups.length === 0) return -1;
-  
-  const minAnswer = Math.min(...allAnswerGroups.map(g => g.answer));
-  
-  // Check if "Menor que todas" wins
-  if (correctAnswer < minAnswer) {
+  const answerSlots = slots.filter(s => !s.isSpecial && s.answerGroups.length > 0);
+  if (answerSlots.length === 0) return -1;
+
+  const values = answerSlots.flatMap(s => s.answerGroups.map(g => g.answer));
+  const winningValue = findWinningValue(values, correctAnswer, winningRule);
+  if (winningValue === null) {
     return SPECIAL_SLOT_INDEX;
   }
-  
-  // Find the slot with the closest answer without going over
-  let winningSlotIdx = -1;
-  let closestAnswer = -Infinity;
-  
-  for (const slot of slots) {
-    if (slot.isSpecial || slot.answerGroups.length === 0) continue;
-    
-    for (const group of slot.answerGroups) {
-      if (group.answer <= correctAnswer && group.answer > closestAnswer) {
-        closestAnswer = group.answer;
-        winningSlotIdx = slot.index;
-      }
-    }
-  }
-  
-  // If no valid answer (all over), lowest answer wins
-  if (winningSlotIdx === -1) {
-    for (const slot of slots) {
-      if (slot.isSpecial || slot.answerGroups.length === 0) continue;
-      if (slot.answerGroups.some(g => g.answer === minAnswer)) {
-        return slot.index;
-      }
-    }
-  }
-  
-  return winningSlotIdx;
+
+  return answerSlots.find(s => s.answerGroups.some(g => g.answer === winningValue))!.index;
 }
 
 /**
  * Gets the payout multiplier for a given slot
  */
-export function getSlotPayout(slotIndex: number): number {
-  const slot = SLOT_DEFINITIONS.find(s => s.index === slotIndex);
+export function getSlotPayout(
+  slotIndex: number,
+  config: GameConfig = DEFAULT_GAME_CONFIG
+): number {
+  const slot = getSlotDefinitions(config).find(s => s.index === slotIndex);
   return slot?.payout ?? 0;
 }
 
@@ -1,65 +1,154 @@
-import type { GameState } from './types';
-import { createBettingBoard, SPECIAL_SLOT_INDEX } from './betting-board';
+import type { GameState, Meeple } from './types';
+import { canBetOnSlot, createBettingBoard } from './betting-board';
+import { getActiveCompetitors, getCompetitors, getPlayerTeam } from './team-manager';
+import { getTotalRounds } from './question-manager';
+import { InvalidMoveError, PhaseError } from './errors';
 
-const MAX_BETS_PER_PLAYER = 2;
-const TOTAL_SLOTS = 8; // 0-7 slot indices
+/**
+ * Points a meeple on the winning slot scores under family rules.
+ * Meeples are placed big first unless the player picks one.
+ */
+export const FAMILY_MEEPLE_POINTS: Record<Meeple, number> = {
+  big: 2,
+  small: 1,
+};
+
+/**
+ * Returns how many points a player can still wager this round.
+ * Wagers are limited by the player's current score.
+ * @param state - Current game state
+ * @param playerId - ID of the player
+ * @returns Score minus points already wagered this round (chip wagers and final wager)
+ */
+export function getAvailableBankroll(state: GameState, playerId: string): number {
+  const score = getCompetitors(state).find((p) => p.id === playerId)?.score ?? 0;
+  const bet = state.playerBets.find((b) => b.playerId === playerId);
+  const wagered = (bet?.wagers ?? []).reduce((sum, w) => sum + w, 0);
+  const finalWager = state.finalWagers.find((w) => w.playerId === playerId)?.amount ?? 0;
+  return score - wagered - finalWager;
+}
+
+/**
+ * Checks that a slot can be bet on: the special slot, a slot with answers,
+ * or the empty middle slot when there is an even number of distinct answers
+ * @throws InvalidMoveError if the slot index is out of range or the slot is empty
+ */
+function validateBetSlot(state: GameState, slotIndex: number): void {
+  const bettingBoard = createBettingBoard(state.playerAnswers, state.config);
+  if (slotIndex < 0 || slotIndex >= bettingBoard.length) {
+    throw new InvalidMoveError('INVALID_SLOT', 'Invalid slot index', {
+      slotIndex,
+      slotCount: bettingBoard.length,
+    });
+  }
+  if (!canBetOnSlot(bettingBoard, slotIndex)) {
+    throw new InvalidMoveError('EMPTY_SLOT', 'Cannot bet on empty slot', { slotIndex });
+  }
+}
+
+/**
+ * Checks that a wager is a whole number of points the player still has
+ * @throws InvalidMoveError if the wager is negative, fractional or too high
+ */
+function validateWager(wager: number, available: number): void {
+  if (!Number.isInteger(wager) || wager < 0) {
+    throw new InvalidMoveError('INVALID_WAGER', 'Wager must be a non-negative whole number', {
+      wager,
+    });
+  }
+  if (wager > available) {
+    throw new InvalidMoveError('WAGER_EXCEEDS_BANKROLL', 'Wager exceeds available points', {
+      wager,
+      available,
+    });
+  }
+}
+
+// Placing chips and final wagers is only allowed while betting
+function bettingPhaseError(state: GameState): PhaseError<'WRONG_PHASE'> {
+  return new PhaseError('WRONG_PHASE', 'Cannot place bet outside betting phase', {
+    phase: state.phase,
+    allowed: ['betting'],
+  });
+}
 
 /**
  * Places a bet chip for a player on a specific betting slot
  * @param state - Current game state
- * @param playerId - ID of the player placing the bet
- * @param slotIndex - Index of the slot to bet on (0-7)
+ * @param playerId - ID of the player placing the bet (the team's ID in team mode)
+ * @param slotIndex - Index of the slot to bet on (0-7 on the classic board)
+ * @param wager - Points wagered on top of the chip (bankroll mode only)
+ * @param meeple - Meeple to place (family rules only, defaults to the next free one)
  * @returns New game state with updated playerBets
- * @throws Error if not in betting phase or invalid slot index
+ * @throws PhaseError if not in betting phase
+ * @throws InvalidMoveError if the player left, or the slot, wager or meeple is invalid
  */
 export function placeBet(
   state: GameState,
   playerId: string,
-  slotIndex: number
+  slotIndex: number,
+  wager: number = 0,
+  meeple?: Meeple
 ): GameState {
   if (state.phase !== 'betting') {
-    throw new Error('Cannot place bet outside betting phase');
+    throw bettingPhaseError(state);
   }
 
-  if (slotIndex < 0 || slotIndex >= TOTAL_SLOTS) {
-    throw new Error('Invalid slot index');
+  if (state.departedPlayerIds.includes(playerId)) {
+    throw new InvalidMoveError('PLAYER_LEFT', 'Player has left the game', { playerId });
   }
 
-  // Validate the slot has answers or is the special slot
-  const bettingBoard = createBettingBoard(state.playerAnswers);
-  const slot = bettingBoard[slotIndex];
-  
-  // Count unique answer groups to check for even number of guesses
-  const uniqueGroupCount = bettingBoard.filter(s => !s.isSpecial && s.answerGroups.length > 0).length;
-  const isEvenUniqueGuesses = uniqueGroupCount % 2 === 0;
-  const MIDDLE_SLOT_INDEX = 4;
-  
-  // Allow betting on empty middle slot when there's an even number of unique guesses
-  const isAllowedEmptySlot = slotIndex === MIDDLE_SLOT_INDEX && isEvenUniqueGuesses;
-  
-  if (!slot.isSpecial && slot.answerGroups.length === 0 && !isAllowedEmptySlot) {
-    throw new Error('Cannot bet on empty slot');
-  }
+  validateBetSlot(state, slotIndex);
 
   const existingBet = state.playerBets.find((b) => b.playerId === playerId);
 
-  // Prevent more than MAX_BETS_PER_PLAYER bets
-  if (existingBet && existingBet.betOnSlotIndices.length >= MAX_BETS_PER_PLAYER) {
+  // Prevent more than the configured number of bets
+  if (existingBet && existingBet.betOnSlotIndices.length >= state.config.maxBetsPerPlayer) {
     return state; // Silently ignore additional bets
   }
 
+  const { scoringMode } = state.config;
+  const isBankroll = scoringMode === 'bankroll';
+  if (wager !== 0 && !isBankroll) {
+    throw new InvalidMoveError('WAGERS_NOT_ALLOWED', 'Wagers are only allowed in bankroll mode', {
+      scoringMode,
+    });
+  }
+  validateWager(wager, getAvailableBankroll(state, playerId));
+
+  const isFamily = scoringMode === 'family';
+  if (meeple && !isFamily) {
+    throw new InvalidMoveError('MEEPLES_NOT_ALLOWED', 'Meeples are only used in family rules', {
+      scoringMode,
+    });
+  }
+  const placedMeeples = existingBet?.meeples ?? [];
+  if (meeple && placedMeeples.includes(meeple)) {
+    throw new InvalidMoveError('MEEPLE_ALREADY_PLACED', 'Meeple already placed', { meeple });
+  }
+  const nextMeeple =
+    meeple ?? (placedMeeples.includes('big') ? 'small' : 'big');
+
+  // Wagers and meeples are only tracked in their modes, aligned with betOnSlotIndices
   const updatedBets = existingBet
     ? state.playerBets.map((b) =>
         b.playerId === playerId
           ? {
               ...b,
               betOnSlotIndices: [...b.betOnSlotIndices, slotIndex],
+              ...(isBankroll && { wagers: [...(b.wagers ?? []), wager] }),
+              ...(isFamily && { meeples: [...placedMeeples, nextMeeple] }),
             }
           : b
       )
     : [
         ...state.playerBets,
-        { playerId, betOnSlotIndices: [slotIndex] },
+        {
+          playerId,
+          betOnSlotIndices: [slotIndex],
+          ...(isBankroll && { wagers: [wager] }),
+          ...(isFamily && { meeples: [nextMeeple] }),
+        },
       ];
 
   return {
@@ -68,18 +157,81 @@ export function placeBet(
   };
 }
 
+/**
+ * Checks whether the current round takes final wagers: the rules enable
+ * them and this is the game's last round
+ * @param state - Current game state
+ * @returns True if players may place a final wager this round
+ */
+export function isFinalWagerRound(state: GameState): boolean {
+  return (
+    state.config.finalWager &&
+    state.phase !== 'setup' &&
+    state.currentQuestionIndex === getTotalRounds(state) - 1
+  );
+}
+
+/**
+ * Places or replaces a player's final wager: part of their score on one slot,
+ * paid at the slot's odds if it wins and lost otherwise
+ * @param state - Current game state
+ * @param playerId - ID of the player wagering (the team's ID in team mode)
+ * @param slotIndex - Index of the slot to wager on
+ * @param amount - Points wagered (0 withdraws the wager)
+ * @returns New game state with updated finalWagers
+ * @throws PhaseError if not in the final round's betting phase
+ * @throws InvalidMoveError if the player is not found, or the slot or amount is invalid
+ */
+export function placeFinalWager(
+  state: GameState,
+  playerId: string,
+  slotIndex: number,
+  amount: number
+): GameState {
+  if (state.phase !== 'betting') {
+    throw bettingPhaseError(state);
+  }
+
+  if (!isFinalWagerRound(state)) {
+    throw new PhaseError('NOT_FINAL_ROUND', 'Final wagers are only allowed in the final round', {
+      round: state.currentQuestionIndex,
+      totalRounds: getTotalRounds(state),
+    });
+  }
+
+  if (!getActiveCompetitors(state).some((p) => p.id === playerId)) {
+    throw new InvalidMoveError('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+  }
+
+  validateBetSlot(state, slotIndex);
+
+  const others = state.finalWagers.filter((w) => w.playerId !== playerId);
+  validateWager(amount, getAvailableBankroll({ ...state, finalWagers: others }, playerId));
+
+  return {
+    ...state,
+    finalWagers: amount === 0 ? others : [...others, { playerId, slotIndex, amount }],
+  };
+}
+
 /**
  * Removes a specific bet chip for a player
  * @param state - Current game state
  * @param playerId - ID of the player
- * @param betIndex - Index of the bet to remove (0 or 1)
+ * @param betIndex - Index of the bet to remove (0-based)
  * @returns New game state with bet removed
+ * @throws InvalidMoveError with secret betting once every bet is placed, since
+ *   everyone's bets are then on the board
  */
 export function removeBet(
   state: GameState,
   playerId: string,
   betIndex: number
 ): GameState {
+  if (state.config.secretBetting && canFinishBetting(state)) {
+    throw new InvalidMoveError('BETS_LOCKED', 'Secret bets are locked once revealed', {});
+  }
+
   return {
     ...state,
     playerBets: state.playerBets.map((b) =>
@@ -89,6 +241,12 @@ export function removeBet(
             betOnSlotIndices: b.betOnSlotIndices.filter(
               (_: number, i: number) => i !== betIndex
             ),
+            ...(b.wagers && {
+              wagers: b.wagers.filter((_: number, i: number) => i !== betIndex),
+            }),
+            ...(b.meeples && {
+              meeples: b.meeples.filter((_: Meeple, i: number) => i !== betIndex),
+            }),
           }
         : b
     ),
@@ -96,15 +254,43 @@ export function removeBet(
 }
 
 /**
- * Checks if all players have placed all their bets
+ * Checks if all players still in the game have placed all their bets
  * @param state - Current game state
- * @returns True if all players have placed exactly MAX_BETS_PER_PLAYER bets
+ * @returns True if all players still in the game have placed exactly
+ *   config.maxBetsPerPlayer bets
  */
 export function canFinishBetting(state: GameState): boolean {
-  return (
-    state.playerBets.length === state.players.length &&
-    state.playerBets.every(
-      (b) => b.betOnSlotIndices.length === MAX_BETS_PER_PLAYER
-    )
+  return getActiveCompetitors(state).every(
+    (p) =>
+      state.playerBets.find((b) => b.playerId === p.id)?.betOnSlotIndices.length ===
+      state.config.maxBetsPerPlayer
   );
 }
+
+/**
+ * Checks whether bets are still secret: the rules hide them and not
+ * everyone has placed all their bets yet
+ * @param state - Current game state
+ * @returns True if players may only see their own bets
+ */
+export function areBetsHidden(state: GameState): boolean {
+  return state.config.secretBetting && state.phase === 'betting' && !canFinishBetting(state);
+}
+
+/**
+ * Returns the game state as one viewer may see it. While bets are secret,
+ * only the viewer's own bets are left in; once everyone has bet they are
+ * all revealed at once.
+ * @param state - Current game state
+ * @param viewerId - Player (or team) looking, or null for the shared table screen
+ * @returns The state without other players' secret bets
+ */
+export function redactBets(state: GameState, viewerId: string | null): GameState {
+  if (!areBetsHidden(state)) return state;
+  // Team members see their team's bets
+  const seatId = viewerId === null ? null : getPlayerTeam(state, viewerId)?.id ?? viewerId;
+  return {
+    ...state,
+    playerBets: state.playerBets.filter((b) => b.playerId === seatId),
+  };
+}
@@ -0,0 +1,115 @@
+import type { GamePhase, Meeple, ScoringMode } from './types';
+
+/**
+ * Structured details carried by each error code, so callers can show their
+ * own (localized) message instead of the English one
+ */
+export interface GameErrorDetails {
+  // The action is not allowed in the current phase
+  WRONG_PHASE: { phase: GamePhase; allowed: GamePhase[] };
+  // Timers were told to expire a phase without a countdown
+  NO_TIME_LIMIT: { phase: GamePhase };
+  NOT_FINAL_ROUND: { round: number; totalRounds: number };
+  NO_CURRENT_QUESTION: { round: number };
+  NOTHING_TO_UNDO: Record<string, never>;
+  NOTHING_TO_REDO: Record<string, never>;
+  // Players cannot join or leave once teams are playing
+  TEAM_GAME_IN_PROGRESS: { phase: GamePhase };
+
+  NOT_ENOUGH_PLAYERS: { available: number; needed: number };
+  // problems are validateTeams messages
+  INVALID_TEAMS: { problems: string[] };
+  NO_QUESTIONS: { labels: string[] };
+  NOT_ENOUGH_QUESTIONS: { available: number; needed: number };
+  ANSWERS_MISSING: { playerIds: string[] };
+  BETS_MISSING: { playerIds: string[]; required: number };
+
+  INVALID_ROUNDS: { rounds: number };
+  // problems are validateGameConfig messages
+  INVALID_CONFIG: { problems: string[] };
+  INVALID_SEED: { seed: number };
+  // problems are validateQuestions messages
+  INVALID_QUESTIONS: { problems: string[] };
+  EMPTY_NAME: Record<string, never>;
+  PLAYER_NOT_FOUND: { playerId: string };
+  PLAYER_LEFT: { playerId: string };
+  TEAM_NOT_FOUND: { teamId: string };
+  NOT_PICKING_PLAYER: { playerId: string; pickerId: string | null };
+  CATEGORY_EXHAUSTED: { label: string };
+  INVALID_ANSWER: { answer: number };
+  INVALID_SLOT: { slotIndex: number; slotCount: number };
+  EMPTY_SLOT: { slotIndex: number };
+  WAGERS_NOT_ALLOWED: { scoringMode: ScoringMode };
+  INVALID_WAGER: { wager: number };
+  WAGER_EXCEEDS_BANKROLL: { wager: number; available: number };
+  MEEPLES_NOT_ALLOWED: { scoringMode: ScoringMode };
+  MEEPLE_ALREADY_PLACED: { meeple: Meeple };
+  // Secret bets cannot be taken back once everyone's are revealed
+  BETS_LOCKED: Record<string, never>;
+}
+
+export type GameErrorCode = keyof GameErrorDetails;
+
+/**
+ * Base class of every error the engine throws on purpose. The message stays
+ * in English for logs; code and details are meant for the UI.
+ */
+export class GameError<C extends GameErrorCode = GameErrorCode> extends Error {
+  constructor(
+    readonly code: C,
+    message: string,
+    readonly details: GameErrorDetails[C]
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export type PhaseErrorCode =
+  | 'WRONG_PHASE'
+  | 'NO_TIME_LIMIT'
+  | 'NOT_FINAL_ROUND'
+  | 'NO_CURRENT_QUESTION'
+  | 'NOTHING_TO_UNDO'
+  | 'NOTHING_TO_REDO'
+  | 'TEAM_GAME_IN_PROGRESS';
+
+/**
+ * The action is not available at this point of the game
+ */
+export class PhaseError<C extends PhaseErrorCode = PhaseErrorCode> extends GameError<C> {}
+
+export type NotReadyErrorCode =
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'INVALID_TEAMS'
+  | 'NO_QUESTIONS'
+  | 'NOT_ENOUGH_QUESTIONS'
+  | 'ANSWERS_MISSING'
+  | 'BETS_MISSING';
+
+/**
+ * The game cannot move on yet: something is still missing
+ */
+export class NotReadyError<C extends NotReadyErrorCode = NotReadyErrorCode> extends GameError<C> {}
+
+export type InvalidMoveErrorCode = Exclude<GameErrorCode, PhaseErrorCode | NotReadyErrorCode>;
+
+/**
+ * A player's move or a setting breaks the rules
+ */
+export class InvalidMoveError<
+  C extends InvalidMoveErrorCode = InvalidMoveErrorCode,
+> extends GameError<C> {}
+
+/**
+ * Checks whether an error is a GameError, optionally with a specific code
+ * @param error - Anything caught
+ * @param code - Code to match, or any code if omitted
+ * @returns True if the error is a GameError (with that code)
+ */
+export function isGameError<C extends GameErrorCode>(
+  error: unknown,
+  code?: C
+): error is GameError<C> {
+  return error instanceof GameError && (code === undefined || error.code === code);
+}
@@ -0,0 +1,188 @@
+import type { GameConfig, GameState } from './types';
+import { DEFAULT_WINNING_RULE, isWinningRuleName } from './winning-rules';
+import { InvalidMoveError, PhaseError } from './errors';
+
+/**
+ * Standard Wits & Wagers rules as implemented by this game
+ */
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  scoringMode: 'simplified',
+  winningRule: DEFAULT_WINNING_RULE,
+  boardOverflow: 'merge',
+  questionSelection: 'random',
+  answerTimeLimitSeconds: null,
+  betTimeLimitSeconds: null,
+  betTimeoutFallback: 'none',
+  finalWager: false,
+  secretBetting: false,
+  lateJoinScore: 'zero',
+  maxBetsPerPlayer: 2,
+  specialSlotPayout: 6,
+  answerSlotPayouts: [5, 4, 3, 2, 3, 4, 5],
+  correctAnswerPoints: 3,
+  roundBonusPerRound: 1,
+  defaultRoundsToPlay: 7,
+  targetScore: null,
+};
+
+export type GameConfigPresetName =
+  | 'classic'
+  | 'quick'
+  | 'no-bonus'
+  | 'high-stakes'
+  | 'family';
+
+/**
+ * Named rule sets selectable at setup
+ */
+export const GAME_CONFIG_PRESETS: Record<GameConfigPresetName, GameConfig> = {
+  classic: DEFAULT_GAME_CONFIG,
+  quick: {
+    ...DEFAULT_GAME_CONFIG,
+    defaultRoundsToPlay: 3,
+  },
+  'no-bonus': {
+    ...DEFAULT_GAME_CONFIG,
+    roundBonusPerRound: 0,
+  },
+  'high-stakes': {
+    ...DEFAULT_GAME_CONFIG,
+    maxBetsPerPlayer: 3,
+    specialSlotPayout: 10,
+    answerSlotPayouts: [8, 6, 4, 2, 4, 6, 8],
+    correctAnswerPoints: 5,
+    roundBonusPerRound: 2,
+  },
+  // Family edition: a big (2) and a small (1) meeple, no odds, first to 15 wins
+  family: {
+    ...DEFAULT_GAME_CONFIG,
+    scoringMode: 'family',
+    correctAnswerPoints: 1,
+    roundBonusPerRound: 0,
+    defaultRoundsToPlay: 15,
+    targetScore: 15,
+  },
+};
+
+/**
+ * Validates a game config and returns array of error messages
+ * @param config - The config to validate
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateGameConfig(config: GameConfig): string[] {
+  const errors: string[] = [];
+
+  if (!['simplified', 'bankroll', 'family'].includes(config.scoringMode)) {
+    errors.push('Unknown scoring mode');
+  }
+
+  if (!isWinningRuleName(config.winningRule)) {
+    errors.push('Unknown winning rule');
+  }
+
+  if (config.boardOverflow !== 'expand' && config.boardOverflow !== 'merge') {
+    errors.push('Unknown board overflow strategy');
+  }
+
+  if (!['random', 'leader-picks', 'last-place-picks'].includes(config.questionSelection)) {
+    errors.push('Unknown question selection mode');
+  }
+
+  if (
+    [config.answerTimeLimitSeconds, config.betTimeLimitSeconds].some(
+      (limit) => limit !== null && (!Number.isInteger(limit) || limit < 1)
+    )
+  ) {
+    errors.push('Time limits must be a positive whole number of seconds');
+  }
+
+  if (config.betTimeoutFallback !== 'none' && config.betTimeoutFallback !== 'special-slot') {
+    errors.push('Unknown bet timeout fallback');
+  }
+
+  if (!['zero', 'average', 'lowest'].includes(config.lateJoinScore)) {
+    errors.push('Unknown late join score');
+  }
+
+  if (config.scoringMode === 'family' && config.finalWager) {
+    errors.push('Family rules have no odds for a final wager');
+  }
+
+  if (config.scoringMode === 'family' && config.maxBetsPerPlayer !== 2) {
+    errors.push('Family rules use exactly 2 meeples');
+  }
+
+  if (!Number.isInteger(config.maxBetsPerPlayer) || config.maxBetsPerPlayer < 1) {
+    errors.push('Players must have at least 1 bet');
+  }
+
+  if (!(config.specialSlotPayout > 0)) {
+    errors.push('Special slot payout must be positive');
+  }
+
+  if (
+    config.answerSlotPayouts.length < 3 ||
+    config.answerSlotPayouts.length % 2 === 0
+  ) {
+    errors.push('Board must have an odd number of answer slots (at least 3)');
+  }
+
+  if (config.answerSlotPayouts.some((payout) => !(payout > 0))) {
+    errors.push('Answer slot payouts must be positive');
+  }
+
+  if (!(config.correctAnswerPoints >= 0)) {
+    errors.push('Correct answer points cannot be negative');
+  }
+
+  if (!(config.roundBonusPerRound >= 0)) {
+    errors.push('Round bonus cannot be negative');
+  }
+
+  if (!Number.isInteger(config.defaultRoundsToPlay) || config.defaultRoundsToPlay < 1) {
+    errors.push('Must have at least 1 round');
+  }
+
+  if (
+    config.targetScore !== null &&
+    (!Number.isInteger(config.targetScore) || config.targetScore < 1)
+  ) {
+    errors.push('Target score must be a positive whole number');
+  }
+
+  return errors;
+}
+
+/**
+ * Replaces the game rules. Rounds to play are reset only when the config's
+ * default changes, so tweaking one rule keeps the chosen game length.
+ * @param state - Current game state (must be in 'setup' phase)
+ * @param config - The new rules
+ * @returns New game state with the config applied
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if the config is invalid
+ */
+export function setGameConfig(state: GameState, config: GameConfig): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change rules during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  const errors = validateGameConfig(config);
+  if (errors.length > 0) {
+    throw new InvalidMoveError('INVALID_CONFIG', `Invalid game config: ${errors.join(', ')}`, {
+      problems: errors,
+    });
+  }
+
+  return {
+    ...state,
+    config,
+    roundsToPlay:
+      config.defaultRoundsToPlay === state.config.defaultRoundsToPlay
+        ? state.roundsToPlay
+        : config.defaultRoundsToPlay,
+  };
+}
@@ -1,10 +1,31 @@
-import type { GameState, Player, Question, GamePhase, ScoringResult } from './types';
+import type {
+  GameAction,
+  GameConfig,
+  GameState,
+  GameStateView,
+  Viewer,
+  Meeple,
+  Player,
+  Question,
+  GamePhase,
+  ScoringResult,
+  Team,
+  FinalWager,
+} from './types';
 import { createInitialGameState } from './game-state';
 import * as QuestionManager from './question-manager';
 import * as AnswerManager from './answer-manager';
 import * as BettingManager from './betting-manager';
-import * as ScoringEngine from './scoring-engine';
 import * as RoundManager from './round-manager';
+import * as ScoringEngine from './scoring-engine';
+import * as TeamManager from './team-manager';
+import * as PlayerManager from './player-manager';
+import { getViewFor } from './views';
+import { applyAction } from './action-log';
+import { serializeGameState, deserializeGameState } from './serialization';
+import { generateSeed } from './random';
+import { PhaseTimer } from './phase-timer';
+import { PhaseError } from './errors';
 import { createBettingBoard, type BettingSlot } from './betting-board';
 
 /**
@@ -13,20 +34,114 @@ import { createBettingBoard, type BettingSlot } from './betting-board';
  */
 export class WitsAndWagersEngine {
   private state: GameState;
+  private actionLog: GameAction[] = [];
+  // State before each undoable action, with the log length at that point
+  private undoStack: { state: GameState; logLength: number }[] = [];
+  // Undone actions, most recently undone last
+  private redoStack: GameAction[] = [];
+  // Countdown for the current phase; not part of the state, since expiry is
+  // recorded in the action log as 'expireTimer'
+  private timer: PhaseTimer;
 
-  constructor(questions: Question[] = []) {
+  /**
+   * @param questions - Question bank
+   * @param now - Clock used by phase timers; inject a fake one in tests
+   */
+  constructor(questions: Question[] = [], now: () => number = Date.now) {
     this.state = createInitialGameState(questions);
+    this.timer = new PhaseTimer(now);
+  }
+
+  /**
+   * Rebuilds an engine by replaying a recorded action log
+   * @param actions - Action log from getActionLog()
+   * @param questions - Question bank the original engine was created with
+   * @param now - Clock used by phase timers
+   * @returns A new engine with identical state and action log
+   * @throws Error if any action is not valid at its point in the log
+   */
+  static replay(
+    actions: readonly GameAction[],
+    questions: Question[] = [],
+    now: () => number = Date.now
+  ): WitsAndWagersEngine {
+    const engine = new WitsAndWagersEngine(questions, now);
+    actions.forEach((action) => engine.dispatch(action));
+    return engine;
+  }
+
+  /**
+   * Applies a new action and discards anything that could be redone
+   */
+  private dispatch(action: GameAction): void {
+    if (this.commit(action)) {
+      this.redoStack = [];
+    }
+  }
+
+  /**
+   * Applies an action to the state and records it in the action log.
+   * Actions that throw or leave the state unchanged are not recorded.
+   * @returns True if the action changed the state
+   */
+  private commit(action: GameAction): boolean {
+    const nextState = applyAction(this.state, action);
+    if (nextState === this.state) return false;
+
+    if (action.type === 'updateQuestions') {
+      // Swapping the question bank is not a host mistake, and undoing past it
+      // would leave the game without questions, so history starts over here
+      this.undoStack = [];
+    } else {
+      this.undoStack.push({ state: this.state, logLength: this.actionLog.length });
+    }
+
+    this.setState(nextState);
+    this.actionLog.push(action);
+    return true;
+  }
+
+  /**
+   * Replaces the state, restarting the phase timer when a new phase or round begins
+   */
+  private setState(nextState: GameState): void {
+    const previous = this.state;
+    this.state = nextState;
+    if (
+      previous.phase !== nextState.phase ||
+      previous.currentQuestionIndex !== nextState.currentQuestionIndex
+    ) {
+      this.timer.start(RoundManager.getPhaseTimeLimitMs(nextState, nextState.phase));
+    }
   }
 
   // ============ State Getters ============
 
   /**
-   * Returns a readonly copy of the current game state
+   * Returns a readonly copy of the current game state, with nothing hidden.
+   * Use getViewFor for what a participant may see.
    */
   getState(): Readonly<GameState> {
     return this.state;
   }
 
+  /**
+   * Returns only what one participant may see of the game: no correct answer
+   * before the results, no other answers before betting, no other bets while
+   * they are secret. Use this for anything sent to another screen.
+   * @param viewer - The host, a player or a spectator
+   */
+  getViewFor(viewer: Viewer): GameStateView {
+    return getViewFor(this.state, viewer);
+  }
+
+  /**
+   * Returns the serializable log of all actions applied so far
+   */
+  getActionLog(): readonly GameAction[] {
+    return [...this.actionLog];
+  }
+
   /**
    * Returns the current game phase
    */
@@ -41,17 +156,48 @@ export class WitsAndWagersEngine {
     return this.state.players;
   }
 
+  /**
+   * Returns array of all teams (empty unless playing in teams)
+   */
+  getTeams(): readonly Team[] {
+    return this.state.teams;
+  }
+
+  /**
+   * Returns whoever answers, bets and scores: the teams in team mode,
+   * otherwise the players
+   */
+  getCompetitors(): readonly Player[] {
+    return TeamManager.getCompetitors(this.state);
+  }
+
+  /**
+   * Returns the competitors still playing, leaving out players who left mid-game
+   */
+  getActiveCompetitors(): readonly Player[] {
+    return TeamManager.getActiveCompetitors(this.state);
+  }
+
+  /**
+   * Checks if a player has left the game in progress
+   * @param playerId - ID of the player
+   */
+  hasLeft(playerId: string): boolean {
+    return this.state.departedPlayerIds.includes(playerId);
+  }
+
+  /**
+   * Returns the score a player joining the game now would start with
+   */
+  getLateJoinScore(): number {
+    return PlayerManager.getLateJoinScore(this.state);
+  }
+
   /**
    * Returns the current question or null if none
    */
   getCurrentQuestion(): Question | null {
-    if (
-      this.state.currentQuestionIndex < 0 ||
-      this.state.currentQuestionIndex >= this.state.gameQuestions.length
-    ) {
-      return null;
-    }
-    return this.state.gameQuestions[this.state.currentQuestionIndex];
+    return QuestionManager.getCurrentQuestion(this.state);
   }
 
   /**
@@ -68,49 +214,75 @@ export class WitsAndWagersEngine {
     return this.state.roundsToPlay;
   }
 
+  /**
+   * Checks if the game ends after the current round (last question or target score reached)
+   */
+  isFinalRound(): boolean {
+    return RoundManager.isFinalRound(this.state);
+  }
+
   // ============ Player Management ============
 
   /**
-   * Adds a new player to the game
+   * Adds a new player to the game. Mid-game, the player joins with the
+   * config's late join score and plays from the current round on.
    * @param name - Player's name
-   * @throws Error if not in setup phase
+   * @throws PhaseError if the game is over or a team game is in progress
+   * @throws InvalidMoveError if the name is empty
    */
   addPlayer(name: string): void {
-    if (this.state.phase !== 'setup') {
-      throw new Error('Can only add players during setup');
-    }
+    this.dispatch({
+      type: 'addPlayer',
+      playerId: Date.now().toString() + Math.random(),
+      name,
+    });
+  }
 
-    const trimmedName = name.trim();
-    if (!trimmedName) {
-      throw new Error('Player name cannot be empty');
-    }
+  /**
+   * Removes a player from the game. Mid-game, the player leaves instead:
+   * their score and history are kept but they sit out the remaining rounds.
+   * @param playerId - ID of player to remove
+   * @throws PhaseError if the game is over or a team game is in progress
+   * @throws InvalidMoveError if the player does not exist
+   */
+  removePlayer(playerId: string): void {
+    this.dispatch({ type: 'removePlayer', playerId });
+  }
 
-    const newPlayer: Player = {
-      id: Date.now().toString() + Math.random(),
-      name: trimmedName,
-      score: 0,
-    };
+  // ============ Team Management ============
 
-    this.state = {
-      ...this.state,
-      players: [...this.state.players, newPlayer],
-    };
+  /**
+   * Adds a new, empty team. Adding any team switches the game to team mode.
+   * @param name - Team's name
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if the name is empty
+   */
+  addTeam(name: string): void {
+    this.dispatch({
+      type: 'addTeam',
+      teamId: Date.now().toString() + Math.random(),
+      name,
+    });
   }
 
   /**
-   * Removes a player from the game
-   * @param playerId - ID of player to remove
-   * @throws Error if not in setup phase
+   * Removes a team; its members become unassigned
+   * @param teamId - ID of team to remove
+   * @throws PhaseError if not in setup phase
    */
-  removePlayer(playerId: string): void {
-    if (this.state.phase !== 'setup') {
-      throw new Error('Can only remove players during setup');
-    }
+  removeTeam(teamId: string): void {
+    this.dispatch({ type: 'removeTeam', teamId });
+  }
 
-    this.state = {
-      ...this.state,
-      players: this.state.players.filter((p) => p.id !== playerId),
-    };
+  /**
+   * Drafts a player into a team
+   * @param playerId - ID of the player
+   * @param teamId - ID of the team, or null to leave all teams
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if the player or team does not exist
+   */
+  assignPlayerToTeam(playerId: string, teamId: string | null): void {
+    this.dispatch({ type: 'assignPlayerToTeam', playerId, teamId });
   }
 
   // ============ Question Management ============
@@ -120,7 +292,7 @@ export class WitsAndWagersEngine {
    * @param labels - Array of labels to filter by
    */
   setQuestionLabels(labels: string[]): void {
-    this.state = QuestionManager.updateQuestionLabels(this.state, labels);
+    this.dispatch({ type: 'setQuestionLabels', labels });
   }
 
   /**
@@ -130,62 +302,111 @@ export class WitsAndWagersEngine {
     return QuestionManager.getAvailableLabels(this.state.allQuestions);
   }
 
+  /**
+   * Finds a question in the bank by its stable ID
+   * @param id - Question ID
+   * @returns The question, or null if no question has that ID
+   */
+  getQuestionById(id: string): Question | null {
+    return QuestionManager.getQuestionById(this.state.allQuestions, id) ?? null;
+  }
+
   /**
    * Updates the questions available for the game
    * @param questions - New array of questions
-   * @throws Error if not in setup phase
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if the questions are invalid
    */
   updateQuestions(questions: Question[]): void {
-    if (this.state.phase !== 'setup') {
-      throw new Error('Can only update questions during setup');
-    }
-
-    // Update allQuestions and re-apply current label filter
-    this.state = {
-      ...this.state,
-      allQuestions: questions,
-    };
-
-    // Re-apply label filter if any labels are selected
-    if (this.state.selectedLabels.length > 0) {
-      this.state = QuestionManager.updateQuestionLabels(
-        this.state,
-        this.state.selectedLabels
-      );
-    } else {
-      // No filter, so filteredQuestions = allQuestions
-      this.state = {
-        ...this.state,
-        filteredQuestions: questions,
-      };
-    }
+    this.dispatch({ type: 'updateQuestions', questions });
   }
 
   /**
    * Sets the number of rounds to play
    * @param rounds - Number of rounds (must be positive)
-   * @throws Error if not in setup phase or invalid rounds
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if rounds is not positive
    */
   setRoundsToPlay(rounds: number): void {
-    if (this.state.phase !== 'setup') {
-      throw new Error('Can only change rounds during setup');
-    }
+    this.dispatch({ type: 'setRoundsToPlay', rounds });
+  }
 
-    if (rounds < 1) {
-      throw new Error('Must have at least 1 round');
-    }
+  /**
+   * Sets the seed used to draw questions, so two groups can play the same
+   * game or a test can pin the question order
+   * @param seed - Unsigned 32-bit integer, or null for a fresh seed each game
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if the seed is invalid
+   */
+  setSeed(seed: number | null): void {
+    this.dispatch({ type: 'setSeed', seed });
+  }
+
+  /**
+   * Replaces the rules (bets, payouts, points) for the next game.
+   * Also resets rounds to play to the config's default.
+   * @param config - The rules to play with, e.g. one of GAME_CONFIG_PRESETS
+   * @throws PhaseError if not in setup phase
+   * @throws InvalidMoveError if the config is invalid
+   */
+  setConfig(config: GameConfig): void {
+    this.dispatch({ type: 'setConfig', config });
+  }
+
+  /**
+   * Returns the rules the game is played with
+   */
+  getConfig(): GameConfig {
+    return this.state.config;
+  }
 
-    this.state = { ...this.state, roundsToPlay: rounds };
+  /**
+   * Returns the seed the current game's questions were drawn with
+   */
+  getGameSeed(): number | null {
+    return this.state.gameSeed;
   }
 
   // ============ Game Flow ============
 
   /**
    * Starts the game
-   * @throws Error if validation fails (not enough players/questions)
+   * @throws NotReadyError if there are not enough players or questions, or teams are invalid
    */
   startGame(): void {
-    this.state = RoundManager.startGame(this.state);
+    // Resolve the seed here so the log records the exact question draw
+    this.dispatch({
+      type: 'startGame',
+      seed: this.state.seed ?? generateSeed(),
+    });
+  }
+
+  // ============ Question Selection Phase ============
+
+  /**
+   * Returns who picks this round's category, or null when categories are not picked
+   */
+  getCategoryPicker(): Player | null {
+    return RoundManager.getCategoryPicker(this.state);
+  }
+
+  /**
+   * Returns the categories that still have unused questions
+   */
+  getSelectableLabels(): string[] {
+    return QuestionManager.getSelectableLabels(this.state);
+  }
+
+  /**
+   * Picks this round's category and draws an unused question from it
+   * @param playerId - ID of the picking player (or team)
+   * @param label - The chosen category
+   * @throws PhaseError if not in question-selection phase
+   * @throws InvalidMoveError if the player is not the picker or the category
+   *   has no unused questions
+   */
+  selectCategory(playerId: string, label: string): void {
+    this.dispatch({ type: 'selectCategory', playerId, label });
   }
 
   // ============ Answer Phase ============
@@ -194,10 +415,11 @@ export class WitsAndWagersEngine {
    * Submits or updates a player's answer
    * @param playerId - ID of player
    * @param answer - Numerical answer
-   * @throws Error if not in answering phase or invalid input
+   * @throws PhaseError if not in answering phase
+   * @throws InvalidMoveError if the player is not found or the answer is invalid
    */
   submitAnswer(playerId: string, answer: number): void {
-    this.state = AnswerManager.submitPlayerAnswer(this.state, playerId, answer);
+    this.dispatch({ type: 'submitAnswer', playerId, answer });
   }
 
   /**
@@ -205,7 +427,7 @@ export class WitsAndWagersEngine {
    * @param playerId - ID of player
    */
   removeAnswer(playerId: string): void {
-    this.state = AnswerManager.removePlayerAnswer(this.state, playerId);
+    this.dispatch({ type: 'removeAnswer', playerId });
   }
 
   /**
@@ -217,13 +439,10 @@ export class WitsAndWagersEngine {
 
   /**
    * Finishes answering phase and moves to betting
-   * @throws Error if not all players have answered
+   * @throws NotReadyError if not all players have answered
    */
   finishAnswering(): void {
-    if (!AnswerManager.canFinishAnswering(this.state)) {
-      throw new Error('All players must submit answers');
-    }
-    this.state = RoundManager.advanceToPhase(this.state, 'betting');
+    this.dispatch({ type: 'finishAnswering' });
   }
 
   // ============ Betting Phase ============
@@ -236,26 +455,76 @@ export class WitsAndWagersEngine {
     if (this.state.phase !== 'betting' && this.state.phase !== 'results') {
       return [];
     }
-    return createBettingBoard(this.state.playerAnswers);
+    return createBettingBoard(this.state.playerAnswers, this.state.config);
   }
 
   /**
    * Places a bet chip for a player on a betting slot
    * @param playerId - ID of player
-   * @param slotIndex - Index of slot to bet on (0-7)
-   * @throws Error if not in betting phase or invalid slot
+   * @param slotIndex - Index of slot to bet on (0-7 on the classic board)
+   * @param wager - Points wagered on top of the chip (bankroll mode only)
+   * @param meeple - Meeple to place (family rules only, defaults to the next free one)
+   * @throws PhaseError if not in betting phase
+   * @throws InvalidMoveError if the slot, wager or meeple is invalid
    */
-  placeBet(playerId: string, slotIndex: number): void {
-    this.state = BettingManager.placeBet(this.state, playerId, slotIndex);
+  placeBet(
+    playerId: string,
+    slotIndex: number,
+    wager: number = 0,
+    meeple?: Meeple
+  ): void {
+    this.dispatch({
+      type: 'placeBet',
+      playerId,
+      slotIndex,
+      wager,
+      ...(meeple && { meeple }),
+    });
+  }
+
+  /**
+   * Returns how many points a player can still wager this round
+   * @param playerId - ID of player
+   */
+  getAvailableBankroll(playerId: string): number {
+    return BettingManager.getAvailableBankroll(this.state, playerId);
+  }
+
+  /**
+   * Checks if players may place a final wager this round
+   */
+  isFinalWagerRound(): boolean {
+    return BettingManager.isFinalWagerRound(this.state);
+  }
+
+  /**
+   * Places or replaces a player's final wager on one slot
+   * @param playerId - ID of player
+   * @param slotIndex - Index of slot to wager on
+   * @param amount - Points wagered (0 withdraws the wager)
+   * @throws PhaseError if not in the final round's betting phase
+   * @throws InvalidMoveError if the slot or amount is invalid
+   */
+  placeFinalWager(playerId: string, slotIndex: number, amount: number): void {
+    this.dispatch({ type: 'placeFinalWager', playerId, slotIndex, amount });
+  }
+
+  /**
+   * Returns a player's final wager, or null if they have not placed one
+   * @param playerId - ID of player
+   */
+  getFinalWager(playerId: string): FinalWager | null {
+    return this.state.finalWagers.find((w) => w.playerId === playerId) ?? null;
   }
 
   /**
    * Removes a specific bet for a player
    * @param playerId - ID of player
    * @param betIndex - Index of bet to remove (0 or 1)
+   * @throws InvalidMoveError with secret betting once every bet is revealed
    */
   removeBet(playerId: string, betIndex: number): void {
-    this.state = BettingManager.removeBet(this.state, playerId, betIndex);
+    this.dispatch({ type: 'removeBet', playerId, betIndex });
   }
 
   /**
@@ -265,30 +534,64 @@ export class WitsAndWagersEngine {
     return BettingManager.canFinishBetting(this.state);
   }
 
+  /**
+   * Checks if bets are still secret (see config.secretBetting)
+   */
+  areBetsHidden(): boolean {
+    return BettingManager.areBetsHidden(this.state);
+  }
+
   /**
    * Finishes betting phase, calculates scores, and moves to results
    * @returns ScoringResult with winning answer and points awarded
-   * @throws Error if not all players have placed bets or no current question
+   * @throws NotReadyError if not all players have placed bets
    */
   finishBetting(): ScoringResult {
-    if (!BettingManager.canFinishBetting(this.state)) {
-      throw new Error('All players must place 2 bets');
-    }
+    const scoringResult = RoundManager.scoreCurrentRound(this.state);
+    this.dispatch({ type: 'finishBetting' });
+    return scoringResult;
+  }
 
-    const currentQuestion = this.getCurrentQuestion();
-    if (!currentQuestion) {
-      throw new Error('No current question');
-    }
+  // ============ Timers ============
 
-    const scoringResult = ScoringEngine.calculateRoundScores(
-      this.state,
-      currentQuestion.answer
-    );
+  /**
+   * Returns the milliseconds left in the current phase (0 once expired),
+   * or null if the phase is not timed
+   */
+  getTimeRemaining(): number | null {
+    return this.timer.getRemaining();
+  }
 
-    this.state = ScoringEngine.applyScores(this.state, scoringResult);
-    this.state = RoundManager.advanceToPhase(this.state, 'results');
+  /**
+   * Freezes the current phase's countdown
+   */
+  pauseTimer(): void {
+    this.timer.pause();
+  }
 
-    return scoringResult;
+  /**
+   * Continues a paused countdown
+   */
+  resumeTimer(): void {
+    this.timer.resume();
+  }
+
+  /**
+   * Checks if the countdown is paused
+   */
+  isTimerPaused(): boolean {
+    return this.timer.isPaused();
+  }
+
+  /**
+   * Ends the current phase if its countdown has run out. Call this regularly
+   * (e.g. from an interval) while a timed phase is in progress.
+   * @returns True if the phase was ended
+   */
+  tick(): boolean {
+    if (!this.timer.isExpired()) return false;
+    this.dispatch({ type: 'expireTimer' });
+    return true;
   }
 
   // ============ Round Progression ============
@@ -297,23 +600,93 @@ export class WitsAndWagersEngine {
    * Advances to the next round or ends the game
    */
   nextRound(): void {
-    this.state = RoundManager.nextRound(this.state);
+    this.dispatch({ type: 'nextRound' });
   }
 
   /**
    * Resets the game to setup phase, preserving players but clearing scores
    */
   resetGame(): void {
-    this.state = RoundManager.resetGame(this.state);
+    this.dispatch({ type: 'resetGame' });
+  }
+
+  // ============ History ============
+
+  /**
+   * Checks if there is an action to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Checks if there is an undone action to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Reverts the most recent action, including any scores it applied.
+   * The action is removed from the action log until it is redone.
+   * @throws PhaseError if there is nothing to undo
+   */
+  undo(): void {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      throw new PhaseError('NOTHING_TO_UNDO', 'Nothing to undo', {});
+    }
+
+    this.redoStack.push(...this.actionLog.slice(entry.logLength).reverse());
+    this.actionLog = this.actionLog.slice(0, entry.logLength);
+    this.setState(entry.state);
+  }
+
+  /**
+   * Re-applies the most recently undone action. If it throws, it stays
+   * there to redo.
+   * @throws PhaseError if there is nothing to redo
+   */
+  redo(): void {
+    const action = this.redoStack[this.redoStack.length - 1];
+    if (!action) {
+      throw new PhaseError('NOTHING_TO_REDO', 'Nothing to redo', {});
+    }
+
+    this.commit(action);
+    this.redoStack.pop();
+  }
+
+  // ============ Persistence ============
+
+  /**
+   * Serializes the current game state to a versioned JSON string
+   */
+  serialize(): string {
+    return serializeGameState(this.state);
+  }
+
+  /**
+   * Replaces the current state with a previously serialized one, migrating
+   * it to the current schema. Starts a fresh action log, undo history and phase timer.
+   * @param serialized - JSON string from serialize()
+   * @throws Error if the data is malformed or from an unsupported version
+   */
+  restore(serialized: string): void {
+    this.state = deserializeGameState(serialized);
+    this.timer.start(RoundManager.getPhaseTimeLimitMs(this.state, this.state.phase));
+    this.actionLog = [];
+    this.undoStack = [];
+    this.redoStack = [];
   }
 
   // ============ Utility Methods ============
 
   /**
-   * Returns players sorted by score (descending)
+   * Returns players (or teams in team mode) sorted by score (descending)
    */
   getSortedPlayers(): Player[] {
-    return [...this.state.players].sort((a, b) => b.score - a.score);
+    return [...TeamManager.getCompetitors(this.state)].sort((a, b) => b.score - a.score);
   }
 
   /**
@@ -334,6 +707,17 @@ export class WitsAndWagersEngine {
     }
     return [...this.state.playerAnswers].sort((a, b) => a.answer - b.answer);
   }
+
+  /**
+   * Returns the winning answer and slot of the current round under the
+   * configured winning rule, so screens don't re-implement the rule
+   * Only available during the results phase
+   */
+  getRoundResult(): ScoringResult | null {
+    const question = this.getCurrentQuestion();
+    if (this.state.phase !== 'results' || !question) return null;
+    return ScoringEngine.calculateRoundScores(this.state, question.answer);
+  }
 }
 
 // Re-export PlayerAnswer type for use with getSortedAnswers
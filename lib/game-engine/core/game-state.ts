@@ -1,15 +1,20 @@
-import type { GameState, Question } from './types';
+import type { GameConfig, GameState, Question } from './types';
+import { DEFAULT_GAME_CONFIG } from './game-config';
 
 /**
  * Creates an initial game state with default values
  * @param allQuestions - Array of all available questions
+ * @param config - Rules to play with (defaults to the classic rules)
  * @returns A new GameState object
  */
 export function createInitialGameState(
-  allQuestions: Question[] = []
+  allQuestions: Question[] = [],
+  config: GameConfig = DEFAULT_GAME_CONFIG
 ): GameState {
   return {
     players: [],
+    teams: [],
+    departedPlayerIds: [],
     allQuestions,
     filteredQuestions: allQuestions,
     gameQuestions: [],
@@ -17,9 +22,13 @@ export function createInitialGameState(
     phase: 'setup',
     playerAnswers: [],
     playerBets: [],
+    finalWagers: [],
     scoreHistory: {},
-    roundsToPlay: 7,
+    config,
+    roundsToPlay: config.defaultRoundsToPlay,
     selectedLabels: [],
+    seed: null,
+    gameSeed: null,
   };
 }
 
@@ -35,7 +44,11 @@ export function validateGameState(state: GameState): string[] {
     errors.push('At least 2 players required');
   }
 
-  if (state.phase !== 'setup' && state.gameQuestions.length === 0) {
+  if (
+    state.phase !== 'setup' &&
+    state.phase !== 'question-selection' &&
+    state.gameQuestions.length === 0
+  ) {
     errors.push('No questions selected for game');
   }
 
@@ -4,21 +4,113 @@ export { WitsAndWagersEngine } from './game-engine';
 // Type definitions
 export type {
   Question,
+  QuestionTranslation,
   Player,
+  Team,
   PlayerAnswer,
   PlayerBet,
+  FinalWager,
+  Meeple,
   GamePhase,
   GameState,
+  GameAction,
+  GameConfig,
+  ScoringMode,
+  WinningRuleName,
+  BoardOverflow,
+  QuestionSelectionMode,
+  BetTimeoutFallback,
+  LateJoinScore,
   ScoringResult,
   RoundResult,
+  Viewer,
+  PublicQuestion,
+  GameStateView,
 } from './types';
 
+// What each participant may see
+export { getViewFor, getViewerSeatId, isRoundRevealed } from './views';
+
 // Factory functions
 export { createInitialGameState, validateGameState } from './game-state';
 
+// Rules
+export {
+  DEFAULT_GAME_CONFIG,
+  GAME_CONFIG_PRESETS,
+  validateGameConfig,
+} from './game-config';
+export type { GameConfigPresetName } from './game-config';
+
+export { FAMILY_MEEPLE_POINTS, areBetsHidden, redactBets } from './betting-manager';
+export {
+  WINNING_RULES,
+  DEFAULT_WINNING_RULE,
+  findWinningValue,
+} from './winning-rules';
+export type { WinningRule } from './winning-rules';
+
+// Teams
+export {
+  isTeamMode,
+  getCompetitors,
+  getActiveCompetitors,
+  getPlayerTeam,
+  validateTeams,
+} from './team-manager';
+
+// Players
+export { getLateJoinScore } from './player-manager';
+
+// Errors
+export {
+  GameError,
+  PhaseError,
+  NotReadyError,
+  InvalidMoveError,
+  isGameError,
+} from './errors';
+export type {
+  GameErrorCode,
+  GameErrorDetails,
+  PhaseErrorCode,
+  NotReadyErrorCode,
+  InvalidMoveErrorCode,
+} from './errors';
+
+// Phase timers
+export { PhaseTimer } from './phase-timer';
+
+// Action log
+export { applyAction, replayActions } from './action-log';
+
+// Persistence
+export {
+  GAME_STATE_SCHEMA_VERSION,
+  serializeGameState,
+  deserializeGameState,
+  migrateGameState,
+} from './serialization';
+export type { SerializedGameState, GameStateMigration } from './serialization';
+export { SavedGamesStore, SAVED_GAMES_STORAGE_KEY } from './saved-games';
+export type { SavedGameSummary, StorageLike } from './saved-games';
+
+// Seeded randomness
+export {
+  createSeededRandom,
+  generateSeed,
+  isValidSeed,
+  shuffle,
+} from './random';
+export type { RandomSource } from './random';
+
 // Utility functions (if needed directly)
 export {
   filterQuestionsByLabels,
   selectRandomQuestions,
   getAvailableLabels,
+  getQuestionById,
+  validateQuestions,
+  getSelectableLabels,
+  translateQuestions,
 } from './question-manager';
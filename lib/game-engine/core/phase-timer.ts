@@ -0,0 +1,68 @@
+/**
+ * Countdown for a timed phase. Time is read from an injectable clock so the
+ * timer can be driven with fake time in tests.
+ */
+export class PhaseTimer {
+  // Clock time the countdown reaches zero, while running
+  private deadline: number | null = null;
+  // Time left when paused
+  private pausedRemaining: number | null = null;
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Starts a new countdown, replacing any running one
+   * @param durationMs - Countdown length, or null for no countdown
+   */
+  start(durationMs: number | null): void {
+    this.deadline = durationMs === null ? null : this.now() + durationMs;
+    this.pausedRemaining = null;
+  }
+
+  /**
+   * Stops the countdown
+   */
+  stop(): void {
+    this.start(null);
+  }
+
+  /**
+   * Freezes the countdown until resume() is called
+   */
+  pause(): void {
+    if (this.deadline === null) return;
+    this.pausedRemaining = this.getRemaining();
+    this.deadline = null;
+  }
+
+  /**
+   * Continues a paused countdown with the time it had left
+   */
+  resume(): void {
+    if (this.pausedRemaining === null) return;
+    this.start(this.pausedRemaining);
+  }
+
+  /**
+   * Checks if the countdown is paused
+   */
+  isPaused(): boolean {
+    return this.pausedRemaining !== null;
+  }
+
+  /**
+   * Returns the milliseconds left (0 once expired), or null without a countdown
+   */
+  getRemaining(): number | null {
+    if (this.pausedRemaining !== null) return this.pausedRemaining;
+    if (this.deadline === null) return null;
+    return Math.max(0, this.deadline - this.now());
+  }
+
+  /**
+   * Checks if a running countdown has reached zero. Paused countdowns never expire.
+   */
+  isExpired(): boolean {
+    return this.deadline !== null && this.getRemaining() === 0;
+  }
+}
@@ -0,0 +1,141 @@
+import type { GameState, Player } from './types';
+import { getActiveCompetitors, isTeamMode } from './team-manager';
+import { InvalidMoveError, PhaseError } from './errors';
+
+/**
+ * Returns the starting score of a player joining a game in progress,
+ * following config.lateJoinScore
+ * @param state - Current game state
+ * @returns Zero, or the rounded average or lowest score of the players still in the game
+ */
+export function getLateJoinScore(state: GameState): number {
+  const scores = getActiveCompetitors(state).map((p) => p.score);
+  if (scores.length === 0) return 0;
+
+  switch (state.config.lateJoinScore) {
+    case 'average':
+      return Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+    case 'lowest':
+      return Math.min(...scores);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Adds a new player to the game. Players joining mid-game start with the
+ * config's late join score, and their score history is padded with nulls for
+ * the rounds they missed.
+ * @param state - Current game state
+ * @param playerId - Unique ID for the new player
+ * @param name - Player's name (will be trimmed)
+ * @returns New game state with the player appended
+ * @throws PhaseError if the game is over or teams are playing
+ * @throws InvalidMoveError if the name is empty
+ */
+export function addPlayer(
+  state: GameState,
+  playerId: string,
+  name: string
+): GameState {
+  if (state.phase === 'game-over') {
+    throw new PhaseError('WRONG_PHASE', 'Cannot add players after the game is over', {
+      phase: state.phase,
+      allowed: ['setup', 'question-selection', 'answering', 'betting', 'results'],
+    });
+  }
+
+  if (state.phase !== 'setup' && isTeamMode(state)) {
+    throw new PhaseError('TEAM_GAME_IN_PROGRESS', 'Cannot change players during a team game', {
+      phase: state.phase,
+    });
+  }
+
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new InvalidMoveError('EMPTY_NAME', 'Player name cannot be empty', {});
+  }
+
+  if (state.phase === 'setup') {
+    const newPlayer: Player = { id: playerId, name: trimmedName, score: 0 };
+    return {
+      ...state,
+      players: [...state.players, newPlayer],
+    };
+  }
+
+  const score = getLateJoinScore(state);
+  // History holds the starting score plus one entry per scored round
+  const missedEntries = Math.max(
+    0,
+    ...Object.values(state.scoreHistory).map((h) => h.length - 1)
+  );
+
+  return {
+    ...state,
+    players: [...state.players, { id: playerId, name: trimmedName, score }],
+    scoreHistory: {
+      ...state.scoreHistory,
+      [playerId]: [...Array<null>(missedEntries).fill(null), score],
+    },
+  };
+}
+
+/**
+ * Removes a player from the game and from their team. Mid-game, the player
+ * leaves instead: their score and history are kept, whatever they submitted
+ * for a round still being played is withdrawn, and they sit out every later round.
+ * @param state - Current game state
+ * @param playerId - ID of player to remove
+ * @returns New game state without the player, or with the player departed
+ * @throws PhaseError if the game is over or teams are playing
+ * @throws InvalidMoveError if the player does not exist
+ */
+export function removePlayer(state: GameState, playerId: string): GameState {
+  if (state.phase === 'game-over') {
+    throw new PhaseError('WRONG_PHASE', 'Cannot remove players after the game is over', {
+      phase: state.phase,
+      allowed: ['setup', 'question-selection', 'answering', 'betting', 'results'],
+    });
+  }
+
+  if (state.phase === 'setup') {
+    return {
+      ...state,
+      players: state.players.filter((p) => p.id !== playerId),
+      teams: state.teams.map((t) => ({
+        ...t,
+        memberIds: t.memberIds.filter((id) => id !== playerId),
+      })),
+    };
+  }
+
+  if (isTeamMode(state)) {
+    throw new PhaseError('TEAM_GAME_IN_PROGRESS', 'Cannot change players during a team game', {
+      phase: state.phase,
+    });
+  }
+
+  if (!state.players.some((p) => p.id === playerId)) {
+    throw new InvalidMoveError('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+  }
+
+  if (state.departedPlayerIds.includes(playerId)) {
+    return state;
+  }
+
+  return {
+    ...state,
+    departedPlayerIds: [...state.departedPlayerIds, playerId],
+    // Once betting starts the answer is on the board and stays there
+    playerAnswers:
+      state.phase === 'answering'
+        ? state.playerAnswers.filter((a) => a.playerId !== playerId)
+        : state.playerAnswers,
+    // Bets of a round already scored stay on the results
+    ...(state.phase === 'betting' && {
+      playerBets: state.playerBets.filter((b) => b.playerId !== playerId),
+      finalWagers: state.finalWagers.filter((w) => w.playerId !== playerId),
+    }),
+  };
+}
@@ -1,4 +1,6 @@
-import type { Question, GameState } from './types';
+import type { Question, QuestionTranslation, GameState } from './types';
+import { shuffle, isValidSeed, type RandomSource } from './random';
+import { InvalidMoveError, PhaseError } from './errors';
 
 /**
  * Filters questions by label tags
@@ -20,14 +22,15 @@ export function filterQuestionsByLabels(
  * Randomly selects N questions from an array
  * @param questions - Array of questions to select from
  * @param count - Number of questions to select
+ * @param random - Random source; pass a seeded one for reproducible draws
  * @returns Array of randomly selected questions
  */
 export function selectRandomQuestions(
   questions: Question[],
-  count: number
+  count: number,
+  random: RandomSource = Math.random
 ): Question[] {
-  const shuffled = [...questions].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
+  return shuffle(questions, random).slice(0, count);
 }
 
 /**
@@ -39,6 +42,101 @@ export function getAvailableLabels(questions: Question[]): string[] {
   return Array.from(new Set(questions.flatMap((q) => q.labels))).sort();
 }
 
+/**
+ * Checks whether two questions are the same, by ID when they have one.
+ * Saved games hold copies of questions, so references cannot be compared.
+ */
+function isSameQuestion(a: Question, b: Question): boolean {
+  return a.id !== undefined || b.id !== undefined
+    ? a.id === b.id
+    : a.question === b.question;
+}
+
+/**
+ * Returns the filtered questions not yet played this game
+ * @param state - Current game state
+ * @returns Questions that can still be drawn
+ */
+export function getUnusedQuestions(state: GameState): Question[] {
+  return state.filteredQuestions.filter(
+    (q) => !state.gameQuestions.some((used) => isSameQuestion(q, used))
+  );
+}
+
+/**
+ * Returns the categories that can be picked for the next round:
+ * labels of unused questions within the label filter
+ * @param state - Current game state
+ * @returns Sorted array of labels with at least one unused question
+ */
+export function getSelectableLabels(state: GameState): string[] {
+  return getAvailableLabels(getUnusedQuestions(state));
+}
+
+/**
+ * Finds a question by its stable ID
+ * @param questions - Array of questions to search
+ * @param id - Question ID
+ * @returns The question, or undefined if no question has that ID
+ */
+export function getQuestionById(
+  questions: Question[],
+  id: string
+): Question | undefined {
+  return questions.find((q) => q.id === id);
+}
+
+/**
+ * Shows a question bank in another language. Questions are matched to their
+ * translation by ID; untranslated questions and fields keep the original text,
+ * and labels stay the canonical IDs so label filters work in every language.
+ * @param questions - Question bank in its original language
+ * @param translations - Translated text of some or all of the questions
+ * @returns The questions, in the same order, with translated text where available
+ */
+export function translateQuestions(
+  questions: Question[],
+  translations: QuestionTranslation[]
+): Question[] {
+  const byId = new Map(translations.map((t) => [t.id, t]));
+
+  return questions.map((q) => {
+    const translation = q.id === undefined ? undefined : byId.get(q.id);
+    if (!translation) return q;
+
+    const translated: Question = { ...q, question: translation.question };
+    if (translation.unit !== undefined) translated.unit = translation.unit;
+    if (translation.source !== undefined) translated.source = translation.source;
+    if (translation.explanation !== undefined) translated.explanation = translation.explanation;
+    return translated;
+  });
+}
+
+/**
+ * Validates a question bank and returns array of error messages
+ * @param questions - Array of questions to validate
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateQuestions(questions: Question[]): string[] {
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  for (const q of questions) {
+    if (q.id !== undefined) {
+      if (seenIds.has(q.id)) {
+        errors.push(`Duplicate question id: ${q.id}`);
+      }
+      seenIds.add(q.id);
+    }
+
+    if (q.precision !== undefined && !Number.isInteger(q.precision)) {
+      errors.push(`Precision must be a whole number: ${q.id ?? q.question}`);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Updates game state with filtered questions based on selected labels
  * @param state - Current game state
@@ -60,3 +158,93 @@ export function updateQuestionLabels(
     filteredQuestions,
   };
 }
+
+/**
+ * Sets the seed used to draw questions when the game starts
+ * @param state - Current game state (must be in 'setup' phase)
+ * @param seed - Unsigned 32-bit integer, or null for a fresh seed each game
+ * @returns New game state with updated seed
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if the seed is invalid
+ */
+export function setSeed(state: GameState, seed: number | null): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change seed during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  if (seed !== null && !isValidSeed(seed)) {
+    throw new InvalidMoveError('INVALID_SEED', 'Invalid seed', { seed });
+  }
+
+  return { ...state, seed };
+}
+
+/**
+ * Replaces the question bank and re-applies the current label filter
+ * @param state - Current game state (must be in 'setup' phase)
+ * @param questions - New array of questions
+ * @returns New game state with updated allQuestions and filteredQuestions
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if the questions are invalid
+ */
+export function updateQuestions(
+  state: GameState,
+  questions: Question[]
+): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only update questions during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  const errors = validateQuestions(questions);
+  if (errors.length > 0) {
+    throw new InvalidMoveError('INVALID_QUESTIONS', `Invalid questions: ${errors.join(', ')}`, {
+      problems: errors,
+    });
+  }
+
+  return {
+    ...state,
+    allQuestions: questions,
+    filteredQuestions: filterQuestionsByLabels(questions, state.selectedLabels),
+  };
+}
+
+/**
+ * Checks whether questions are picked by category each round
+ * instead of drawn when the game starts
+ * @param state - Current game state
+ * @returns True if rounds start in the 'question-selection' phase
+ */
+export function isCategoryPickMode(state: GameState): boolean {
+  return state.config.questionSelection !== 'random';
+}
+
+/**
+ * Returns the number of rounds in the current game
+ * @param state - Current game state
+ * @returns Rounds to play; questions are only drawn up front in random mode
+ */
+export function getTotalRounds(state: GameState): number {
+  return isCategoryPickMode(state) ? state.roundsToPlay : state.gameQuestions.length;
+}
+
+/**
+ * Returns the question for the current round
+ * @param state - Current game state
+ * @returns The current question or null if the index is out of range
+ */
+export function getCurrentQuestion(state: GameState): Question | null {
+  if (
+    state.currentQuestionIndex < 0 ||
+    state.currentQuestionIndex >= state.gameQuestions.length
+  ) {
+    return null;
+  }
+  return state.gameQuestions[state.currentQuestionIndex];
+}
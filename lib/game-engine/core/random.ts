@@ -0,0 +1,56 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+const MAX_SEED = 0xffffffff;
+
+/**
+ * Checks that a seed is a valid unsigned 32-bit integer
+ */
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
+
+/**
+ * Generates a fresh random seed
+ * @returns Unsigned 32-bit integer seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Creates a deterministic random source from a seed (mulberry32).
+ * The same seed always yields the same sequence on every platform.
+ * @param seed - Unsigned 32-bit integer seed
+ * @returns Random source producing numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a shuffled copy using the unbiased Fisher–Yates algorithm
+ * @param items - Items to shuffle (not modified)
+ * @param random - Random source (defaults to Math.random)
+ * @returns New array with the items in random order
+ */
+export function shuffle<T>(
+  items: readonly T[],
+  random: RandomSource = Math.random
+): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -1,43 +1,174 @@
-import type { GameState, GamePhase } from './types';
-import { selectRandomQuestions } from './question-manager';
+import type { GameState, GamePhase, Player, ScoringResult } from './types';
+import {
+  selectRandomQuestions,
+  getCurrentQuestion,
+  getUnusedQuestions,
+  getSelectableLabels,
+  isCategoryPickMode,
+  getTotalRounds,
+} from './question-manager';
+import { canFinishAnswering } from './answer-manager';
+import { canFinishBetting, placeBet } from './betting-manager';
+import { SPECIAL_SLOT_INDEX } from './betting-board';
+import { InvalidMoveError, NotReadyError, PhaseError } from './errors';
+import { calculateRoundScores, applyScores } from './scoring-engine';
+import { createSeededRandom, generateSeed } from './random';
+import {
+  getActiveCompetitors,
+  getCompetitors,
+  updateCompetitorScores,
+  validateTeams,
+} from './team-manager';
 
 /**
- * Starts the game by selecting questions and initializing score history
+ * Sets the number of rounds to play
  * @param state - Current game state (must be in 'setup' phase)
- * @returns New game state in 'answering' phase with questions selected
- * @throws Error if validation fails
+ * @param rounds - Number of rounds (must be positive)
+ * @returns New game state with updated roundsToPlay
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if rounds is not positive
  */
-export function startGame(state: GameState): GameState {
+export function setRoundsToPlay(state: GameState, rounds: number): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change rounds during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  if (rounds < 1) {
+    throw new InvalidMoveError('INVALID_ROUNDS', 'Must have at least 1 round', { rounds });
+  }
+
+  return { ...state, roundsToPlay: rounds };
+}
+
+/**
+ * Starts the game by selecting questions and initializing score history.
+ * When categories are picked each round, no questions are drawn yet and the
+ * game starts in the 'question-selection' phase.
+ * @param state - Current game state (must be in 'setup' phase)
+ * @param seed - Seed for drawing questions; defaults to the configured seed,
+ *   or a fresh one if none is configured
+ * @returns New game state in 'answering' phase with questions selected,
+ *   or in 'question-selection' phase
+ * @throws NotReadyError if there are too few players, invalid teams or too few questions
+ */
+export function startGame(
+  state: GameState,
+  seed: number = state.seed ?? generateSeed()
+): GameState {
   if (state.players.length < 2) {
-    throw new Error('At least 2 players required');
+    throw new NotReadyError('NOT_ENOUGH_PLAYERS', 'At least 2 players required', {
+      available: state.players.length,
+      needed: 2,
+    });
+  }
+
+  const teamErrors = validateTeams(state);
+  if (teamErrors.length > 0) {
+    throw new NotReadyError('INVALID_TEAMS', teamErrors[0], { problems: teamErrors });
   }
 
   if (state.filteredQuestions.length === 0) {
-    throw new Error('No questions available');
+    throw new NotReadyError('NO_QUESTIONS', 'No questions available', {
+      labels: state.selectedLabels,
+    });
   }
 
   if (state.filteredQuestions.length < state.roundsToPlay) {
-    throw new Error(
-      `Not enough questions (${state.filteredQuestions.length} available, ${state.roundsToPlay} needed)`
+    throw new NotReadyError(
+      'NOT_ENOUGH_QUESTIONS',
+      `Not enough questions (${state.filteredQuestions.length} available, ${state.roundsToPlay} needed)`,
+      { available: state.filteredQuestions.length, needed: state.roundsToPlay }
     );
   }
 
-  const gameQuestions = selectRandomQuestions(
-    state.filteredQuestions,
-    state.roundsToPlay
-  );
+  const gameQuestions = isCategoryPickMode(state)
+    ? []
+    : selectRandomQuestions(state.filteredQuestions, state.roundsToPlay, createSeededRandom(seed));
 
-  // Initialize score history with starting score (0) for each player
+  // Initialize score history with starting score (0) for each player (or team)
   const initialHistory: Record<string, number[]> = {};
-  state.players.forEach((player) => {
+  getCompetitors(state).forEach((player) => {
     initialHistory[player.id] = [0];
   });
 
   return {
     ...state,
     gameQuestions,
+    gameSeed: seed,
     currentQuestionIndex: 0,
     scoreHistory: initialHistory,
+    phase: isCategoryPickMode(state) ? 'question-selection' : 'answering',
+  };
+}
+
+/**
+ * Returns who picks the next category: the leader or the player in last
+ * place, depending on the config. Ties go to whoever comes first in turn order.
+ * @param state - Current game state
+ * @returns The picking player (or team), or null when categories are not picked
+ */
+export function getCategoryPicker(state: GameState): Player | null {
+  if (!isCategoryPickMode(state)) return null;
+
+  const competitors = getActiveCompetitors(state);
+  const pickLeader = state.config.questionSelection === 'leader-picks';
+
+  return competitors.reduce<Player | null>((picker, p) => {
+    if (!picker) return p;
+    const isBetter = pickLeader ? p.score > picker.score : p.score < picker.score;
+    return isBetter ? p : picker;
+  }, null);
+}
+
+/**
+ * Picks the category for the current round and draws an unused question from it.
+ * The draw is seeded by the game seed and round, so replays draw the same question.
+ * @param state - Current game state (must be in 'question-selection' phase)
+ * @param playerId - ID of the player (or team) picking
+ * @param label - The chosen category
+ * @returns New game state in 'answering' phase with the question added
+ * @throws PhaseError if not in question-selection phase
+ * @throws InvalidMoveError if the player is not the picker or the category
+ *   has no unused questions
+ */
+export function selectCategory(
+  state: GameState,
+  playerId: string,
+  label: string
+): GameState {
+  if (state.phase !== 'question-selection') {
+    throw new PhaseError(
+      'WRONG_PHASE',
+      'Cannot select category outside question-selection phase',
+      { phase: state.phase, allowed: ['question-selection'] }
+    );
+  }
+
+  const pickerId = getCategoryPicker(state)?.id ?? null;
+  if (pickerId !== playerId) {
+    throw new InvalidMoveError(
+      'NOT_PICKING_PLAYER',
+      'Only the picking player can select the category',
+      { playerId, pickerId }
+    );
+  }
+
+  if (!getSelectableLabels(state).includes(label)) {
+    throw new InvalidMoveError('CATEGORY_EXHAUSTED', 'Category has no unused questions', {
+      label,
+    });
+  }
+
+  const candidates = getUnusedQuestions(state).filter((q) => q.labels.includes(label));
+  const random = createSeededRandom((state.gameSeed ?? 0) + state.currentQuestionIndex);
+  const [question] = selectRandomQuestions(candidates, 1, random);
+
+  return {
+    ...state,
+    gameQuestions: [...state.gameQuestions, question],
     phase: 'answering',
   };
 }
@@ -52,42 +183,178 @@ export function advanceToPhase(state: GameState, phase: GamePhase): GameState {
   return { ...state, phase };
 }
 
+/**
+ * Ends the answering phase and moves to betting
+ * @param state - Current game state
+ * @returns New game state in 'betting' phase
+ * @throws NotReadyError if not all players have answered
+ */
+export function finishAnswering(state: GameState): GameState {
+  if (!canFinishAnswering(state)) {
+    throw new NotReadyError('ANSWERS_MISSING', 'All players must submit answers', {
+      playerIds: getActiveCompetitors(state)
+        .filter((p) => !state.playerAnswers.some((a) => a.playerId === p.id))
+        .map((p) => p.id),
+    });
+  }
+  return advanceToPhase(state, 'betting');
+}
+
+/**
+ * Scores the current round without modifying state
+ * @param state - Current game state
+ * @returns ScoringResult for the current question
+ * @throws NotReadyError if not all players have placed bets
+ * @throws PhaseError if there is no current question
+ */
+export function scoreCurrentRound(state: GameState): ScoringResult {
+  if (!canFinishBetting(state)) {
+    const required = state.config.maxBetsPerPlayer;
+    throw new NotReadyError('BETS_MISSING', `All players must place ${required} bets`, {
+      playerIds: getActiveCompetitors(state)
+        .filter(
+          (p) =>
+            (state.playerBets.find((b) => b.playerId === p.id)?.betOnSlotIndices.length ?? 0) <
+            required
+        )
+        .map((p) => p.id),
+      required,
+    });
+  }
+
+  return scoreRound(state);
+}
+
+// Scores the round with whatever bets have been placed
+function scoreRound(state: GameState): ScoringResult {
+  const currentQuestion = getCurrentQuestion(state);
+  if (!currentQuestion) {
+    throw new PhaseError('NO_CURRENT_QUESTION', 'No current question', {
+      round: state.currentQuestionIndex,
+    });
+  }
+
+  return calculateRoundScores(state, currentQuestion.answer);
+}
+
+/**
+ * Ends the betting phase, applies the round's scores and moves to results
+ * @param state - Current game state
+ * @returns New game state in 'results' phase with scores applied
+ * @throws NotReadyError if not all players have placed bets
+ * @throws PhaseError if there is no current question
+ */
+export function finishBetting(state: GameState): GameState {
+  const scoringResult = scoreCurrentRound(state);
+  return advanceToPhase(applyScores(state, scoringResult), 'results');
+}
+
+/**
+ * Returns the time limit of a phase from the config
+ * @param state - Current game state
+ * @param phase - Phase to look up
+ * @returns Milliseconds allowed, or null if the phase is not timed
+ */
+export function getPhaseTimeLimitMs(state: GameState, phase: GamePhase): number | null {
+  const seconds =
+    phase === 'answering'
+      ? state.config.answerTimeLimitSeconds
+      : phase === 'betting'
+        ? state.config.betTimeLimitSeconds
+        : null;
+  return seconds === null ? null : seconds * 1000;
+}
+
+/**
+ * Ends the current timed phase when its countdown runs out.
+ * Answering moves on to betting; players who have not answered have no answer
+ * this round. Betting is scored with the chips placed so far, after applying
+ * config.betTimeoutFallback to the chips not placed.
+ * @param state - Current game state (must be in 'answering' or 'betting' phase)
+ * @returns New game state in 'betting' or 'results' phase
+ * @throws PhaseError if the phase is not timed
+ */
+export function expirePhase(state: GameState): GameState {
+  if (getPhaseTimeLimitMs(state, state.phase) === null) {
+    throw new PhaseError('NO_TIME_LIMIT', 'Current phase has no time limit', {
+      phase: state.phase,
+    });
+  }
+
+  if (state.phase === 'answering') {
+    return advanceToPhase(state, 'betting');
+  }
+
+  let betState = state;
+  if (state.config.betTimeoutFallback === 'special-slot') {
+    for (const competitor of getActiveCompetitors(state)) {
+      const placed =
+        state.playerBets.find((b) => b.playerId === competitor.id)?.betOnSlotIndices.length ?? 0;
+      for (let i = placed; i < state.config.maxBetsPerPlayer; i++) {
+        betState = placeBet(betState, competitor.id, SPECIAL_SLOT_INDEX);
+      }
+    }
+  }
+
+  return advanceToPhase(applyScores(betState, scoreRound(betState)), 'results');
+}
+
+/**
+ * Checks whether the game ends after the current round: either it was the
+ * last question or a player has reached the config's target score
+ * @param state - Current game state
+ * @returns True if nextRound will end the game
+ */
+export function isFinalRound(state: GameState): boolean {
+  const { targetScore } = state.config;
+  const reachedTarget =
+    targetScore !== null && getCompetitors(state).some((p) => p.score >= targetScore);
+
+  return state.currentQuestionIndex + 1 >= getTotalRounds(state) || reachedTarget;
+}
+
 /**
  * Advances to the next round or ends the game
  * @param state - Current game state
- * @returns New game state for next round or game-over
+ * @returns New game state for next round (in 'question-selection' phase when
+ *   categories are picked) or game-over
  */
 export function nextRound(state: GameState): GameState {
-  const nextIndex = state.currentQuestionIndex + 1;
-
-  if (nextIndex >= state.gameQuestions.length) {
+  if (isFinalRound(state)) {
     return { ...state, phase: 'game-over' };
   }
 
+  const nextIndex = state.currentQuestionIndex + 1;
+
   return {
     ...state,
     currentQuestionIndex: nextIndex,
     playerAnswers: [],
     playerBets: [],
-    phase: 'answering',
+    finalWagers: [],
+    phase: isCategoryPickMode(state) ? 'question-selection' : 'answering',
   };
 }
 
 /**
- * Resets the game to setup phase, preserving players but clearing scores
+ * Resets the game to setup phase, preserving players but clearing scores.
+ * Players who left mid-game are removed.
  * @param state - Current game state
  * @returns New game state reset to setup
  */
 export function resetGame(state: GameState): GameState {
-  const resetPlayers = state.players.map((p) => ({ ...p, score: 0 }));
-
   return {
-    ...state,
-    players: resetPlayers,
+    ...updateCompetitorScores(state, () => 0),
+    players: state.players
+      .filter((p) => !state.departedPlayerIds.includes(p.id))
+      .map((p) => ({ ...p, score: 0 })),
+    departedPlayerIds: [],
     currentQuestionIndex: 0,
     playerAnswers: [],
     playerBets: [],
+    finalWagers: [],
     gameQuestions: [],
+    gameSeed: null,
     scoreHistory: {},
     phase: 'setup',
   };
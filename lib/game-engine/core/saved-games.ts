@@ -0,0 +1,217 @@
+import type { GamePhase } from './types';
+import { deserializeGameState } from './serialization';
+import { getCompetitors } from './team-manager';
+
+/**
+ * Minimal key-value storage interface (satisfied by window.localStorage)
+ */
+export interface StorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Overview of a saved game for listing, derived from its stored state
+ */
+export interface SavedGameSummary {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  phase: GamePhase;
+  currentRound: number; // 0-indexed
+  totalRounds: number;
+  leaders: { name: string; score: number }[]; // players tied for first place
+}
+
+// What is persisted per saved game
+interface SavedGameRecord {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  serialized: string; // output of serializeGameState
+}
+
+export const SAVED_GAMES_STORAGE_KEY = 'wits-and-wagers:saved-games';
+
+/**
+ * Named saved games kept in a key-value storage.
+ * Games are stored in the engine's versioned serialization format, so older
+ * saves are migrated when they are listed or loaded.
+ */
+export class SavedGamesStore {
+  constructor(
+    private storage: StorageLike,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Returns summaries of all saved games, most recently updated first.
+   * Saves that can no longer be read are skipped.
+   */
+  list(): SavedGameSummary[] {
+    return Object.values(this.readRecords())
+      .flatMap((record) => {
+        try {
+          return [summarize(record)];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Checks if a game is saved under the given name
+   */
+  has(name: string): boolean {
+    return findRecord(this.readRecords(), name.trim()) !== undefined;
+  }
+
+  /**
+   * Creates or overwrites a saved game, keeping the original creation time
+   * @param name - Name to save under (will be trimmed)
+   * @param serialized - Serialized state from WitsAndWagersEngine.serialize()
+   * @returns Summary of the saved game
+   * @throws Error if the name is empty or the state cannot be read
+   */
+  save(name: string, serialized: string): SavedGameSummary {
+    const trimmedName = validateName(name);
+    deserializeGameState(serialized);
+
+    const records = this.readRecords();
+    const timestamp = this.now();
+    const record: SavedGameRecord = {
+      name: trimmedName,
+      createdAt: findRecord(records, trimmedName)?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+      serialized,
+    };
+
+    this.writeRecords({ ...records, [trimmedName]: record });
+    return summarize(record);
+  }
+
+  /**
+   * Returns the serialized state of a saved game
+   * @param name - Name of the saved game
+   * @returns Serialized state to pass to WitsAndWagersEngine.restore()
+   * @throws Error if no game is saved under that name
+   */
+  load(name: string): string {
+    return this.getRecord(this.readRecords(), name).serialized;
+  }
+
+  /**
+   * Renames a saved game
+   * @throws Error if the game doesn't exist or the new name is taken or empty
+   */
+  rename(name: string, newName: string): void {
+    const records = this.readRecords();
+    const record = this.getRecord(records, name);
+    const trimmedNewName = validateName(newName);
+    if (trimmedNewName === record.name) return;
+    if (findRecord(records, trimmedNewName)) {
+      throw new Error(`Saved game "${trimmedNewName}" already exists`);
+    }
+
+    const updated = { ...records };
+    delete updated[record.name];
+    this.writeRecords({
+      ...updated,
+      [trimmedNewName]: { ...record, name: trimmedNewName, updatedAt: this.now() },
+    });
+  }
+
+  /**
+   * Copies a saved game under a new name so it can be continued separately
+   * @throws Error if the game doesn't exist or the new name is taken or empty
+   */
+  duplicate(name: string, newName: string): SavedGameSummary {
+    const records = this.readRecords();
+    const record = this.getRecord(records, name);
+    const trimmedNewName = validateName(newName);
+    if (findRecord(records, trimmedNewName)) {
+      throw new Error(`Saved game "${trimmedNewName}" already exists`);
+    }
+
+    const timestamp = this.now();
+    const copy: SavedGameRecord = {
+      name: trimmedNewName,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      serialized: record.serialized,
+    };
+    this.writeRecords({ ...records, [trimmedNewName]: copy });
+    return summarize(copy);
+  }
+
+  /**
+   * Deletes a saved game (no-op if it doesn't exist)
+   */
+  delete(name: string): void {
+    const updated = this.readRecords();
+    delete updated[name.trim()];
+    this.writeRecords(updated);
+  }
+
+  private getRecord(
+    records: Record<string, SavedGameRecord>,
+    name: string
+  ): SavedGameRecord {
+    const record = findRecord(records, name.trim());
+    if (!record) {
+      throw new Error(`Saved game "${name.trim()}" not found`);
+    }
+    return record;
+  }
+
+  private readRecords(): Record<string, SavedGameRecord> {
+    const raw = this.storage.getItem(SAVED_GAMES_STORAGE_KEY);
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private writeRecords(records: Record<string, SavedGameRecord>): void {
+    this.storage.setItem(SAVED_GAMES_STORAGE_KEY, JSON.stringify(records));
+  }
+}
+
+// Names come from users, so "constructor" or "__proto__" must not find Object's members
+function findRecord(
+  records: Record<string, SavedGameRecord>,
+  name: string
+): SavedGameRecord | undefined {
+  return Object.prototype.hasOwnProperty.call(records, name) ? records[name] : undefined;
+}
+
+function validateName(name: string): string {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Saved game name cannot be empty');
+  }
+  return trimmedName;
+}
+
+function summarize(record: SavedGameRecord): SavedGameSummary {
+  const state = deserializeGameState(record.serialized);
+  const competitors = getCompetitors(state);
+  const topScore = Math.max(...competitors.map((p) => p.score));
+  const leaders = competitors
+    .filter((p) => p.score === topScore)
+    .map((p) => ({ name: p.name, score: p.score }));
+
+  return {
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    phase: state.phase,
+    currentRound: state.currentQuestionIndex,
+    totalRounds: state.roundsToPlay,
+    leaders,
+  };
+}
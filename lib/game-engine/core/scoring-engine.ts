@@ -1,15 +1,21 @@
-import type { GameState, ScoringResult, PlayerAnswer } from './types';
-import { createBettingBoard, getWinningSlotIndex, getSlotPayout, SPECIAL_SLOT_INDEX } from './betting-board';
+import type { GameState, ScoringResult, PlayerAnswer, WinningRuleName } from './types';
+import { createBettingBoard, getWinningSlotIndex, SPECIAL_SLOT_INDEX } from './betting-board';
+import { FAMILY_MEEPLE_POINTS } from './betting-manager';
+import { DEFAULT_WINNING_RULE, findWinningValue } from './winning-rules';
+import { getActiveCompetitors, updateCompetitorScores } from './team-manager';
 
 /**
- * Determines the winning answer based on the "closest without going over" rule
+ * Determines the winning answer under a winning rule
+ * (by default "closest without going over")
  * @param answers - Array of player answers
  * @param correctAnswer - The correct answer to the question
+ * @param winningRule - Rule used to pick the closest answer
  * @returns Object containing the winning answer, its index in sorted array, and sorted answers
  */
 export function calculateWinningAnswer(
   answers: PlayerAnswer[],
-  correctAnswer: number
+  correctAnswer: number,
+  winningRule: WinningRuleName = DEFAULT_WINNING_RULE
 ): {
   winningAnswer: PlayerAnswer | null;
   winningIndex: number;
@@ -21,12 +27,16 @@ export function calculateWinningAnswer(
     return { winningAnswer: null, winningIndex: -1, sortedAnswers };
   }
 
-  // Find closest without going over
-  const validAnswers = sortedAnswers.filter((a) => a.answer <= correctAnswer);
+  const winningValue = findWinningValue(
+    sortedAnswers.map((a) => a.answer),
+    correctAnswer,
+    winningRule
+  );
+  // If all over ("Menor que todas" wins), the lowest answer is reported
   const winningAnswer =
-    validAnswers.length > 0
-      ? validAnswers[validAnswers.length - 1]
-      : sortedAnswers[0]; // If all over, lowest wins
+    winningValue === null
+      ? sortedAnswers[0]
+      : sortedAnswers.filter((a) => a.answer === winningValue).pop()!;
 
   const winningIndex = sortedAnswers.findIndex(
     (a) =>
@@ -39,10 +49,14 @@ export function calculateWinningAnswer(
 /**
  * Calculates points awarded to each player for the current round
  * 
- * Scoring rules:
- * - 3 points for submitting the winning answer
+ * Scoring rules (amounts come from state.config):
+ * - correctAnswerPoints (3) for submitting the winning answer
  * - Bet payouts based on slot multipliers (2:1 to 6:1)
- * - Round bonus (= round index) added only if player scored > 0 points
+ * - Bankroll mode: wagers on the winning slot pay wager × payout,
+ *   wagers on any other slot are lost
+ * - Family mode: no odds, a meeple on the winning slot scores 2 (big) or 1 (small)
+ * - Final wager (last round only): won at the winning slot's odds, otherwise lost
+ * - Round bonus (= round index × roundBonusPerRound) added only if player scored > 0 points
  *
  * @param state - Current game state
  * @param correctAnswer - The correct answer to the current question
@@ -54,35 +68,59 @@ export function calculateRoundScores(
 ): ScoringResult {
   const { winningAnswer, sortedAnswers } = calculateWinningAnswer(
     state.playerAnswers,
-    correctAnswer
+    correctAnswer,
+    state.config.winningRule
   );
 
   // Build the betting board to determine winning slot
-  const bettingBoard = createBettingBoard(state.playerAnswers);
-  const winningSlotIndex = getWinningSlotIndex(bettingBoard, correctAnswer);
-  const winningPayout = getSlotPayout(winningSlotIndex);
+  const bettingBoard = createBettingBoard(state.playerAnswers, state.config);
+  const winningSlotIndex = getWinningSlotIndex(
+    bettingBoard,
+    correctAnswer,
+    state.config.winningRule
+  );
+  // Read from the board itself, which may have been expanded past the config
+  const winningPayout = bettingBoard[winningSlotIndex]?.payout ?? 0;
 
-  const roundBonus = state.currentQuestionIndex;
+  const roundBonus = state.currentQuestionIndex * state.config.roundBonusPerRound;
   const pointsAwarded: Record<string, number> = {};
 
-  state.players.forEach((player) => {
+  getActiveCompetitors(state).forEach((player) => {
     let points = 0;
 
     // Points for winning answer (only if not "Menor que todas" slot)
     if (winningSlotIndex !== SPECIAL_SLOT_INDEX && winningAnswer) {
       const playerAnswer = state.playerAnswers.find((a) => a.playerId === player.id);
       if (playerAnswer?.answer === winningAnswer.answer) {
-        points += 3;
+        points += state.config.correctAnswerPoints;
       }
     }
 
     // Points for correct bets (based on slot payout)
     const playerBet = state.playerBets.find((b) => b.playerId === player.id);
     if (playerBet) {
-      const winningBetsCount = playerBet.betOnSlotIndices.filter(
-        (slotIdx: number) => slotIdx === winningSlotIndex
-      ).length;
-      points += winningBetsCount * winningPayout;
+      playerBet.betOnSlotIndices.forEach((slotIdx: number, i: number) => {
+        const wager = playerBet.wagers?.[i] ?? 0;
+        const meeple = playerBet.meeples?.[i];
+        if (meeple) {
+          if (slotIdx === winningSlotIndex) {
+            points += FAMILY_MEEPLE_POINTS[meeple];
+          }
+        } else if (slotIdx === winningSlotIndex) {
+          points += winningPayout + wager * winningPayout;
+        } else {
+          points -= wager;
+        }
+      });
+    }
+
+    // Final wager on top of the chips
+    const finalWager = state.finalWagers.find((w) => w.playerId === player.id);
+    if (finalWager) {
+      points +=
+        finalWager.slotIndex === winningSlotIndex
+          ? finalWager.amount * winningPayout
+          : -finalWager.amount;
     }
 
     // Round bonus (only if player scored points)
@@ -102,22 +140,18 @@ export function calculateRoundScores(
 }
 
 /**
- * Applies calculated scores to player state and updates score history
+ * Applies calculated scores to player (or team) state and updates score history
  * @param state - Current game state
  * @param scoringResult - Result from calculateRoundScores
- * @returns New game state with updated player scores and score history
+ * @returns New game state with updated scores and score history
  */
 export function applyScores(
   state: GameState,
   scoringResult: ScoringResult
 ): GameState {
-  const updatedPlayers = state.players.map((player) => ({
-    ...player,
-    score: player.score + (scoringResult.pointsAwarded[player.id] || 0),
-  }));
-
-  const updatedHistory: Record<string, number[]> = {};
-  state.players.forEach((player) => {
+  // Players who left keep their history but get no new points
+  const updatedHistory: Record<string, (number | null)[]> = { ...state.scoreHistory };
+  getActiveCompetitors(state).forEach((player) => {
     const newScore = player.score + (scoringResult.pointsAwarded[player.id] || 0);
     updatedHistory[player.id] = [
       ...(state.scoreHistory[player.id] || []),
@@ -126,8 +160,10 @@ export function applyScores(
   });
 
   return {
-    ...state,
-    players: updatedPlayers,
+    ...updateCompetitorScores(
+      state,
+      (player) => player.score + (scoringResult.pointsAwarded[player.id] || 0)
+    ),
     scoreHistory: updatedHistory,
   };
 }
@@ -0,0 +1,175 @@
+import type { GameState } from './types';
+
+/**
+ * Current schema version of serialized game states.
+ * Bump this whenever GameState changes shape and add a matching migration.
+ */
+export const GAME_STATE_SCHEMA_VERSION = 13;
+
+/**
+ * Envelope written to storage: the schema version the state was saved with
+ * plus the raw state at that version
+ */
+export interface SerializedGameState {
+  schemaVersion: number;
+  state: GameState;
+}
+
+/**
+ * Upgrades a raw state object from one schema version to the next
+ */
+export type GameStateMigration = (
+  state: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * MIGRATIONS[n] turns a version n state into a version n + 1 state.
+ */
+export const MIGRATIONS: Record<number, GameStateMigration> = {
+  // v2: seeded question selection
+  1: (state) => ({ ...state, seed: null, gameSeed: null }),
+  // v3: configurable rules; older saves were always played with the classic ones
+  2: (state) => ({
+    ...state,
+    config: {
+      maxBetsPerPlayer: 2,
+      specialSlotPayout: 6,
+      answerSlotPayouts: [5, 4, 3, 2, 3, 4, 5],
+      correctAnswerPoints: 3,
+      roundBonusPerRound: 1,
+      defaultRoundsToPlay: 7,
+    },
+  }),
+  // v4: bankroll scoring mode
+  3: (state) => ({
+    ...state,
+    config: { ...(state.config as object), scoringMode: 'simplified' },
+  }),
+  // v5: target score end condition
+  4: (state) => ({
+    ...state,
+    config: { ...(state.config as object), targetScore: null },
+  }),
+  // v6: pluggable winning-answer rule
+  5: (state) => ({
+    ...state,
+    config: { ...(state.config as object), winningRule: 'closest-without-going-over' },
+  }),
+  // v7: board overflow strategy
+  6: (state) => ({
+    ...state,
+    config: { ...(state.config as object), boardOverflow: 'merge' },
+  }),
+  // v8: team mode
+  7: (state) => ({ ...state, teams: [] }),
+  // v9: category picking
+  8: (state) => ({
+    ...state,
+    config: { ...(state.config as object), questionSelection: 'random' },
+  }),
+  // v10: phase timers
+  9: (state) => ({
+    ...state,
+    config: {
+      ...(state.config as object),
+      answerTimeLimitSeconds: null,
+      betTimeLimitSeconds: null,
+      betTimeoutFallback: 'none',
+    },
+  }),
+  // v11: final round wager
+  10: (state) => ({
+    ...state,
+    finalWagers: [],
+    config: { ...(state.config as object), finalWager: false },
+  }),
+  // v12: joining and leaving mid-game
+  11: (state) => ({
+    ...state,
+    departedPlayerIds: [],
+    config: { ...(state.config as object), lateJoinScore: 'zero' },
+  }),
+  // v13: secret betting
+  12: (state) => ({
+    ...state,
+    config: { ...(state.config as object), secretBetting: false },
+  }),
+};
+
+/**
+ * Serializes a game state to a versioned JSON string
+ * @param state - The game state to serialize
+ * @returns JSON string containing schema version and state
+ */
+export function serializeGameState(state: GameState): string {
+  const envelope: SerializedGameState = {
+    schemaVersion: GAME_STATE_SCHEMA_VERSION,
+    state,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Runs migrations on a raw state until it reaches the target version
+ * @param state - Raw state object saved at fromVersion
+ * @param fromVersion - Schema version the state was saved with
+ * @param migrations - Migrations keyed by source version
+ * @param targetVersion - Version to migrate to
+ * @returns The migrated state
+ * @throws Error if the version is newer than supported or a migration is missing
+ */
+export function migrateGameState(
+  state: Record<string, unknown>,
+  fromVersion: number,
+  migrations: Record<number, GameStateMigration> = MIGRATIONS,
+  targetVersion: number = GAME_STATE_SCHEMA_VERSION
+): Record<string, unknown> {
+  if (fromVersion > targetVersion) {
+    throw new Error(
+      `Unsupported save version ${fromVersion} (latest is ${targetVersion})`
+    );
+  }
+
+  let migrated = state;
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Parses a serialized game state, migrating it to the current schema
+ * @param serialized - JSON string from serializeGameState
+ * @returns The restored game state
+ * @throws Error if the data is malformed or from an unsupported version
+ */
+export function deserializeGameState(serialized: string): GameState {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(serialized);
+  } catch {
+    throw new Error('Invalid saved game');
+  }
+
+  if (
+    typeof envelope !== 'object' ||
+    envelope === null ||
+    typeof (envelope as SerializedGameState).schemaVersion !== 'number' ||
+    typeof (envelope as SerializedGameState).state !== 'object' ||
+    (envelope as SerializedGameState).state === null
+  ) {
+    throw new Error('Invalid saved game');
+  }
+
+  const { schemaVersion, state } = envelope as {
+    schemaVersion: number;
+    state: Record<string, unknown>;
+  };
+
+  return migrateGameState(state, schemaVersion) as unknown as GameState;
+}
@@ -0,0 +1,187 @@
+import type { GameState, Player, Team } from './types';
+import { InvalidMoveError, PhaseError } from './errors';
+
+/**
+ * Checks whether the game is played in teams (any team has been created)
+ * @param state - Current game state
+ * @returns True if answers, bets and scores belong to teams
+ */
+export function isTeamMode(state: GameState): boolean {
+  return state.teams.length > 0;
+}
+
+/**
+ * Returns whoever answers, bets and scores: the teams in team mode,
+ * otherwise the individual players. Answers, bets and score history are
+ * keyed by these IDs.
+ * @param state - Current game state
+ * @returns Teams or players
+ */
+export function getCompetitors(state: GameState): Player[] {
+  return isTeamMode(state) ? state.teams : state.players;
+}
+
+/**
+ * Returns the competitors still playing: everyone but players who left mid-game.
+ * Only they answer, bet and score in the current and future rounds.
+ * @param state - Current game state
+ * @returns Teams or players still in the game
+ */
+export function getActiveCompetitors(state: GameState): Player[] {
+  return getCompetitors(state).filter((p) => !state.departedPlayerIds.includes(p.id));
+}
+
+/**
+ * Replaces competitors' scores, updating teams in team mode and players otherwise
+ * @param state - Current game state
+ * @param getScore - New score for a competitor
+ * @returns New game state with updated scores
+ */
+export function updateCompetitorScores(
+  state: GameState,
+  getScore: (competitor: Player) => number
+): GameState {
+  if (isTeamMode(state)) {
+    return {
+      ...state,
+      teams: state.teams.map((t) => ({ ...t, score: getScore(t) })),
+    };
+  }
+  return {
+    ...state,
+    players: state.players.map((p) => ({ ...p, score: getScore(p) })),
+  };
+}
+
+/**
+ * Adds a new, empty team
+ * @param state - Current game state
+ * @param teamId - Unique ID for the new team
+ * @param name - Team name (will be trimmed)
+ * @returns New game state with the team appended
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if the name is empty
+ */
+export function addTeam(state: GameState, teamId: string, name: string): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change teams during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new InvalidMoveError('EMPTY_NAME', 'Team name cannot be empty', {});
+  }
+
+  const newTeam: Team = {
+    id: teamId,
+    name: trimmedName,
+    score: 0,
+    memberIds: [],
+  };
+
+  return {
+    ...state,
+    teams: [...state.teams, newTeam],
+  };
+}
+
+/**
+ * Removes a team; its members become unassigned
+ * @param state - Current game state
+ * @param teamId - ID of team to remove
+ * @returns New game state without the team
+ * @throws PhaseError if not in setup phase
+ */
+export function removeTeam(state: GameState, teamId: string): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change teams during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  return {
+    ...state,
+    teams: state.teams.filter((t) => t.id !== teamId),
+  };
+}
+
+/**
+ * Drafts a player into a team, moving them out of any other team
+ * @param state - Current game state
+ * @param playerId - ID of the player
+ * @param teamId - ID of the team, or null to leave all teams
+ * @returns New game state with updated team rosters
+ * @throws PhaseError if not in setup phase
+ * @throws InvalidMoveError if the player or team does not exist
+ */
+export function assignPlayerToTeam(
+  state: GameState,
+  playerId: string,
+  teamId: string | null
+): GameState {
+  if (state.phase !== 'setup') {
+    throw new PhaseError('WRONG_PHASE', 'Can only change teams during setup', {
+      phase: state.phase,
+      allowed: ['setup'],
+    });
+  }
+
+  if (!state.players.some((p) => p.id === playerId)) {
+    throw new InvalidMoveError('PLAYER_NOT_FOUND', 'Player not found', { playerId });
+  }
+
+  if (teamId !== null && !state.teams.some((t) => t.id === teamId)) {
+    throw new InvalidMoveError('TEAM_NOT_FOUND', 'Team not found', { teamId });
+  }
+
+  return {
+    ...state,
+    teams: state.teams.map((t) => {
+      const memberIds = t.memberIds.filter((id) => id !== playerId);
+      return {
+        ...t,
+        memberIds: t.id === teamId ? [...memberIds, playerId] : memberIds,
+      };
+    }),
+  };
+}
+
+/**
+ * Validates team rosters before a team game starts
+ * @param state - Current game state
+ * @returns Array of error messages (empty if valid or not in team mode)
+ */
+export function validateTeams(state: GameState): string[] {
+  if (!isTeamMode(state)) return [];
+
+  const errors: string[] = [];
+
+  if (state.teams.length < 2) {
+    errors.push('At least 2 teams required');
+  }
+
+  if (state.teams.some((t) => t.memberIds.length === 0)) {
+    errors.push('Every team needs at least one player');
+  }
+
+  const assigned = new Set(state.teams.flatMap((t) => t.memberIds));
+  if (state.players.some((p) => !assigned.has(p.id))) {
+    errors.push('Every player must be on a team');
+  }
+
+  return errors;
+}
+
+/**
+ * Finds the team a player belongs to
+ * @param state - Current game state
+ * @param playerId - ID of the player
+ * @returns The player's team, or undefined if unassigned
+ */
+export function getPlayerTeam(state: GameState, playerId: string): Team | undefined {
+  return state.teams.find((t) => t.memberIds.includes(playerId));
+}
@@ -4,6 +4,7 @@ import type {
   Player,
   PlayerAnswer,
   PlayerBet,
+  Meeple,
   GamePhase,
 } from '@/app/types';
 
@@ -12,13 +13,87 @@ export type {
   Player,
   PlayerAnswer,
   PlayerBet,
+  Meeple,
   GamePhase,
 };
 
+// A question's text in another language, matched to the original by ID.
+// Answers, labels and precision always come from the original question.
+export interface QuestionTranslation {
+  id: string;
+  question: string;
+  unit?: string;
+  source?: string;
+  explanation?: string;
+}
+
+// Several players sharing one answer, one set of chips and one score.
+// In team mode, answers, bets and score history are keyed by team ID.
+export interface Team extends Player {
+  memberIds: string[];
+}
+
+// 'simplified' scores markers only; 'bankroll' also lets players wager their points;
+// 'family' replaces markers with a big and a small meeple and ignores odds
+export type ScoringMode = 'simplified' | 'bankroll' | 'family';
+
+// How the winning guess is picked; see WINNING_RULES
+export type WinningRuleName =
+  | 'closest-without-going-over'
+  | 'closest-absolute'
+  | 'closest-relative';
+
+// What happens when there are more distinct answers than answer slots:
+// 'expand' adds payout tiers at both ends, 'merge' shares the outermost slots
+export type BoardOverflow = 'expand' | 'merge';
+
+// How each round's question is chosen: drawn at random when the game starts, or
+// picked by category at the start of each round by the leader or the player in last place
+export type QuestionSelectionMode = 'random' | 'leader-picks' | 'last-place-picks';
+
+// What happens to chips not placed when the betting timer runs out:
+// 'none' forfeits them, 'special-slot' bets them on "Menor que todas"
+export type BetTimeoutFallback = 'none' | 'special-slot';
+
+// Starting score of a player who joins a game in progress: zero, the
+// average of the players still in the game, or the lowest of their scores
+export type LateJoinScore = 'zero' | 'average' | 'lowest';
+
+// A wager of part of a player's score on one slot in the final round,
+// won at the slot's odds or lost
+export interface FinalWager {
+  playerId: string;
+  slotIndex: number;
+  amount: number;
+}
+
+// Rules of the game. Lives in GameState so house rules are data, not code.
+export interface GameConfig {
+  scoringMode: ScoringMode;
+  winningRule: WinningRuleName;
+  boardOverflow: BoardOverflow;
+  questionSelection: QuestionSelectionMode;
+  answerTimeLimitSeconds: number | null; // null = no answering countdown
+  betTimeLimitSeconds: number | null; // null = no betting countdown
+  betTimeoutFallback: BetTimeoutFallback;
+  finalWager: boolean; // last round adds a secret all-in wager on one slot
+  secretBetting: boolean; // bets stay hidden until everyone has placed theirs
+  lateJoinScore: LateJoinScore; // starting score of players joining mid-game
+  maxBetsPerPlayer: number; // betting chips each player places per round
+  specialSlotPayout: number; // payout of "Menor que todas"
+  answerSlotPayouts: number[]; // answer slots lowest to highest; odd length, median in the middle
+  correctAnswerPoints: number; // points for giving the winning answer
+  roundBonusPerRound: number; // bonus = round index × this, only if the player scored
+  defaultRoundsToPlay: number;
+  targetScore: number | null; // first player to reach it wins, null = play every round
+}
+
 // Core game state that encompasses all game data
 export interface GameState {
   // Player state
   players: Player[];
+  teams: Team[]; // empty unless playing in teams
+  departedPlayerIds: string[]; // left mid-game: scores and history kept, no more rounds
 
   // Question state
   allQuestions: Question[];
@@ -30,13 +105,44 @@ export interface GameState {
   phase: GamePhase;
   playerAnswers: PlayerAnswer[];
   playerBets: PlayerBet[];
-  scoreHistory: Record<string, number[]>;
+  finalWagers: FinalWager[]; // final round only, see config.finalWager
+  scoreHistory: Record<string, (number | null)[]>; // null = not in the game yet
 
   // Config
+  config: GameConfig;
   roundsToPlay: number;
   selectedLabels: string[];
+  seed: number | null; // fixed seed for question draws, null = fresh each game
+  gameSeed: number | null; // seed the current game's questions were drawn with
 }
 
+// Serializable record of a state-changing engine call.
+// Anything non-deterministic (generated IDs, question draws) is captured in the
+// action itself so that replaying the log rebuilds the exact same state.
+export type GameAction =
+  | { type: 'addPlayer'; playerId: string; name: string }
+  | { type: 'removePlayer'; playerId: string }
+  | { type: 'addTeam'; teamId: string; name: string }
+  | { type: 'removeTeam'; teamId: string }
+  | { type: 'assignPlayerToTeam'; playerId: string; teamId: string | null }
+  | { type: 'setQuestionLabels'; labels: string[] }
+  | { type: 'updateQuestions'; questions: Question[] }
+  | { type: 'setRoundsToPlay'; rounds: number }
+  | { type: 'setSeed'; seed: number | null }
+  | { type: 'setConfig'; config: GameConfig }
+  | { type: 'startGame'; seed: number }
+  | { type: 'selectCategory'; playerId: string; label: string }
+  | { type: 'submitAnswer'; playerId: string; answer: number }
+  | { type: 'removeAnswer'; playerId: string }
+  | { type: 'finishAnswering' }
+  | { type: 'placeBet'; playerId: string; slotIndex: number; wager?: number; meeple?: Meeple }
+  | { type: 'placeFinalWager'; playerId: string; slotIndex: number; amount: number }
+  | { type: 'removeBet'; playerId: string; betIndex: number }
+  | { type: 'finishBetting' }
+  | { type: 'expireTimer' }
+  | { type: 'nextRound' }
+  | { type: 'resetGame' };
+
 // Result of scoring a round
 export interface ScoringResult {
   winningAnswer: PlayerAnswer;
@@ -50,3 +156,22 @@ export interface RoundResult extends ScoringResult {
   question: Question;
   roundIndex: number;
 }
+
+// Who is looking at the game: the host running the table, a player (or,
+// in team mode, a team member) or a spectator
+export type Viewer =
+  | { role: 'host' }
+  | { role: 'player'; playerId: string }
+  | { role: 'spectator' };
+
+// A question as a viewer sees it: the answer, and the explanation, source and
+// date that give it away, are only there once it is revealed
+export type PublicQuestion = Omit<Question, 'answer'> & { answer?: number };
+
+// What one viewer may see of the game state. The question bank is left out,
+// since it holds every answer and the questions still to come.
+export interface GameStateView
+  extends Omit<GameState, 'allQuestions' | 'filteredQuestions' | 'gameQuestions'> {
+  currentQuestion: PublicQuestion | null;
+  answeredPlayerIds: string[]; // who has answered, also while the answers are hidden
+}
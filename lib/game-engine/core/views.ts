@@ -0,0 +1,83 @@
+import type { GameState, GameStateView, PublicQuestion, Viewer } from './types';
+import { getCurrentQuestion } from './question-manager';
+import { getPlayerTeam } from './team-manager';
+import { redactBets } from './betting-manager';
+
+/**
+ * Returns whose answers, bets and final wager a viewer may see as their own
+ * @param state - Current game state
+ * @param viewer - Who is looking
+ * @returns The viewer's team ID in team mode, their player ID otherwise,
+ *   or null for the host and spectators
+ */
+export function getViewerSeatId(state: GameState, viewer: Viewer): string | null {
+  if (viewer.role !== 'player') return null;
+  return getPlayerTeam(state, viewer.playerId)?.id ?? viewer.playerId;
+}
+
+/**
+ * Checks whether the current round's correct answer and final wagers are
+ * out in the open
+ * @param state - Current game state
+ * @returns True in the results and once the game is over
+ */
+export function isRoundRevealed(state: GameState): boolean {
+  return state.phase === 'results' || state.phase === 'game-over';
+}
+
+/**
+ * Projects the game state down to what one viewer may see:
+ * - no question bank, and the correct answer (with its explanation, source
+ *   and date) only from the results on
+ * - only the viewer's own answer until answering closes
+ * - only the viewer's own bets while bets are secret
+ * - only the viewer's own final wager until the results
+ * - the seed, which redraws the questions and their answers from the public
+ *   bank, only once the game is over. The host's screen may be in view of
+ *   players too, so it gets no exception.
+ * @param state - Current game state
+ * @param viewer - Who is looking
+ * @returns The viewer's view of the state
+ */
+export function getViewFor(state: GameState, viewer: Viewer): GameStateView {
+  const seatId = getViewerSeatId(state, viewer);
+  const isOwn = (entry: { playerId: string }) => entry.playerId === seatId;
+  const revealed = isRoundRevealed(state);
+
+  const current = state.phase === 'setup' || state.phase === 'question-selection'
+    ? null
+    : getCurrentQuestion(state);
+  let currentQuestion: PublicQuestion | null = null;
+  if (current) {
+    currentQuestion = { ...current };
+    if (!revealed) {
+      delete currentQuestion.answer;
+      delete currentQuestion.explanation;
+      delete currentQuestion.source;
+      delete currentQuestion.asOf;
+    }
+  }
+
+  const showSeed = state.phase === 'game-over';
+
+  // Fields are listed one by one, so a new GameState field does not compile
+  // here until it is decided who may see it
+  return {
+    players: state.players,
+    teams: state.teams,
+    departedPlayerIds: state.departedPlayerIds,
+    currentQuestionIndex: state.currentQuestionIndex,
+    phase: state.phase,
+    scoreHistory: state.scoreHistory,
+    config: state.config,
+    roundsToPlay: state.roundsToPlay,
+    selectedLabels: state.selectedLabels,
+    currentQuestion,
+    answeredPlayerIds: state.playerAnswers.map((a) => a.playerId),
+    playerAnswers: state.phase === 'answering' ? state.playerAnswers.filter(isOwn) : state.playerAnswers,
+    playerBets: redactBets(state, seatId).playerBets,
+    finalWagers: revealed ? state.finalWagers : state.finalWagers.filter(isOwn),
+    seed: showSeed ? state.seed : null,
+    gameSeed: showSeed ? state.gameSeed : null,
+  };
+}
@@ -0,0 +1,76 @@
+import type { WinningRuleName } from './types';
+
+/**
+ * Decides how close a guess is to the correct answer.
+ * Smaller distances are better; Infinity means the guess can never win.
+ */
+export type WinningRule = (answer: number, correctAnswer: number) => number;
+
+export const DEFAULT_WINNING_RULE: WinningRuleName = 'closest-without-going-over';
+
+/**
+ * Available winning-answer rules, keyed by the name stored in GameConfig
+ */
+export const WINNING_RULES: Record<WinningRuleName, WinningRule> = {
+  // Classic rule: guesses over the correct answer cannot win
+  'closest-without-going-over': (answer, correctAnswer) =>
+    answer <= correctAnswer ? correctAnswer - answer : Infinity,
+
+  'closest-absolute': (answer, correctAnswer) => Math.abs(answer - correctAnswer),
+
+  // Log-ratio distance, so 2x too high and 2x too low are equally close.
+  // Only meaningful for positive numbers: for a non-positive correct answer it
+  // falls back to absolute distance, and non-positive guesses cannot win otherwise.
+  'closest-relative': (answer, correctAnswer) => {
+    if (correctAnswer <= 0) return Math.abs(answer - correctAnswer);
+    if (answer <= 0) return Infinity;
+    return Math.abs(Math.log(answer / correctAnswer));
+  },
+};
+
+/**
+ * Checks that a rule name is one of WINNING_RULES
+ */
+export function isWinningRuleName(name: string): name is WinningRuleName {
+  return Object.prototype.hasOwnProperty.call(WINNING_RULES, name);
+}
+
+/**
+ * Finds the winning guess value under a rule.
+ *
+ * "Menor que todas" wins whenever the correct answer is lower than every
+ * guess, under every rule. When going over is allowed this means a guess
+ * above the correct answer only wins if some guess is at or below it.
+ *
+ * Ties go to the lower value. If the rule rules out every guess, the highest
+ * guess not over the correct answer wins.
+ *
+ * @param values - Distinct guess values
+ * @param correctAnswer - The correct answer to the question
+ * @param ruleName - Rule to measure distance with
+ * @returns The winning value, or null if "Menor que todas" wins or there are no guesses
+ */
+export function findWinningValue(
+  values: number[],
+  correctAnswer: number,
+  ruleName: WinningRuleName = DEFAULT_WINNING_RULE
+): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  if (correctAnswer < sorted[0]) return null;
+
+  const rule = WINNING_RULES[ruleName];
+  let winner: number | null = null;
+  let bestDistance = Infinity;
+
+  for (const value of sorted) {
+    const distance = rule(value, correctAnswer);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      winner = value;
+    }
+  }
+
+  return winner ?? sorted.filter((v) => v <= correctAnswer).pop()!;
+}
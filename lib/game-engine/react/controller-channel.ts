@@ -0,0 +1,421 @@
+import type { GamePhase, GameState, Meeple, Player, ScoringMode } from '../core/types';
+import type { GameErrorCode, GameErrorDetails } from '../core/errors';
+import { canBetOnSlot, createBettingBoard, type BettingSlot } from '../core/betting-board';
+import { getAvailableBankroll } from '../core/betting-manager';
+import { getActiveCompetitors } from '../core/team-manager';
+import { getViewFor } from '../core/views';
+import {
+  TABLE_LINK_PATH,
+  type LinkClientMessage,
+  type LinkServerMessage,
+} from '../server/protocol';
+
+/**
+ * What a player's phone shows: their own answer and chips, never anyone
+ * else's answer before the board is revealed
+ */
+export interface ControllerView {
+  seatId: string;
+  name: string;
+  phase: GamePhase;
+  round: number; // 0-based
+  totalRounds: number;
+  // The question without its answer
+  question: { question: string; unit?: string; precision?: number } | null;
+  // The seat's own answer this round
+  answer: number | null;
+  // Slots the seat may bet on, only filled once answering closes
+  bettingBoard: BettingSlot[];
+  // Slots the seat has put a chip on this round
+  bets: number[];
+  maxBets: number;
+  score: number;
+  scoringMode: ScoringMode;
+  // Points the seat can still wager (bankroll rules)
+  bankroll: number;
+  // Meeples the seat has placed this round (family rules)
+  meeples: Meeple[];
+}
+
+// Controller to table. Moves act for the seat the controller has claimed.
+export type ControllerMessage =
+  | { type: 'connect' }
+  // token takes back a seat this controller held before, e.g. after a reload
+  | { type: 'claim'; seatId: string; token?: string }
+  | { type: 'release' }
+  | { type: 'answer'; answer: number }
+  | { type: 'bet'; slotIndex: number; wager?: number; meeple?: Meeple };
+
+export type ControllerError = {
+  [C in GameErrorCode]: { code: C; details: GameErrorDetails[C] };
+}[GameErrorCode];
+
+// Why a controller could not claim a seat or move for one. BAD_MESSAGE
+// means what it sent was not a ControllerMessage at all.
+export type SeatErrorCode = 'UNKNOWN_SEAT' | 'BAD_TOKEN' | 'SEAT_TAKEN' | 'NO_SEAT' | 'BAD_MESSAGE';
+
+// Table to one controller: each message only goes to the controller it is for
+export type TableMessage =
+  | { type: 'seats'; seats: Pick<Player, 'id' | 'name'>[] }
+  | { type: 'claimed'; seatId: string; token: string }
+  | { type: 'view'; view: ControllerView }
+  | { type: 'error'; error: ControllerError }
+  | { type: 'seatError'; code: SeatErrorCode; seatId: string | null };
+
+// How a link to the room server stands. 'noTable' means no table screen is
+// open under the code; 'closed' that the server or the table went away.
+export type LinkStatus = 'connecting' | 'linked' | 'noTable' | 'closed';
+
+/**
+ * The table screen's end of a link to its controllers
+ */
+export interface TableLink {
+  send(controllerId: string, message: TableMessage): void;
+  // message is null when the controller has gone
+  subscribe(listener: (controllerId: string, message: ControllerMessage | null) => void): () => void;
+  close(): void;
+}
+
+/**
+ * A controller's end of a link to its table screen
+ */
+export interface ControllerLink {
+  post(message: ControllerMessage): void;
+  subscribe(listener: (message: TableMessage) => void): () => void;
+  close(): void;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+/**
+ * Reads a message relayed from a controller. Controllers are not trusted,
+ * so anything that is not a well-formed ControllerMessage is rejected.
+ * @param raw - Message as relayed by the room server
+ * @returns The message, or null if it is malformed
+ */
+export function parseControllerMessage(raw: unknown): ControllerMessage | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+
+  switch (data.type) {
+    case 'connect':
+      return { type: 'connect' };
+    case 'claim':
+      if (typeof data.seatId !== 'string' || !isOptionalString(data.token)) return null;
+      return {
+        type: 'claim',
+        seatId: data.seatId,
+        ...(typeof data.token === 'string' && { token: data.token }),
+      };
+    case 'release':
+      return { type: 'release' };
+    case 'answer':
+      return Number.isFinite(data.answer) ? { type: 'answer', answer: data.answer as number } : null;
+    case 'bet':
+      if (!Number.isInteger(data.slotIndex)) return null;
+      if (data.wager !== undefined && !Number.isFinite(data.wager)) return null;
+      if (data.meeple !== undefined && data.meeple !== 'big' && data.meeple !== 'small') return null;
+      return {
+        type: 'bet',
+        slotIndex: data.slotIndex as number,
+        ...(data.wager !== undefined && { wager: data.wager as number }),
+        ...((data.meeple === 'big' || data.meeple === 'small') && { meeple: data.meeple }),
+      };
+    default:
+      return null;
+  }
+}
+
+// Letters and digits that cannot be mistaken for one another
+const TABLE_ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Creates the code controllers type in to link to a table screen
+ * @returns A short code of unambiguous letters and digits
+ */
+export function createTableId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(5));
+  return Array.from(bytes, (b) => TABLE_ID_ALPHABET[b % TABLE_ID_ALPHABET.length]).join('');
+}
+
+// getRandomValues, unlike randomUUID, works on plain http too, e.g. on a home network
+function createSeatToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Returns where to reach the room server's table links: the
+ * NEXT_PUBLIC_ROOM_SERVER_URL the app was built with, or port 3001 of the
+ * host serving the page
+ */
+export function getTableLinkUrl(): string {
+  const server =
+    process.env.NEXT_PUBLIC_ROOM_SERVER_URL ||
+    `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:3001`;
+  return server.replace(/\/$/, '') + TABLE_LINK_PATH;
+}
+
+// Opens a WebSocket to the room server, holding messages until it is open
+function openLinkSocket(
+  onMessage: (message: LinkServerMessage) => void,
+  onClose: () => void
+): { send(message: LinkClientMessage): void; close(): void } {
+  const socket = new WebSocket(getTableLinkUrl());
+  const pending: string[] = [];
+  socket.addEventListener('open', () => pending.splice(0).forEach((data) => socket.send(data)));
+  socket.addEventListener('message', (event: MessageEvent<string>) => onMessage(JSON.parse(event.data)));
+  socket.addEventListener('close', onClose);
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+      else pending.push(data);
+    },
+    close: () => socket.close(),
+  };
+}
+
+/**
+ * Opens a table screen's link to its controllers through the room server
+ * @param tableId - Code the controllers link with
+ * @param onStatus - Told when the link is up and when it is lost
+ * @returns The link
+ */
+export function openTableLink(tableId: string, onStatus: (status: LinkStatus) => void): TableLink {
+  const listeners = new Set<(controllerId: string, message: ControllerMessage | null) => void>();
+  const socket = openLinkSocket(
+    (message) => {
+      if (message.type === 'linked') {
+        onStatus('linked');
+      } else if (message.type === 'fromController') {
+        // Controllers are not trusted: the table checks every message's shape
+        // here and every move against the rules
+        const parsed = parseControllerMessage(message.message);
+        if (!parsed) {
+          const rejected: TableMessage = { type: 'seatError', code: 'BAD_MESSAGE', seatId: null };
+          socket.send({ type: 'toController', controllerId: message.controllerId, message: rejected });
+          return;
+        }
+        listeners.forEach((listener) => listener(message.controllerId, parsed));
+      } else if (message.type === 'controllerLeft') {
+        listeners.forEach((listener) => listener(message.controllerId, null));
+      } else if (message.type === 'error') {
+        onStatus('closed');
+      }
+    },
+    () => onStatus('closed')
+  );
+  socket.send({ type: 'openTable', tableId });
+
+  return {
+    send: (controllerId, message) => socket.send({ type: 'toController', controllerId, message }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => socket.close(),
+  };
+}
+
+/**
+ * Opens a controller's link to a table screen through the room server
+ * @param tableId - Code shown on the table screen
+ * @param onStatus - Told when the link is up and when it is lost
+ * @returns The link
+ */
+export function openControllerLink(
+  tableId: string,
+  onStatus: (status: LinkStatus) => void
+): ControllerLink {
+  const listeners = new Set<(message: TableMessage) => void>();
+  const socket = openLinkSocket(
+    (message) => {
+      if (message.type === 'linked') {
+        onStatus('linked');
+      } else if (message.type === 'fromTable') {
+        listeners.forEach((listener) => listener(message.message as TableMessage));
+      } else if (message.type === 'tableClosed') {
+        onStatus('closed');
+      } else if (message.type === 'error') {
+        onStatus(message.code === 'NO_TABLE' ? 'noTable' : 'closed');
+      }
+    },
+    () => onStatus('closed')
+  );
+  socket.send({ type: 'joinTable', tableId });
+
+  return {
+    post: (message) => socket.send({ type: 'toTable', message }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => socket.close(),
+  };
+}
+
+/**
+ * A seat a controller cannot claim or move for
+ */
+export class SeatError extends Error {
+  constructor(
+    readonly code: SeatErrorCode,
+    readonly seatId: string | null
+  ) {
+    super(`Seat error ${code}`);
+    this.name = 'SeatError';
+  }
+}
+
+/**
+ * The table's record of which controller holds which seat. A seat's first
+ * controller gets a secret token; only that token takes the seat back, and
+ * only while no other controller holds it.
+ */
+export class ControllerSeats {
+  // Controllers linked to the table, in the order they connected
+  private controllers = new Set<string>();
+  // Seat each controller holds, by controller ID
+  private holders = new Map<string, string>();
+  // Secret that gives a seat back to its controller, by seat ID
+  private tokens = new Map<string, string>();
+
+  /**
+   * @param createToken - Makes seat tokens; inject a fixed one in tests
+   */
+  constructor(private createToken: () => string = createSeatToken) {}
+
+  /**
+   * Records a controller that linked to the table
+   */
+  connect(controllerId: string): void {
+    this.controllers.add(controllerId);
+  }
+
+  /**
+   * Forgets a controller that went away; its seat's token stays valid
+   */
+  leave(controllerId: string): void {
+    this.controllers.delete(controllerId);
+    this.holders.delete(controllerId);
+  }
+
+  /**
+   * Gives a controller a seat, releasing any seat it held before
+   * @param state - Current game state
+   * @param controllerId - Controller claiming the seat
+   * @param seatId - The player (or team, in team mode)
+   * @param token - The seat's token, if the controller has held it before
+   * @returns The seat's token, for taking the seat back later
+   * @throws SeatError if the seat is not in the game, its token is wrong or
+   *   another controller holds it
+   */
+  claim(state: GameState, controllerId: string, seatId: string, token?: string): string {
+    if (!getActiveCompetitors(state).some((seat) => seat.id === seatId)) {
+      throw new SeatError('UNKNOWN_SEAT', seatId);
+    }
+    const issued = this.tokens.get(seatId);
+    if (issued !== undefined && token !== issued) {
+      throw new SeatError('BAD_TOKEN', seatId);
+    }
+    for (const [holder, heldSeat] of this.holders) {
+      if (heldSeat === seatId && holder !== controllerId) throw new SeatError('SEAT_TAKEN', seatId);
+    }
+
+    this.controllers.add(controllerId);
+    this.holders.set(controllerId, seatId);
+    if (issued !== undefined) return issued;
+    const created = this.createToken();
+    this.tokens.set(seatId, created);
+    return created;
+  }
+
+  /**
+   * Frees the seat a controller holds, e.g. to pick another one
+   */
+  release(controllerId: string): void {
+    this.holders.delete(controllerId);
+  }
+
+  /**
+   * Returns the seat a controller holds
+   * @throws SeatError if it holds none
+   */
+  getSeat(controllerId: string): string {
+    const seatId = this.holders.get(controllerId);
+    if (seatId === undefined) throw new SeatError('NO_SEAT', null);
+    return seatId;
+  }
+
+  /**
+   * Returns every linked controller
+   */
+  getControllers(): string[] {
+    return [...this.controllers];
+  }
+
+  /**
+   * Returns each controller holding a seat, with its seat
+   */
+  getHolders(): [controllerId: string, seatId: string][] {
+    return [...this.holders];
+  }
+}
+
+/**
+ * Sends every linked controller the seats it can pick, and each seat's view
+ * to the controller holding that seat only
+ * @param link - The table's link to its controllers
+ * @param seats - Who holds which seat
+ * @param state - Current game state
+ */
+export function publishToControllers(link: TableLink, seats: ControllerSeats, state: GameState): void {
+  const open = getActiveCompetitors(state).map(({ id, name }) => ({ id, name }));
+  seats.getControllers().forEach((controllerId) => link.send(controllerId, { type: 'seats', seats: open }));
+  seats.getHolders().forEach(([controllerId, seatId]) => {
+    const view = createControllerView(state, seatId);
+    if (view) link.send(controllerId, { type: 'view', view });
+  });
+}
+
+/**
+ * Builds what one seat's controller shows
+ * @param state - Current game state
+ * @param seatId - The player (or team, in team mode) holding the controller
+ * @returns The seat's view, or null if the seat is not in the game
+ */
+export function createControllerView(state: GameState, seatId: string): ControllerView | null {
+  const seat = getActiveCompetitors(state).find((p) => p.id === seatId);
+  if (!seat) return null;
+
+  // Only what this seat may see goes to its screen
+  const view = getViewFor(state, { role: 'player', playerId: seatId });
+  const onBoard = view.phase === 'betting' || view.phase === 'results';
+  const current = onBoard || view.phase === 'answering' ? view.currentQuestion : null;
+  const board = onBoard ? createBettingBoard(view.playerAnswers, view.config) : [];
+  const bet = view.playerBets.find((b) => b.playerId === seatId);
+
+  return {
+    seatId,
+    name: seat.name,
+    phase: view.phase,
+    round: view.currentQuestionIndex,
+    totalRounds: view.roundsToPlay,
+    question: current && {
+      question: current.question,
+      ...(current.unit !== undefined && { unit: current.unit }),
+      ...(current.precision !== undefined && { precision: current.precision }),
+    },
+    answer: view.playerAnswers.find((a) => a.playerId === seatId)?.answer ?? null,
+    bettingBoard: board.filter((slot) => canBetOnSlot(board, slot.index)),
+    bets: bet?.betOnSlotIndices ?? [],
+    maxBets: state.config.maxBetsPerPlayer,
+    score: seat.score,
+    scoringMode: state.config.scoringMode,
+    bankroll: getAvailableBankroll(state, seatId),
+    meeples: bet?.meeples ?? [],
+  };
+}
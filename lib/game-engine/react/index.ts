@@ -1,16 +1,69 @@
 // Main game hook
 export { useGame } from './use-game';
 
+// Players answering and betting from their phones
+export { useControllerHost, useController } from './use-controllers';
+export {
+  createTableId,
+  getTableLinkUrl,
+  openTableLink,
+  openControllerLink,
+  parseControllerMessage,
+  ControllerSeats,
+  SeatError,
+  publishToControllers,
+  createControllerView,
+} from './controller-channel';
+export type {
+  ControllerView,
+  ControllerMessage,
+  ControllerError,
+  SeatErrorCode,
+  TableMessage,
+  LinkStatus,
+  TableLink,
+  ControllerLink,
+} from './controller-channel';
+
 // Re-export types for convenience
 export type {
   Question,
   Player,
+  Team,
   PlayerAnswer,
   PlayerBet,
+  FinalWager,
+  Meeple,
   GamePhase,
+  GameConfig,
+  ScoringMode,
+  WinningRuleName,
+  BoardOverflow,
+  QuestionSelectionMode,
+  BetTimeoutFallback,
+  LateJoinScore,
   ScoringResult,
+  Viewer,
+  PublicQuestion,
+  GameStateView,
 } from '../core/types';
 
 // Betting board types and utilities
 export type { BettingSlot, AnswerGroup } from '../core/betting-board';
-export { SPECIAL_SLOT_INDEX, MIDDLE_SLOT_INDEX } from '../core/betting-board';
+export {
+  SPECIAL_SLOT_INDEX,
+  MIDDLE_SLOT_INDEX,
+  getMiddleSlotIndex,
+  getBoardMiddleSlotIndex,
+  canBetOnSlot,
+} from '../core/betting-board';
+
+export { FAMILY_MEEPLE_POINTS } from '../core/betting-manager';
+
+// Rule presets
+export { DEFAULT_GAME_CONFIG, GAME_CONFIG_PRESETS } from '../core/game-config';
+export type { GameConfigPresetName } from '../core/game-config';
+
+// Errors thrown by actions, with codes for localized messages
+export { GameError, isGameError } from '../core/errors';
+export type { GameErrorCode, GameErrorDetails } from '../core/errors';
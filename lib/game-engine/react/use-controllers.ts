@@ -0,0 +1,221 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Meeple } from '../core/types';
+import { isGameError } from '../core/errors';
+import type { useGame } from './use-game';
+import {
+  ControllerSeats,
+  SeatError,
+  openControllerLink,
+  openTableLink,
+  publishToControllers,
+  type ControllerError,
+  type ControllerLink,
+  type ControllerMessage,
+  type ControllerView,
+  type LinkStatus,
+  type SeatErrorCode,
+  type TableLink,
+  type TableMessage,
+} from './controller-channel';
+
+/**
+ * React hook that lets players answer and bet from their phones instead of
+ * the table screen. The table's game stays the only copy: moves from
+ * controllers run through its useGame actions, and every change is sent to
+ * the controllers through the room server.
+ *
+ * @param game - The table's game
+ * @param tableId - Code the controllers link with, or null to play without them
+ * @returns How the link to the room server stands, or null without controllers
+ *
+ * @example
+ * const game = useGame(questions);
+ * const status = useControllerHost(game, 'K7QX2');
+ */
+export function useControllerHost(
+  game: ReturnType<typeof useGame>,
+  tableId: string | null
+): LinkStatus | null {
+  const { state, actions } = game;
+  const [link, setLink] = useState<{ tableId: string; status: LinkStatus } | null>(null);
+  const hostRef = useRef<{ link: TableLink; seats: ControllerSeats } | null>(null);
+  // Read by the link listener without reopening the link on every move
+  const stateRef = useRef(state);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    if (!tableId) return;
+    const seats = new ControllerSeats();
+    const tableLink = openTableLink(tableId, (status) => setLink({ tableId, status }));
+    hostRef.current = { link: tableLink, seats };
+
+    const reply = (controllerId: string, message: TableMessage) => tableLink.send(controllerId, message);
+
+    const unsubscribe = tableLink.subscribe((controllerId, message) => {
+      if (message === null) {
+        seats.leave(controllerId);
+        return;
+      }
+      try {
+        switch (message.type) {
+          case 'connect':
+            seats.connect(controllerId);
+            publishToControllers(tableLink, seats, stateRef.current);
+            break;
+          case 'claim': {
+            const token = seats.claim(stateRef.current, controllerId, message.seatId, message.token);
+            reply(controllerId, { type: 'claimed', seatId: message.seatId, token });
+            publishToControllers(tableLink, seats, stateRef.current);
+            break;
+          }
+          case 'release':
+            seats.release(controllerId);
+            break;
+          case 'answer':
+            actions.submitAnswer(seats.getSeat(controllerId), message.answer);
+            break;
+          case 'bet':
+            actions.placeBet(seats.getSeat(controllerId), message.slotIndex, message.wager, message.meeple);
+            break;
+        }
+      } catch (error) {
+        if (error instanceof SeatError) {
+          reply(controllerId, { type: 'seatError', code: error.code, seatId: error.seatId });
+          return;
+        }
+        if (!isGameError(error)) throw error;
+        // A GameError's code and details always match
+        const rejected = { code: error.code, details: error.details } as ControllerError;
+        reply(controllerId, { type: 'error', error: rejected });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      tableLink.close();
+      hostRef.current = null;
+    };
+  }, [tableId, actions]);
+
+  // Every change to the game reaches the controllers
+  useEffect(() => {
+    const host = hostRef.current;
+    if (tableId && host) publishToControllers(host.link, host.seats, state);
+  }, [tableId, state]);
+
+  if (!tableId) return null;
+  return link?.tableId === tableId ? link.status : 'connecting';
+}
+
+// Where a seat's token is kept, so a reloaded phone gets its seat back
+function getTokenKey(tableId: string, seatId: string): string {
+  return `wits-and-wagers:seat:${tableId}:${seatId}`;
+}
+
+/**
+ * React hook for a player's controller screen, linked through the room
+ * server to the table screen running useControllerHost. Remount it (e.g.
+ * with a key) to link to another table.
+ *
+ * @param tableId - Code shown on the table screen
+ * @returns The link status, the seats to choose from, the claimed seat and
+ *   its view, the last refused move or claim, and the seat's moves
+ *
+ * @example
+ * const { seatId, view, actions } = useController('K7QX2');
+ * actions.claim(seats[0].id);
+ * actions.submitAnswer(42);
+ */
+export function useController(tableId: string) {
+  const [status, setStatus] = useState<LinkStatus>('connecting');
+  const [seats, setSeats] = useState<{ id: string; name: string }[]>([]);
+  const [seatId, setSeatId] = useState<string | null>(null);
+  const [view, setView] = useState<ControllerView | null>(null);
+  const [error, setError] = useState<ControllerError | null>(null);
+  const [seatError, setSeatError] = useState<SeatErrorCode | null>(null);
+  const linkRef = useRef<ControllerLink | null>(null);
+
+  useEffect(() => {
+    const link = openControllerLink(tableId, (next) => {
+      setStatus(next);
+      // Ask the table for its seats once linked
+      if (next === 'linked') link.post({ type: 'connect' });
+    });
+    linkRef.current = link;
+
+    const unsubscribe = link.subscribe((message) => {
+      switch (message.type) {
+        case 'seats':
+          setSeats(message.seats);
+          break;
+        case 'claimed':
+          localStorage.setItem(getTokenKey(tableId, message.seatId), message.token);
+          setSeatId(message.seatId);
+          setSeatError(null);
+          break;
+        case 'view':
+          setView(message.view);
+          break;
+        case 'error':
+          setError(message.error);
+          break;
+        case 'seatError':
+          setSeatError(message.code);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      link.close();
+      linkRef.current = null;
+    };
+  }, [tableId]);
+
+  const send = useCallback((message: ControllerMessage) => {
+    setError(null);
+    setSeatError(null);
+    linkRef.current?.post(message);
+  }, []);
+
+  const claim = useCallback(
+    (seat: string) => {
+      const token = localStorage.getItem(getTokenKey(tableId, seat)) ?? undefined;
+      send({ type: 'claim', seatId: seat, ...(token !== undefined && { token }) });
+    },
+    [tableId, send]
+  );
+
+  const release = useCallback(() => {
+    send({ type: 'release' });
+    setSeatId(null);
+    setView(null);
+  }, [send]);
+
+  const submitAnswer = useCallback((answer: number) => send({ type: 'answer', answer }), [send]);
+
+  const placeBet = useCallback(
+    (slotIndex: number, wager?: number, meeple?: Meeple) =>
+      send({
+        type: 'bet',
+        slotIndex,
+        ...(wager !== undefined && { wager }),
+        ...(meeple !== undefined && { meeple }),
+      }),
+    [send]
+  );
+
+  return {
+    status,
+    seats,
+    seatId,
+    // A view arriving after the seat was released is stale
+    view: view?.seatId === seatId ? view : null,
+    error,
+    seatError,
+    actions: { claim, release, submitAnswer, placeBet },
+  };
+}
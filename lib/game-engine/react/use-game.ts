@@ -1,6 +1,14 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { WitsAndWagersEngine } from '../core/game-engine';
-import type { Question, GamePhase, Player, ScoringResult } from '../core/types';
+import type {
+  Question,
+  GamePhase,
+  GameConfig,
+  Meeple,
+  Player,
+  ScoringResult,
+  Viewer,
+} from '../core/types';
 
 /**
  * Main React hook for the Wits and Wagers game engine
@@ -45,6 +53,22 @@ export function useGame(initialQuestions: Question[] = []) {
         triggerUpdate();
       },
 
+      // Team management
+      addTeam: (name: string) => {
+        engine.addTeam(name);
+        triggerUpdate();
+      },
+
+      removeTeam: (teamId: string) => {
+        engine.removeTeam(teamId);
+        triggerUpdate();
+      },
+
+      assignPlayerToTeam: (playerId: string, teamId: string | null) => {
+        engine.assignPlayerToTeam(playerId, teamId);
+        triggerUpdate();
+      },
+
       // Game setup
       setQuestionLabels: (labels: string[]) => {
         engine.setQuestionLabels(labels);
@@ -55,6 +79,10 @@ export function useGame(initialQuestions: Question[] = []) {
         return engine.getAvailableLabels();
       },
 
+      getQuestionById: (id: string) => {
+        return engine.getQuestionById(id);
+      },
+
       updateQuestions: (questions: Question[]) => {
         engine.updateQuestions(questions);
         triggerUpdate();
@@ -65,11 +93,35 @@ export function useGame(initialQuestions: Question[] = []) {
         triggerUpdate();
       },
 
+      setSeed: (seed: number | null) => {
+        engine.setSeed(seed);
+        triggerUpdate();
+      },
+
+      setConfig: (config: GameConfig) => {
+        engine.setConfig(config);
+        triggerUpdate();
+      },
+
       startGame: () => {
         engine.startGame();
         triggerUpdate();
       },
 
+      // Question selection phase
+      getCategoryPicker: () => {
+        return engine.getCategoryPicker();
+      },
+
+      getSelectableLabels: () => {
+        return engine.getSelectableLabels();
+      },
+
+      selectCategory: (playerId: string, label: string) => {
+        engine.selectCategory(playerId, label);
+        triggerUpdate();
+      },
+
       // Answer phase
       submitAnswer: (playerId: string, answer: number) => {
         engine.submitAnswer(playerId, answer);
@@ -95,11 +147,28 @@ export function useGame(initialQuestions: Question[] = []) {
         return engine.getBettingBoard();
       },
 
-      placeBet: (playerId: string, slotIndex: number) => {
-        engine.placeBet(playerId, slotIndex);
+      placeBet: (playerId: string, slotIndex: number, wager?: number, meeple?: Meeple) => {
+        engine.placeBet(playerId, slotIndex, wager, meeple);
+        triggerUpdate();
+      },
+
+      getAvailableBankroll: (playerId: string) => {
+        return engine.getAvailableBankroll(playerId);
+      },
+
+      isFinalWagerRound: () => {
+        return engine.isFinalWagerRound();
+      },
+
+      placeFinalWager: (playerId: string, slotIndex: number, amount: number) => {
+        engine.placeFinalWager(playerId, slotIndex, amount);
         triggerUpdate();
       },
 
+      getFinalWager: (playerId: string) => {
+        return engine.getFinalWager(playerId);
+      },
+
       removeBet: (playerId: string, betIndex: number) => {
         engine.removeBet(playerId, betIndex);
         triggerUpdate();
@@ -109,13 +178,54 @@ export function useGame(initialQuestions: Question[] = []) {
         return engine.canFinishBetting();
       },
 
+      areBetsHidden: () => {
+        return engine.areBetsHidden();
+      },
+
+      getViewFor: (viewer: Viewer) => {
+        return engine.getViewFor(viewer);
+      },
+
       finishBetting: (): ScoringResult => {
         const result = engine.finishBetting();
         triggerUpdate();
         return result;
       },
 
+      // Timers
+      getTimeRemaining: () => {
+        return engine.getTimeRemaining();
+      },
+
+      pauseTimer: () => {
+        engine.pauseTimer();
+        triggerUpdate();
+      },
+
+      resumeTimer: () => {
+        engine.resumeTimer();
+        triggerUpdate();
+      },
+
+      isTimerPaused: () => {
+        return engine.isTimerPaused();
+      },
+
+      // Re-renders while a countdown is running so it can be displayed,
+      // and ends the phase once it runs out
+      tick: () => {
+        const expired = engine.tick();
+        if (expired || engine.getTimeRemaining() !== null) {
+          triggerUpdate();
+        }
+        return expired;
+      },
+
       // Round progression
+      isFinalRound: () => {
+        return engine.isFinalRound();
+      },
+
       nextRound: () => {
         engine.nextRound();
         triggerUpdate();
@@ -126,7 +236,44 @@ export function useGame(initialQuestions: Question[] = []) {
         triggerUpdate();
       },
 
+      // History
+      undo: () => {
+        engine.undo();
+        triggerUpdate();
+      },
+
+      redo: () => {
+        engine.redo();
+        triggerUpdate();
+      },
+
+      canUndo: () => {
+        return engine.canUndo();
+      },
+
+      canRedo: () => {
+        return engine.canRedo();
+      },
+
+      // Persistence
+      serialize: () => {
+        return engine.serialize();
+      },
+
+      restore: (serialized: string) => {
+        engine.restore(serialized);
+        triggerUpdate();
+      },
+
       // Utility methods
+      hasLeft: (playerId: string) => {
+        return engine.hasLeft(playerId);
+      },
+
+      getLateJoinScore: () => {
+        return engine.getLateJoinScore();
+      },
+
       getSortedPlayers: () => {
         return engine.getSortedPlayers();
       },
@@ -134,6 +281,10 @@ export function useGame(initialQuestions: Question[] = []) {
       getSortedAnswers: () => {
         return engine.getSortedAnswers();
       },
+
+      getRoundResult: () => {
+        return engine.getRoundResult();
+      },
     }),
     [engine, triggerUpdate]
   );
@@ -144,6 +295,9 @@ export function useGame(initialQuestions: Question[] = []) {
     return {
       phase: engine.getPhase(),
       players: engine.getPlayers(),
+      teams: engine.getTeams(),
+      competitors: engine.getCompetitors(),
+      activeCompetitors: engine.getActiveCompetitors(),
       currentQuestion: engine.getCurrentQuestion(),
       currentRound: engine.getCurrentRound(),
       totalRounds: engine.getTotalRounds(),
@@ -0,0 +1,26 @@
+// WebSocket server hosting one game per room (Node only)
+export { startRoomServer } from './room-server';
+export type { RoomServer, RoomServerOptions } from './room-server';
+
+// A hosted game and the clients playing it
+export { Room } from './room';
+export type { RoomConnection } from './room';
+
+// Relay between table screens and their controllers
+export { TableLinks } from './table-link';
+export type { LinkConnection } from './table-link';
+
+// Messages between clients and the server
+export { parseClientMessage, parseLinkMessage, TABLE_LINK_PATH } from './protocol';
+export type {
+  LinkClientMessage,
+  LinkServerMessage,
+  LinkErrorCode,
+  ClientRole,
+  ClientMessage,
+  ServerMessage,
+  ProtocolErrorCode,
+  RoomErrorMessage,
+  RoomSnapshot,
+} from './protocol';
+export { createSnapshot } from './snapshot';
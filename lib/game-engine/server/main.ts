@@ -0,0 +1,14 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Question } from '../core/types';
+import { startRoomServer } from './room-server';
+
+// Runs the room server on its own: npm run room-server (PORT defaults to 3001)
+const questions: Question[] = JSON.parse(
+  readFileSync(join(process.cwd(), 'public', 'questions.json'), 'utf8')
+);
+const port = Number(process.env.PORT ?? 3001);
+
+startRoomServer({ port, host: process.env.HOST ?? '0.0.0.0', questions }).then((server) => {
+  console.log(`Room server listening on port ${server.port}`);
+});
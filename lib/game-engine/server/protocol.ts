@@ -0,0 +1,235 @@
+import type {
+  FinalWager,
+  GameConfig,
+  GamePhase,
+  Meeple,
+  Player,
+  PlayerAnswer,
+  PlayerBet,
+  PublicQuestion,
+  ScoringResult,
+  Team,
+} from '../core/types';
+import type { BettingSlot } from '../core/betting-board';
+import type { GameErrorCode, GameErrorDetails } from '../core/errors';
+
+// The host runs the table and moves the game on; players answer and bet;
+// spectators only watch
+export type ClientRole = 'host' | 'player' | 'spectator';
+
+// Messages a client sends. Every message but 'join' acts for the client's own seat.
+export type ClientMessage =
+  // playerId and the seat's token rejoin an existing seat, e.g. after a phone reconnects
+  | { type: 'join'; roomId: string; role: 'player'; name: string; playerId?: string; token?: string }
+  // A room has one host: only the host's token takes the seat back
+  | { type: 'join'; roomId: string; role: 'host'; token?: string }
+  | { type: 'join'; roomId: string; role: 'spectator' }
+  // The round's category, when it is this player's turn to pick one
+  | { type: 'category'; label: string }
+  | { type: 'answer'; answer: number }
+  | { type: 'bet'; slotIndex: number; wager?: number; meeple?: Meeple }
+  // The final round's all-in wager, when the config plays one
+  | { type: 'finalWager'; slotIndex: number; amount: number }
+  // Host only: start the game, close answering or betting, or go to the next round
+  | { type: 'advance' };
+
+// Mistakes in talking to the server, as opposed to moves the rules reject
+export type ProtocolErrorCode =
+  | 'BAD_MESSAGE'
+  | 'NOT_JOINED'
+  | 'ALREADY_JOINED'
+  | 'NOT_HOST'
+  | 'NOT_PLAYER'
+  | 'UNKNOWN_SEAT'
+  // The seat's token is missing or wrong
+  | 'BAD_TOKEN'
+  // Another client is connected to the seat
+  | 'SEAT_TAKEN'
+  // The engine refused the action without a GameError code
+  | 'REJECTED';
+
+export type RoomErrorMessage =
+  | {
+      [C in GameErrorCode]: {
+        type: 'error';
+        code: C;
+        message: string;
+        details: GameErrorDetails[C];
+      };
+    }[GameErrorCode]
+  | { type: 'error'; code: ProtocolErrorCode; message: string };
+
+// Messages the server sends
+export type ServerMessage =
+  // token is the seat's secret for rejoining it; spectators get none
+  | { type: 'joined'; roomId: string; role: ClientRole; playerId: string | null; token: string | null }
+  | { type: 'snapshot'; snapshot: RoomSnapshot }
+  | RoomErrorMessage;
+
+/**
+ * What one client may know about the game. Built fresh for every client from
+ * the engine's view for its seat (see getViewFor).
+ */
+export interface RoomSnapshot {
+  roomId: string;
+  phase: GamePhase;
+  round: number; // 0-based
+  totalRounds: number;
+  config: GameConfig;
+  players: Player[];
+  teams: Team[];
+  departedPlayerIds: string[];
+  question: PublicQuestion | null;
+  // Who has answered this round, so the table can show progress without values
+  answeredPlayerIds: string[];
+  // Only the viewer's own answer until answering closes, then everyone's
+  answers: PlayerAnswer[];
+  bettingBoard: BettingSlot[];
+  // Only the viewer's own while bets are secret
+  bets: PlayerBet[];
+  // Only the viewer's own wager until the results
+  finalWagers: FinalWager[];
+  roundResult: ScoringResult | null;
+  scoreHistory: Record<string, (number | null)[]>;
+  timeRemainingMs: number | null;
+}
+
+// Table links: a table screen running its own game talks to the
+// controllers (phones) linked to it through the server, which only relays.
+// Messages travel as opaque JSON; the table decides who may do what.
+
+// Path on the room server that table screens and their controllers connect to
+export const TABLE_LINK_PATH = '/link';
+
+export type LinkClientMessage =
+  // The table screen opens a link under a code its controllers type in
+  | { type: 'openTable'; tableId: string }
+  | { type: 'joinTable'; tableId: string }
+  // Table only: a message for one controller
+  | { type: 'toController'; controllerId: string; message: unknown }
+  // Controller only: a message for the table
+  | { type: 'toTable'; message: unknown };
+
+export type LinkErrorCode =
+  | 'BAD_MESSAGE'
+  | 'NOT_LINKED'
+  | 'ALREADY_LINKED'
+  // Another table screen has the code
+  | 'TABLE_TAKEN'
+  // No table screen is open under the code
+  | 'NO_TABLE'
+  | 'NOT_TABLE'
+  | 'NOT_CONTROLLER';
+
+export type LinkServerMessage =
+  | { type: 'linked'; tableId: string; role: 'table' | 'controller' }
+  // To the table: controllerId is set by the server, so it cannot be forged
+  | { type: 'fromController'; controllerId: string; message: unknown }
+  | { type: 'controllerLeft'; controllerId: string }
+  // To a controller
+  | { type: 'fromTable'; message: unknown }
+  | { type: 'tableClosed' }
+  | { type: 'error'; code: LinkErrorCode; message: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isOptional(value: unknown, type: 'string' | 'number'): boolean {
+  return value === undefined || typeof value === type;
+}
+
+/**
+ * Reads a message received from a client. Clients are not trusted, so
+ * anything that is not a well-formed ClientMessage is rejected.
+ * @param raw - Message text as received
+ * @returns The message, or null if it is malformed
+ */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  switch (data.type) {
+    case 'join':
+      if (typeof data.roomId !== 'string' || data.roomId === '') return null;
+      if (data.role === 'player') {
+        if (typeof data.name !== 'string' || !isOptional(data.playerId, 'string')) return null;
+        if (!isOptional(data.token, 'string')) return null;
+        return {
+          type: 'join',
+          roomId: data.roomId,
+          role: 'player',
+          name: data.name,
+          ...(typeof data.playerId === 'string' && { playerId: data.playerId }),
+          ...(typeof data.token === 'string' && { token: data.token }),
+        };
+      }
+      if (data.role === 'host') {
+        if (!isOptional(data.token, 'string')) return null;
+        return {
+          type: 'join',
+          roomId: data.roomId,
+          role: 'host',
+          ...(typeof data.token === 'string' && { token: data.token }),
+        };
+      }
+      if (data.role === 'spectator') {
+        return { type: 'join', roomId: data.roomId, role: 'spectator' };
+      }
+      return null;
+    case 'category':
+      return typeof data.label === 'string' ? { type: 'category', label: data.label } : null;
+    case 'answer':
+      return typeof data.answer === 'number' ? { type: 'answer', answer: data.answer } : null;
+    case 'bet':
+      if (typeof data.slotIndex !== 'number' || !isOptional(data.wager, 'number')) return null;
+      if (data.meeple !== undefined && data.meeple !== 'big' && data.meeple !== 'small') return null;
+      return {
+        type: 'bet',
+        slotIndex: data.slotIndex,
+        ...(typeof data.wager === 'number' && { wager: data.wager }),
+        ...((data.meeple === 'big' || data.meeple === 'small') && { meeple: data.meeple }),
+      };
+    case 'finalWager':
+      if (typeof data.slotIndex !== 'number' || typeof data.amount !== 'number') return null;
+      return { type: 'finalWager', slotIndex: data.slotIndex, amount: data.amount };
+    case 'advance':
+      return { type: 'advance' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a message received on a table link
+ * @param raw - Message text as received
+ * @returns The message, or null if it is malformed
+ */
+export function parseLinkMessage(raw: string): LinkClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  switch (data.type) {
+    case 'openTable':
+    case 'joinTable':
+      if (typeof data.tableId !== 'string' || data.tableId === '') return null;
+      return { type: data.type, tableId: data.tableId };
+    case 'toController':
+      if (typeof data.controllerId !== 'string' || !('message' in data)) return null;
+      return { type: 'toController', controllerId: data.controllerId, message: data.message };
+    case 'toTable':
+      return 'message' in data ? { type: 'toTable', message: data.message } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,126 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'node:net';
+import type { Question } from '../core/types';
+import { Room, type RoomConnection } from './room';
+import { TableLinks, type LinkConnection } from './table-link';
+import {
+  TABLE_LINK_PATH,
+  parseClientMessage,
+  parseLinkMessage,
+  type LinkServerMessage,
+  type ServerMessage,
+} from './protocol';
+
+export interface RoomServerOptions {
+  // 0 picks a free port
+  port?: number;
+  host?: string;
+  // Question bank every new room starts with
+  questions: Question[];
+  // How often timed phases are checked for expiry
+  tickIntervalMs?: number;
+}
+
+export interface RoomServer {
+  // The port actually listened on
+  port: number;
+  rooms: ReadonlyMap<string, Room>;
+  // Table screens running their own game, and the controllers linked to them
+  tables: TableLinks;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a WebSocket server hosting one game per room. A room is created
+ * when its first client joins and removed when its last client disconnects;
+ * clients send ClientMessages as JSON and
+ * receive ServerMessages. Clients connecting on TABLE_LINK_PATH instead
+ * send LinkClientMessages to link a table screen with its controllers.
+ * @param options - Where to listen and which questions to play
+ * @returns The running server
+ */
+export function startRoomServer(options: RoomServerOptions): Promise<RoomServer> {
+  const { port = 0, host = '127.0.0.1', questions, tickIntervalMs = 250 } = options;
+  const rooms = new Map<string, Room>();
+  const tables = new TableLinks();
+  const wss = new WebSocketServer({ port, host });
+
+  const ticker = setInterval(() => {
+    rooms.forEach((room) => room.tick());
+  }, tickIntervalMs);
+
+  wss.on('connection', (socket, request) => {
+    if (request.url === TABLE_LINK_PATH) {
+      const link: LinkConnection = {
+        send(message: LinkServerMessage) {
+          if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+      };
+      socket.on('message', (data) => {
+        const message = parseLinkMessage(data.toString());
+        if (message) {
+          tables.handle(link, message);
+        } else {
+          link.send({ type: 'error', code: 'BAD_MESSAGE', message: 'Malformed message' });
+        }
+      });
+      socket.on('close', () => tables.leave(link));
+      return;
+    }
+
+    const connection: RoomConnection = {
+      send(message: ServerMessage) {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+    };
+    // A socket belongs to the first room it joins successfully
+    let room: Room | null = null;
+
+    socket.on('message', (data) => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        connection.send({ type: 'error', code: 'BAD_MESSAGE', message: 'Malformed message' });
+        return;
+      }
+      if (room) {
+        room.handle(connection, message);
+        return;
+      }
+      if (message.type !== 'join') {
+        connection.send({ type: 'error', code: 'NOT_JOINED', message: 'Join a room first' });
+        return;
+      }
+      // A refused join leaves the socket free and creates no room
+      const joining = rooms.get(message.roomId) ?? new Room(message.roomId, questions);
+      joining.handle(connection, message);
+      if (joining.hasConnection(connection)) {
+        room = joining;
+        rooms.set(room.id, room);
+      }
+    });
+
+    socket.on('close', () => {
+      if (!room) return;
+      room.leave(connection);
+      // Nobody is left to tick the room for or send it moves
+      if (room.getConnectionCount() === 0) rooms.delete(room.id);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      resolve({
+        port: (wss.address() as AddressInfo).port,
+        rooms,
+        tables,
+        close: () =>
+          new Promise<void>((done) => {
+            clearInterval(ticker);
+            wss.clients.forEach((client) => client.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+}
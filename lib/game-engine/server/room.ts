@@ -0,0 +1,272 @@
+import { randomUUID } from 'node:crypto';
+import { WitsAndWagersEngine } from '../core/game-engine';
+import { PhaseError, isGameError } from '../core/errors';
+import { getPlayerTeam } from '../core/team-manager';
+import type { Question, Viewer } from '../core/types';
+import { createSnapshot } from './snapshot';
+import type {
+  ClientMessage,
+  ProtocolErrorCode,
+  RoomErrorMessage,
+  ServerMessage,
+} from './protocol';
+
+/**
+ * One client's link to a room. The room server wraps a WebSocket in it;
+ * tests can pass plain objects.
+ */
+export interface RoomConnection {
+  send(message: ServerMessage): void;
+}
+
+/**
+ * A protocol mistake, reported to the client that made it
+ */
+class ProtocolError extends Error {
+  constructor(
+    readonly code: ProtocolErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Players' seats are their IDs; the room has a single host seat
+function getSeatKey(seat: Viewer): string | null {
+  if (seat.role === 'player') return seat.playerId;
+  return seat.role === 'host' ? 'host' : null;
+}
+
+function toErrorMessage(error: unknown): RoomErrorMessage {
+  if (error instanceof ProtocolError) {
+    return { type: 'error', code: error.code, message: error.message };
+  }
+  if (isGameError(error)) {
+    // A GameError's code and details always match
+    return {
+      type: 'error',
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    } as RoomErrorMessage;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { type: 'error', code: 'REJECTED', message };
+}
+
+/**
+ * A game hosted for a group of clients. The room's engine is the only copy
+ * of the game: clients send moves and receive snapshots, so they can never
+ * change the game or see more of it than their seat allows.
+ */
+export class Room {
+  readonly engine: WitsAndWagersEngine;
+  // Who each client is, which decides what it sees
+  private seats = new Map<RoomConnection, Viewer>();
+  // Secret that takes a seat back after a disconnect, by player ID or 'host'
+  private tokens = new Map<string, string>();
+
+  /**
+   * @param id - Room ID clients join with
+   * @param questions - Question bank
+   * @param now - Clock used by phase timers; inject a fake one in tests
+   */
+  constructor(
+    readonly id: string,
+    questions: Question[],
+    now: () => number = Date.now
+  ) {
+    this.engine = new WitsAndWagersEngine(questions, now);
+  }
+
+  /**
+   * Returns how many clients are connected
+   */
+  getConnectionCount(): number {
+    return this.seats.size;
+  }
+
+  /**
+   * Returns whether a client has joined the room
+   * @param connection - The client
+   */
+  hasConnection(connection: RoomConnection): boolean {
+    return this.seats.has(connection);
+  }
+
+  /**
+   * Handles a message from a client. Every client is sent a fresh snapshot
+   * after a successful move; a refused move is only reported to its sender.
+   * @param connection - Client the message came from
+   * @param message - The message
+   */
+  handle(connection: RoomConnection, message: ClientMessage): void {
+    try {
+      if (message.type === 'join') {
+        this.join(connection, message);
+      } else {
+        this.act(this.getSeat(connection), message);
+      }
+    } catch (error) {
+      connection.send(toErrorMessage(error));
+      return;
+    }
+    this.broadcast();
+  }
+
+  /**
+   * Removes a disconnected client. Its player (or host) keeps their seat so
+   * the same client can rejoin with the seat's token.
+   * @param connection - Client that disconnected
+   */
+  leave(connection: RoomConnection): void {
+    this.seats.delete(connection);
+  }
+
+  /**
+   * Ends the current phase if its countdown has run out and tells every client.
+   * Call this regularly while a timed phase is in progress.
+   * @returns True if the phase was ended
+   */
+  tick(): boolean {
+    if (!this.engine.tick()) return false;
+    this.broadcast();
+    return true;
+  }
+
+  /**
+   * Sends every client a snapshot of what its seat may see
+   */
+  broadcast(): void {
+    for (const [connection, seat] of this.seats) {
+      connection.send({
+        type: 'snapshot',
+        snapshot: createSnapshot(this.engine, this.id, seat),
+      });
+    }
+  }
+
+  private getSeat(connection: RoomConnection): Viewer {
+    const seat = this.seats.get(connection);
+    if (!seat) throw new ProtocolError('NOT_JOINED', 'Join the room first');
+    return seat;
+  }
+
+  private join(connection: RoomConnection, message: Extract<ClientMessage, { type: 'join' }>): void {
+    if (this.seats.has(connection)) {
+      throw new ProtocolError('ALREADY_JOINED', 'Already joined this room');
+    }
+
+    let seat: Viewer;
+    if (message.role === 'player') {
+      if (message.playerId !== undefined) {
+        const exists = this.engine.getPlayers().some((p) => p.id === message.playerId);
+        if (!exists || this.engine.hasLeft(message.playerId)) {
+          throw new ProtocolError('UNKNOWN_SEAT', `No player ${message.playerId} in this room`);
+        }
+        this.reclaim(message.playerId, message.token);
+        seat = { role: 'player', playerId: message.playerId };
+      } else {
+        this.engine.addPlayer(message.name);
+        seat = { role: 'player', playerId: this.engine.getPlayers().at(-1)!.id };
+      }
+    } else if (message.role === 'host') {
+      // The first host takes the seat; later hosts must prove they are that host
+      if (this.tokens.has('host')) this.reclaim('host', message.token);
+      seat = { role: 'host' };
+    } else {
+      seat = { role: 'spectator' };
+    }
+
+    this.seats.set(connection, seat);
+    const seatKey = getSeatKey(seat);
+    connection.send({
+      type: 'joined',
+      roomId: this.id,
+      role: seat.role,
+      playerId: seat.role === 'player' ? seat.playerId : null,
+      token: seatKey === null ? null : this.issueToken(seatKey),
+    });
+  }
+
+  // Returns the seat's token, creating it the first time the seat is taken
+  private issueToken(seatKey: string): string {
+    let token = this.tokens.get(seatKey);
+    if (!token) {
+      token = randomUUID();
+      this.tokens.set(seatKey, token);
+    }
+    return token;
+  }
+
+  // Checks a client may take back a seat: it knows the seat's token and
+  // nobody else is connected to the seat
+  private reclaim(seatKey: string, token: string | undefined): void {
+    if (token === undefined || token !== this.tokens.get(seatKey)) {
+      throw new ProtocolError('BAD_TOKEN', `Wrong token for seat ${seatKey}`);
+    }
+    for (const seat of this.seats.values()) {
+      if (getSeatKey(seat) === seatKey) {
+        throw new ProtocolError('SEAT_TAKEN', `Seat ${seatKey} is already connected`);
+      }
+    }
+  }
+
+  private act(seat: Viewer, message: Exclude<ClientMessage, { type: 'join' }>): void {
+    if (message.type === 'advance') {
+      if (seat.role !== 'host') {
+        throw new ProtocolError('NOT_HOST', 'Only the host can move the game on');
+      }
+      this.advance();
+      return;
+    }
+
+    if (seat.role !== 'player') {
+      throw new ProtocolError('NOT_PLAYER', 'Only players can make moves');
+    }
+    // In a team game players move for their team
+    const playerId = getPlayerTeam(this.engine.getState(), seat.playerId)?.id ?? seat.playerId;
+    switch (message.type) {
+      case 'category':
+        this.engine.selectCategory(playerId, message.label);
+        break;
+      case 'answer':
+        this.engine.submitAnswer(playerId, message.answer);
+        break;
+      case 'bet':
+        this.engine.placeBet(playerId, message.slotIndex, message.wager ?? 0, message.meeple);
+        break;
+      case 'finalWager':
+        this.engine.placeFinalWager(playerId, message.slotIndex, message.amount);
+        break;
+    }
+  }
+
+  private advance(): void {
+    const phase = this.engine.getPhase();
+    switch (phase) {
+      case 'setup':
+        this.engine.startGame();
+        break;
+      case 'answering':
+        this.engine.finishAnswering();
+        break;
+      case 'betting':
+        this.engine.finishBetting();
+        break;
+      case 'results':
+        this.engine.nextRound();
+        break;
+      case 'game-over':
+        this.engine.resetGame();
+        break;
+      default:
+        // Question selection ends when the picker chooses a category
+        throw new PhaseError('WRONG_PHASE', `Cannot advance during ${phase}`, {
+          phase,
+          allowed: ['setup', 'answering', 'betting', 'results', 'game-over'],
+        });
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import type { WitsAndWagersEngine } from '../core/game-engine';
+import type { Viewer } from '../core/types';
+import type { RoomSnapshot } from './protocol';
+
+/**
+ * Builds what one client may see of a room's game
+ * @param engine - The room's engine
+ * @param roomId - ID of the room
+ * @param viewer - Who the snapshot is for
+ * @returns Snapshot without other players' hidden answers, bets and wagers,
+ *   and without the correct answer before the results
+ */
+export function createSnapshot(
+  engine: WitsAndWagersEngine,
+  roomId: string,
+  viewer: Viewer
+): RoomSnapshot {
+  const view = engine.getViewFor(viewer);
+
+  return {
+    roomId,
+    phase: view.phase,
+    round: engine.getCurrentRound(),
+    totalRounds: engine.getTotalRounds(),
+    config: view.config,
+    players: view.players,
+    teams: view.teams,
+    departedPlayerIds: view.departedPlayerIds,
+    question: view.currentQuestion,
+    answeredPlayerIds: view.answeredPlayerIds,
+    answers: view.playerAnswers,
+    // Built from the answers, which are public once betting starts
+    bettingBoard: engine.getBettingBoard(),
+    bets: view.playerBets,
+    finalWagers: view.finalWagers,
+    // Only there in the results, once everything is revealed
+    roundResult: engine.getRoundResult(),
+    scoreHistory: view.scoreHistory,
+    timeRemainingMs: engine.getTimeRemaining(),
+  };
+}
@@ -0,0 +1,141 @@
+import type { LinkClientMessage, LinkErrorCode, LinkServerMessage } from './protocol';
+
+/**
+ * One client's end of a table link. The room server wraps a WebSocket in it;
+ * tests can pass plain objects.
+ */
+export interface LinkConnection {
+  send(message: LinkServerMessage): void;
+}
+
+/**
+ * A link mistake, reported to the client that made it
+ */
+class LinkError extends Error {
+  constructor(
+    readonly code: LinkErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'LinkError';
+  }
+}
+
+interface OpenTable {
+  table: LinkConnection;
+  controllers: Map<string, LinkConnection>;
+}
+
+// Where a client is linked: as the table, or as one of its controllers
+type LinkEnd = { tableId: string; controllerId: string | null };
+
+/**
+ * Relays messages between table screens and the controllers linked to them.
+ * Unlike a Room, the game runs on the table screen: the server only passes
+ * messages along, and each controller only receives what the table
+ * addresses to it.
+ */
+export class TableLinks {
+  private tables = new Map<string, OpenTable>();
+  private ends = new Map<LinkConnection, LinkEnd>();
+  private nextControllerId = 1;
+
+  /**
+   * Returns whether a table screen is open under a code
+   * @param tableId - The table's code
+   */
+  has(tableId: string): boolean {
+    return this.tables.has(tableId);
+  }
+
+  /**
+   * Handles a message from a client. Mistakes are reported to the sender only.
+   * @param connection - Client the message came from
+   * @param message - The message
+   */
+  handle(connection: LinkConnection, message: LinkClientMessage): void {
+    try {
+      this.route(connection, message);
+    } catch (error) {
+      if (!(error instanceof LinkError)) throw error;
+      connection.send({ type: 'error', code: error.code, message: error.message });
+    }
+  }
+
+  /**
+   * Removes a disconnected client. When the table goes, its controllers are
+   * told and the code is free again.
+   * @param connection - Client that disconnected
+   */
+  leave(connection: LinkConnection): void {
+    const end = this.ends.get(connection);
+    this.ends.delete(connection);
+    const open = end && this.tables.get(end.tableId);
+    if (!end || !open) return;
+
+    if (end.controllerId === null) {
+      this.tables.delete(end.tableId);
+      for (const controller of open.controllers.values()) {
+        this.ends.delete(controller);
+        controller.send({ type: 'tableClosed' });
+      }
+    } else {
+      open.controllers.delete(end.controllerId);
+      open.table.send({ type: 'controllerLeft', controllerId: end.controllerId });
+    }
+  }
+
+  private route(connection: LinkConnection, message: LinkClientMessage): void {
+    if (message.type === 'openTable' || message.type === 'joinTable') {
+      if (this.ends.has(connection)) {
+        throw new LinkError('ALREADY_LINKED', 'Already linked to a table');
+      }
+      if (message.type === 'openTable') {
+        this.openTable(connection, message.tableId);
+      } else {
+        this.joinTable(connection, message.tableId);
+      }
+      return;
+    }
+
+    const end = this.ends.get(connection);
+    const open = end && this.tables.get(end.tableId);
+    if (!end || !open) throw new LinkError('NOT_LINKED', 'Open or join a table first');
+
+    if (message.type === 'toController') {
+      if (end.controllerId !== null) {
+        throw new LinkError('NOT_TABLE', 'Only the table can message controllers');
+      }
+      // A controller that just left is not an error: the table finds out soon
+      open.controllers.get(message.controllerId)?.send({ type: 'fromTable', message: message.message });
+    } else {
+      if (end.controllerId === null) {
+        throw new LinkError('NOT_CONTROLLER', 'Only controllers can message the table');
+      }
+      open.table.send({
+        type: 'fromController',
+        controllerId: end.controllerId,
+        message: message.message,
+      });
+    }
+  }
+
+  private openTable(connection: LinkConnection, tableId: string): void {
+    if (this.tables.has(tableId)) {
+      throw new LinkError('TABLE_TAKEN', `Table ${tableId} is already open`);
+    }
+    this.tables.set(tableId, { table: connection, controllers: new Map() });
+    this.ends.set(connection, { tableId, controllerId: null });
+    connection.send({ type: 'linked', tableId, role: 'table' });
+  }
+
+  private joinTable(connection: LinkConnection, tableId: string): void {
+    const open = this.tables.get(tableId);
+    if (!open) throw new LinkError('NO_TABLE', `No table open as ${tableId}`);
+
+    const controllerId = String(this.nextControllerId++);
+    open.controllers.set(controllerId, connection);
+    this.ends.set(connection, { tableId, controllerId });
+    connection.send({ type: 'linked', tableId, role: 'controller' });
+  }
+}
@@ -0,0 +1,330 @@
+import type { Messages } from './es';
+import { formatDateTime, formatNumber } from './format';
+
+const n = (value: number) => formatNumber(value, 'en');
+
+/**
+ * English UI text
+ */
+export const en: Messages = {
+  loading: 'Loading...',
+
+  meta: {
+    title: 'Wits and Wagers',
+    description: 'A trivia betting game where players guess answers and bet on the closest one',
+  },
+
+  common: {
+    round: (current, total) => `Round ${n(current)} of ${n(total)}`,
+    roundBonus: (bonus) => `Round bonus: +${n(bonus)}`,
+    points: (points) => `${n(points)} pts`,
+    players: 'Players',
+    add: 'Add',
+    remove: 'Remove',
+  },
+
+  presets: {
+    classic: 'Classic',
+    quick: 'Quick',
+    'no-bonus': 'No bonus',
+    'high-stakes': 'High stakes',
+    family: 'Family',
+  },
+
+  winningRules: {
+    'closest-without-going-over': 'Without going over',
+    'closest-absolute': 'Closest',
+    'closest-relative': 'Closest in proportion',
+  },
+
+  boardOverflows: {
+    merge: 'Group at the ends',
+    expand: 'Add slots',
+  },
+
+  questionSelectionModes: {
+    random: 'Random',
+    'leader-picks': 'Leader picks',
+    'last-place-picks': 'Last place picks',
+  },
+
+  betTimeoutFallbacks: {
+    none: 'Forfeited',
+    'special-slot': 'On "Smaller than all"',
+  },
+
+  lateJoinScores: {
+    zero: 'From zero',
+    average: 'With the average',
+    lowest: 'With the lowest',
+  },
+
+  meeples: {
+    big: 'Big',
+    small: 'Small',
+  },
+
+  errors: {
+    WRONG_PHASE: () => "That can't be done right now!",
+    NO_TIME_LIMIT: () => 'This phase has no time limit!',
+    NOT_FINAL_ROUND: () => 'The final wager is only made in the last round!',
+    NO_CURRENT_QUESTION: () => 'There is no question this round!',
+    NOTHING_TO_UNDO: () => 'Nothing to undo!',
+    NOTHING_TO_REDO: () => 'Nothing to redo!',
+    TEAM_GAME_IN_PROGRESS: () => 'Players cannot change during a team game!',
+    NOT_ENOUGH_PLAYERS: ({ needed }) => `At least ${n(needed)} players are needed!`,
+    INVALID_TEAMS: () => 'You need at least 2 teams, no empty teams and every player on a team!',
+    NO_QUESTIONS: () => 'There are no questions with the selected labels!',
+    NOT_ENOUGH_QUESTIONS: ({ available, needed }) =>
+      `Only ${n(available)} questions have the selected labels and ${n(needed)} are needed!`,
+    ANSWERS_MISSING: ({ playerIds }) =>
+      `${n(playerIds.length)} answer(s) missing! Every player must enter an answer.`,
+    BETS_MISSING: ({ required }) => `Every player must place ${n(required)} bets!`,
+    INVALID_ROUNDS: () => 'At least 1 round is needed!',
+    INVALID_CONFIG: () => 'That combination of rules is not valid!',
+    INVALID_SEED: () => 'The seed must be a whole number from 0!',
+    INVALID_QUESTIONS: () => 'The question bank is not valid!',
+    EMPTY_NAME: () => 'The name cannot be empty!',
+    PLAYER_NOT_FOUND: () => 'That player is not in the game!',
+    PLAYER_LEFT: () => 'That player already left the game!',
+    TEAM_NOT_FOUND: () => 'That team does not exist!',
+    NOT_PICKING_PLAYER: () => 'Only the picking player can choose the category!',
+    CATEGORY_EXHAUSTED: ({ label }) => `There are no ${label} questions left!`,
+    INVALID_ANSWER: () => 'Every answer must be a valid number!',
+    INVALID_SLOT: () => "That slot doesn't exist!",
+    EMPTY_SLOT: () => "You can't bet on an empty slot!",
+    WAGERS_NOT_ALLOWED: () => 'Points can only be wagered with the "Wager points" rule!',
+    INVALID_WAGER: () => 'The wager must be a whole number of points!',
+    WAGER_EXCEEDS_BANKROLL: ({ available }) => `You can only wager up to ${n(available)} points!`,
+    MEEPLES_NOT_ALLOWED: () => 'Meeples are only used in family rules!',
+    MEEPLE_ALREADY_PLACED: () => 'That meeple is already placed!',
+    BETS_LOCKED: () => 'Bets are revealed and can no longer be moved!',
+  },
+
+  board: {
+    smallerThanAll: 'Smaller than all',
+    specialSlot: (payout) => `Smaller than all (pays ${n(payout)} to 1)`,
+    answerSlot: (payout) => `Pays ${n(payout)} to 1`,
+    odds: (payout) => `${n(payout)}:1`,
+  },
+
+  savedGames: {
+    title: 'Saved Games',
+    finished: 'Finished',
+    leader: (names, score) => `Leader: ${names} (${n(score)} pts)`,
+    created: (timestamp) => `Created ${formatDateTime(timestamp, 'en')}`,
+    updated: (timestamp) => `Updated ${formatDateTime(timestamp, 'en')}`,
+    resume: 'Resume',
+    duplicate: 'Duplicate',
+    rename: 'Rename',
+    delete: 'Delete',
+    copyNamePrompt: 'Name of the copy',
+    copyName: (name) => `${name} (copy)`,
+    renamePrompt: 'New name',
+    confirmDelete: (name) => `Delete the game "${name}"?`,
+    nameTaken: 'A saved game with that name already exists!',
+    cannotLoad: (name) => `The saved game "${name}" can't be opened!`,
+  },
+
+  history: {
+    undo: '↶ Undo',
+    redo: 'Redo ↷',
+  },
+
+  controllers: {
+    toggle: '📱 Phones',
+    hint: 'Each player opens',
+    code: 'on their phone and types the code',
+    connecting: 'Connecting to the room server...',
+    unreachable: 'Could not reach the room server. Is npm run room-server running?',
+  },
+
+  countdown: {
+    pause: 'Pause',
+    resume: 'Resume',
+  },
+
+  scoreboard: {
+    title: 'Scoreboard',
+    round: 'Round',
+    score: 'Score',
+  },
+
+  roster: {
+    title: (count) => `Players (${n(count)})`,
+    left: ' (left)',
+    leave: 'Leaves',
+    newPlayerPlaceholder: 'New player name',
+    join: 'Join',
+    startingScore: (points) => `Starts with ${n(points)} points`,
+  },
+
+  setup: {
+    autosaveTitle: 'Game in progress',
+    continueAutosave: 'Continue game',
+    discardAutosave: 'Discard',
+    playerNamePlaceholder: 'Player name',
+    notEnoughPlayers: 'At least 2 players are needed',
+    teamsTitle: 'Teams',
+    teamsHint: 'Optional: each team shares one answer, its chips and its score.',
+    teamNamePlaceholder: 'Team name',
+    addTeam: 'Add team',
+    emptyTeam: 'No players',
+    noTeam: 'No team',
+    rulesTitle: 'Rules',
+    familySummary: (big, small, correctAnswerPoints) =>
+      `One big meeple (${n(big)} points) and one small meeple (${n(small)} point) per player • ` +
+      `No odds • ${n(correctAnswerPoints)} point(s) for a correct answer`,
+    targetScoreBefore: 'First to reach',
+    targetScoreAfter: 'points wins',
+    rulesSummary: (bets, correctAnswerPoints, roundBonus, specialPayout, answerPayouts) =>
+      `${n(bets)} chips per player • ${n(correctAnswerPoints)} points for a correct answer • ` +
+      `Round bonus: +${n(roundBonus)} per round • ` +
+      `Payouts: ${n(specialPayout)} to 1 (Smaller than all), ${answerPayouts.map(n).join('/')}`,
+    scoringModes: {
+      simplified: 'Simplified scoring',
+      bankroll: 'Wager points',
+    },
+    bankrollHint:
+      'Players can add points to their chips: they are paid at the slot odds if they win and lost if not.',
+    winningRuleTitle: 'Winning answer',
+    goingOverHint:
+      'Going over can win. "Smaller than all" still wins when the correct answer is below every answer.',
+    boardOverflowTitle: (answerSlots) => `More than ${n(answerSlots)} different answers`,
+    questionSelectionTitle: 'Questions',
+    pickerHint: (mode) =>
+      `Each round, ${mode === 'leader-picks' ? 'whoever is ahead' : 'whoever is last'} picks the question category.`,
+    timeLimitTitle: 'Time limit',
+    answerTimeLimit: 'Answers',
+    betTimeLimit: 'Bets',
+    noTimeLimit: 'No limit',
+    seconds: 's',
+    answerTimeoutHint: "Anyone who doesn't answer in time has no answer that round.",
+    betTimeoutTitle: 'Chips not placed when time runs out:',
+    lateJoinTitle: 'Players joining mid-game',
+    secretBettingTitle: 'Secret betting',
+    secretBettingOption: "Each player's chips stay hidden until everyone has bet",
+    finalRoundTitle: 'Final round',
+    finalWagerOption:
+      'Final wager: in the last round every player can secretly wager their points on one slot',
+    roundsTitle: 'Rounds',
+    roundsToPlay: 'rounds to play',
+    seedTitle: 'Seed',
+    randomSeed: 'Random',
+    seedHint: 'Two groups with the same seed and the same labels play the same questions.',
+    saveTitle: 'Save Game',
+    saveNamePlaceholder: 'Game name (optional)',
+    saveHint: 'With a name, the game is saved automatically and can be resumed from this screen.',
+    labelsTitle: 'Filter Questions by Label',
+    questionsAvailable: (count) => `${n(count)} questions available`,
+    filteredBy: (labels) => ` (filtered by: ${labels.join(', ')})`,
+    startGame: 'Start Game',
+  },
+
+  categoryPick: {
+    title: 'Pick a category',
+    picker: (name, mode) =>
+      `${name} picks (${mode === 'leader-picks' ? 'in the lead' : 'in last place'})`,
+  },
+
+  answering: {
+    precisionHint: (precision) => {
+      if (precision > 0) return `Answers are rounded to ${n(precision)} decimal place(s)`;
+      if (precision === 0) return 'Answers are rounded to whole numbers';
+      return `Answers are rounded to the nearest multiple of ${n(10 ** -precision)}`;
+    },
+    answerPlaceholder: 'Your answer',
+    continue: 'Continue to Betting',
+    submitted: '✓ Answered',
+    waiting: 'Thinking…',
+    allAtOnce: 'Everyone at once',
+    passAndPlay: 'Pass the device',
+    handTo: (name) => `Hand the device to ${name}`,
+    curtainHint: 'Nobody else should look at the screen',
+    ready: (name) => `I'm ${name}`,
+    answerFor: (name) => `${name}'s answer`,
+    save: 'Save answer',
+    hidden: '••••',
+    allAnswered: 'Everyone has answered!',
+    reveal: 'Reveal the answers',
+  },
+
+  controller: {
+    title: 'Your controller',
+    waitingForTable: 'Open the game on the table screen and turn on phones.',
+    chooseSeat: 'Who are you?',
+    changeSeat: 'Switch player',
+    score: (points) => `${n(points)} points`,
+    lookAtTable: 'Look at the table screen',
+    send: 'Send',
+    yourAnswer: (answer) => `Your answer: ${answer}`,
+    placeChip: 'Tap a slot to place a chip',
+    allChipsPlaced: 'All your chips are on the table',
+    tableCode: 'Table code',
+    join: 'Join',
+    changeTable: 'Switch table',
+    connecting: 'Connecting to the table...',
+    noTable: 'No table is open with that code.',
+    tableClosed: 'Lost the connection to the table.',
+    wager: 'Points on your next chip:',
+    meeple: 'Meeple:',
+    seatErrors: {
+      UNKNOWN_SEAT: 'That player is no longer in the game.',
+      BAD_TOKEN: 'That player was already picked on another phone.',
+      SEAT_TAKEN: 'That player was already picked on another phone.',
+      NO_SEAT: 'Pick who you are first.',
+      BAD_MESSAGE: "The table couldn't understand what this phone sent.",
+    },
+  },
+
+  finalWager: {
+    round: 'Final round',
+    title: 'Final wager',
+    rules:
+      'Secretly wager some of your points on one slot. If it wins you are paid at its odds; if not, you lose them.',
+    turn: (name) => `${name}'s turn (everyone else, look away)`,
+    amountPlaceholder: 'Points',
+    confirm: 'Confirm',
+    skip: "Don't wager",
+    continue: 'Continue to the chips',
+    chooseSlot: 'Choose a slot for the final wager!',
+  },
+
+  betting: {
+    available: (points) => `Available: ${n(points)}`,
+    wagerFor: (name) => `Points on ${name}'s next chip:`,
+    meepleOf: (name) => `${name}'s meeple:`,
+    boardTitle: 'Betting Table',
+    emptySlot: '(Empty slot)',
+    active: '← Betting',
+    chips: (placed, max) => `Chips: ${n(placed)}/${n(max)}`,
+    showResults: 'See Results',
+    secret: 'Secret betting: each player only sees their own chips until everyone has bet.',
+  },
+
+  results: {
+    correctAnswer: 'Correct answer:',
+    asOf: (date) => `As of ${date}`,
+    source: (source) => `Source: ${source}`,
+    winningSlot: 'Winning Slot:',
+    pays: (payout) => `(pays ${n(payout)}:1)`,
+    rule: (rule) => `Rule: ${rule}`,
+    answeredBy: 'Answered by:',
+    boardTitle: 'Betting Table:',
+    betCount: (count, family) => `${n(count)} ${family ? 'meeple(s)' : 'chip(s)'}`,
+    finalWagersTitle: 'Final wagers:',
+    finalWager: (name, amount, slot) => `${name}: ${n(amount)} pts on ${slot}`,
+    updatedScores: 'Updated Scores:',
+    showWinner: 'See Winner',
+    nextRound: 'Next Round',
+  },
+
+  gameOver: {
+    title: 'Game Over!',
+    winner: '🏆 Winner 🏆',
+    points: (points) => `${n(points)} points`,
+    standings: 'Final Standings:',
+    seed: (seed) => `Seed of this game: ${seed}`,
+    playAgain: 'Play Again',
+  },
+};
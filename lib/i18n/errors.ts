@@ -0,0 +1,17 @@
+import type { GameErrorCode, GameErrorDetails } from '@/lib/game-engine/core';
+import type { Messages } from './es';
+
+/**
+ * Words an engine error in the UI language. Takes the code and details
+ * rather than the error itself, so errors sent between screens work too.
+ * @param error - A GameError, or its code and details
+ * @param t - Text catalog of the UI language
+ * @returns The message to show the players
+ */
+export function describeGameError<C extends GameErrorCode>(
+  error: { code: C; details: GameErrorDetails[C] },
+  t: Messages
+): string {
+  const messages: { [K in GameErrorCode]: (details: GameErrorDetails[K]) => string } = t.errors;
+  return messages[error.code](error.details);
+}
@@ -0,0 +1,352 @@
+import type {
+  BetTimeoutFallback,
+  BoardOverflow,
+  GameConfigPresetName,
+  GameErrorCode,
+  GameErrorDetails,
+  LateJoinScore,
+  Meeple,
+  QuestionSelectionMode,
+  WinningRuleName,
+} from '@/lib/game-engine/core';
+import type { SeatErrorCode } from '@/lib/game-engine/react/controller-channel';
+import { formatDateTime, formatNumber } from './format';
+
+const n = (value: number) => formatNumber(value, 'es');
+
+/**
+ * Spanish UI text. It is the default locale and the reference every other
+ * catalog must match key for key.
+ */
+export const es = {
+  loading: 'Cargando...',
+
+  meta: {
+    title: 'Wits and Wagers',
+    description: 'Un juego de apuestas de trivia donde los jugadores adivinan respuestas y apuestan por la más cercana',
+  },
+
+  common: {
+    round: (current: number, total: number) => `Ronda ${n(current)} de ${n(total)}`,
+    roundBonus: (bonus: number) => `Bono de ronda: +${n(bonus)}`,
+    points: (points: number) => `${n(points)} pts`,
+    players: 'Jugadores',
+    add: 'Agregar',
+    remove: 'Eliminar',
+  },
+
+  presets: {
+    classic: 'Clásico',
+    quick: 'Rápido',
+    'no-bonus': 'Sin bono',
+    'high-stakes': 'Apuestas altas',
+    family: 'Familiar',
+  } satisfies Record<GameConfigPresetName, string>,
+
+  winningRules: {
+    'closest-without-going-over': 'Sin pasarse',
+    'closest-absolute': 'La más cercana',
+    'closest-relative': 'La más cercana en proporción',
+  } satisfies Record<WinningRuleName, string>,
+
+  boardOverflows: {
+    merge: 'Agrupar en los extremos',
+    expand: 'Agregar casillas',
+  } satisfies Record<BoardOverflow, string>,
+
+  questionSelectionModes: {
+    random: 'Al azar',
+    'leader-picks': 'Elige el líder',
+    'last-place-picks': 'Elige el último',
+  } satisfies Record<QuestionSelectionMode, string>,
+
+  betTimeoutFallbacks: {
+    none: 'Se pierden',
+    'special-slot': 'A "Menor que todas"',
+  } satisfies Record<BetTimeoutFallback, string>,
+
+  lateJoinScores: {
+    zero: 'Desde cero',
+    average: 'Con la media',
+    lowest: 'Con la más baja',
+  } satisfies Record<LateJoinScore, string>,
+
+  meeples: {
+    big: 'Grande',
+    small: 'Pequeño',
+  } satisfies Record<Meeple, string>,
+
+  // What to tell the players when the engine rejects an action
+  errors: {
+    WRONG_PHASE: () => '¡Eso no se puede hacer ahora!',
+    NO_TIME_LIMIT: () => '¡Esta fase no tiene tiempo límite!',
+    NOT_FINAL_ROUND: () => '¡La apuesta final solo se hace en la última ronda!',
+    NO_CURRENT_QUESTION: () => '¡No hay pregunta en esta ronda!',
+    NOTHING_TO_UNDO: () => '¡No hay nada que deshacer!',
+    NOTHING_TO_REDO: () => '¡No hay nada que rehacer!',
+    TEAM_GAME_IN_PROGRESS: () => '¡No se pueden cambiar jugadores durante un juego por equipos!',
+    NOT_ENOUGH_PLAYERS: ({ needed }) => `¡Se necesitan al menos ${n(needed)} jugadores!`,
+    INVALID_TEAMS: () => '¡Se necesitan al menos 2 equipos, sin equipos vacíos y con todos los jugadores asignados!',
+    NO_QUESTIONS: () => '¡No hay preguntas disponibles con las etiquetas seleccionadas!',
+    NOT_ENOUGH_QUESTIONS: ({ available, needed }) =>
+      `¡Solo hay ${n(available)} preguntas con las etiquetas seleccionadas y se necesitan ${n(needed)}!`,
+    ANSWERS_MISSING: ({ playerIds }) =>
+      `¡Faltan ${n(playerIds.length)} respuesta(s)! Todos los jugadores deben ingresar una respuesta.`,
+    BETS_MISSING: ({ required }) => `¡Todos los jugadores deben colocar ${n(required)} apuestas!`,
+    INVALID_ROUNDS: () => '¡Se necesita al menos 1 ronda!',
+    INVALID_CONFIG: () => '¡Esa combinación de reglas no es válida!',
+    INVALID_SEED: () => '¡La semilla debe ser un número entero desde 0!',
+    INVALID_QUESTIONS: () => '¡El banco de preguntas no es válido!',
+    EMPTY_NAME: () => '¡El nombre no puede estar vacío!',
+    PLAYER_NOT_FOUND: () => '¡Ese jugador no está en la partida!',
+    PLAYER_LEFT: () => '¡Ese jugador ya se fue de la partida!',
+    TEAM_NOT_FOUND: () => '¡Ese equipo no existe!',
+    NOT_PICKING_PLAYER: () => '¡Solo quien elige puede escoger la categoría!',
+    CATEGORY_EXHAUSTED: ({ label }) => `¡No quedan preguntas de ${label}!`,
+    INVALID_ANSWER: () => '¡Todas las respuestas deben ser números válidos!',
+    INVALID_SLOT: () => '¡Esa casilla no existe!',
+    EMPTY_SLOT: () => '¡No se puede apostar en una casilla vacía!',
+    WAGERS_NOT_ALLOWED: () => '¡Solo se apuestan puntos con la regla "Apostar puntos"!',
+    INVALID_WAGER: () => '¡La apuesta debe ser un número entero de puntos!',
+    WAGER_EXCEEDS_BANKROLL: ({ available }) => `¡Solo puedes apostar hasta ${n(available)} puntos!`,
+    MEEPLES_NOT_ALLOWED: () => '¡Los meeples solo se usan en las reglas familiares!',
+    MEEPLE_ALREADY_PLACED: () => '¡Ese meeple ya está colocado!',
+    BETS_LOCKED: () => '¡Las apuestas ya se revelaron y no se pueden mover!',
+  } satisfies { [C in GameErrorCode]: (details: GameErrorDetails[C]) => string },
+
+  board: {
+    smallerThanAll: 'Menor que todas',
+    specialSlot: (payout: number) => `Menor que todas (paga ${n(payout)} a 1)`,
+    answerSlot: (payout: number) => `Paga ${n(payout)} a 1`,
+    odds: (payout: number) => `${n(payout)}:1`,
+  },
+
+  savedGames: {
+    title: 'Partidas Guardadas',
+    finished: 'Terminada',
+    leader: (names: string, score: number) => `Líder: ${names} (${n(score)} pts)`,
+    created: (timestamp: number) => `Creada ${formatDateTime(timestamp, 'es')}`,
+    updated: (timestamp: number) => `Actualizada ${formatDateTime(timestamp, 'es')}`,
+    resume: 'Reanudar',
+    duplicate: 'Duplicar',
+    rename: 'Renombrar',
+    delete: 'Eliminar',
+    copyNamePrompt: 'Nombre de la copia',
+    copyName: (name: string) => `${name} (copia)`,
+    renamePrompt: 'Nuevo nombre',
+    confirmDelete: (name: string) => `¿Eliminar la partida "${name}"?`,
+    nameTaken: '¡Ya existe una partida guardada con ese nombre!',
+    cannotLoad: (name: string) => `¡No se puede abrir la partida "${name}"!`,
+  },
+
+  history: {
+    undo: '↶ Deshacer',
+    redo: 'Rehacer ↷',
+  },
+
+  controllers: {
+    toggle: '📱 Móviles',
+    hint: 'Cada jugador abre en su móvil',
+    code: 'y escribe el código',
+    connecting: 'Conectando con el servidor de salas...',
+    unreachable: 'No se pudo conectar con el servidor de salas. ¿Está corriendo npm run room-server?',
+  },
+
+  countdown: {
+    pause: 'Pausar',
+    resume: 'Reanudar',
+  },
+
+  scoreboard: {
+    title: 'Tabla de Puntuaciones',
+    round: 'Ronda',
+    score: 'Puntuación',
+  },
+
+  roster: {
+    title: (count: number) => `Jugadores (${n(count)})`,
+    left: ' (se fue)',
+    leave: 'Se va',
+    newPlayerPlaceholder: 'Nombre del nuevo jugador',
+    join: 'Unirse',
+    startingScore: (points: number) => `Empieza con ${n(points)} puntos`,
+  },
+
+  setup: {
+    autosaveTitle: 'Partida en curso',
+    continueAutosave: 'Continuar partida',
+    discardAutosave: 'Descartar',
+    playerNamePlaceholder: 'Nombre del jugador',
+    notEnoughPlayers: 'Se necesitan al menos 2 jugadores',
+    teamsTitle: 'Equipos',
+    teamsHint: 'Opcional: cada equipo comparte una respuesta, sus fichas y su puntuación.',
+    teamNamePlaceholder: 'Nombre del equipo',
+    addTeam: 'Agregar equipo',
+    emptyTeam: 'Sin jugadores',
+    noTeam: 'Sin equipo',
+    rulesTitle: 'Reglas',
+    familySummary: (big: number, small: number, correctAnswerPoints: number) =>
+      `Un meeple grande (${n(big)} puntos) y uno pequeño (${n(small)} punto) por jugador • ` +
+      `Sin cuotas • ${n(correctAnswerPoints)} punto(s) por acertar`,
+    targetScoreBefore: 'Gana el primero en llegar a',
+    targetScoreAfter: 'puntos',
+    rulesSummary: (
+      bets: number,
+      correctAnswerPoints: number,
+      roundBonus: number,
+      specialPayout: number,
+      answerPayouts: number[]
+    ) =>
+      `${n(bets)} fichas por jugador • ${n(correctAnswerPoints)} puntos por acertar • ` +
+      `Bono de ronda: +${n(roundBonus)} por ronda • ` +
+      `Pagos: ${n(specialPayout)} a 1 (Menor que todas), ${answerPayouts.map(n).join('/')}`,
+    scoringModes: {
+      simplified: 'Puntuación simplificada',
+      bankroll: 'Apostar puntos',
+    },
+    bankrollHint:
+      'Cada jugador puede sumar puntos a sus fichas: se pagan según la casilla si aciertan y se pierden si no.',
+    winningRuleTitle: 'Respuesta ganadora',
+    goingOverHint:
+      'Se puede ganar pasándose. "Menor que todas" sigue ganando si la respuesta correcta es menor que todas las respuestas.',
+    boardOverflowTitle: (answerSlots: number) => `Más de ${n(answerSlots)} respuestas distintas`,
+    questionSelectionTitle: 'Preguntas',
+    pickerHint: (mode: Exclude<QuestionSelectionMode, 'random'>) =>
+      `Cada ronda, ${mode === 'leader-picks' ? 'quien va primero' : 'quien va último'} elige la categoría de la pregunta.`,
+    timeLimitTitle: 'Tiempo límite',
+    answerTimeLimit: 'Respuestas',
+    betTimeLimit: 'Apuestas',
+    noTimeLimit: 'Sin límite',
+    seconds: 's',
+    answerTimeoutHint: 'Quien no responda a tiempo se queda sin respuesta esa ronda.',
+    betTimeoutTitle: 'Fichas sin colocar al acabar el tiempo:',
+    lateJoinTitle: 'Jugadores que se unen a media partida',
+    secretBettingTitle: 'Apuestas secretas',
+    secretBettingOption: 'Las fichas de cada jugador quedan ocultas hasta que todos hayan apostado',
+    finalRoundTitle: 'Ronda final',
+    finalWagerOption:
+      'Apuesta final: en la última ronda cada jugador puede apostar en secreto sus puntos a una casilla',
+    roundsTitle: 'Rondas',
+    roundsToPlay: 'rondas para jugar',
+    seedTitle: 'Semilla',
+    randomSeed: 'Aleatoria',
+    seedHint: 'Dos grupos con la misma semilla y las mismas etiquetas juegan las mismas preguntas.',
+    saveTitle: 'Guardar Partida',
+    saveNamePlaceholder: 'Nombre de la partida (opcional)',
+    saveHint:
+      'Con un nombre, la partida se guarda automáticamente y se puede reanudar desde esta pantalla.',
+    labelsTitle: 'Filtrar Preguntas por Etiqueta',
+    questionsAvailable: (count: number) => `${n(count)} preguntas disponibles`,
+    filteredBy: (labels: string[]) => ` (filtradas por: ${labels.join(', ')})`,
+    startGame: 'Comenzar Juego',
+  },
+
+  categoryPick: {
+    title: 'Elige una categoría',
+    picker: (name: string, mode: QuestionSelectionMode) =>
+      `Elige ${name} (${mode === 'leader-picks' ? 'va primero' : 'va último'})`,
+  },
+
+  answering: {
+    precisionHint: (precision: number) => {
+      if (precision > 0) return `Las respuestas se redondean a ${n(precision)} decimal(es)`;
+      if (precision === 0) return 'Las respuestas se redondean a números enteros';
+      return `Las respuestas se redondean al múltiplo de ${n(10 ** -precision)} más cercano`;
+    },
+    answerPlaceholder: 'Tu respuesta',
+    continue: 'Continuar a Apuestas',
+    submitted: '✓ Respondió',
+    waiting: 'Pensando…',
+    allAtOnce: 'Todos a la vez',
+    passAndPlay: 'Pasar el dispositivo',
+    handTo: (name: string) => `Pasa el dispositivo a ${name}`,
+    curtainHint: 'Que nadie más mire la pantalla',
+    ready: (name: string) => `Soy ${name}`,
+    answerFor: (name: string) => `Respuesta de ${name}`,
+    save: 'Guardar respuesta',
+    hidden: '••••',
+    allAnswered: '¡Todos han respondido!',
+    reveal: 'Revelar las respuestas',
+  },
+
+  controller: {
+    title: 'Tu mando',
+    waitingForTable: 'Abre la partida en la pantalla de la mesa y activa los móviles.',
+    chooseSeat: '¿Quién eres?',
+    changeSeat: 'Cambiar de jugador',
+    score: (points: number) => `${n(points)} puntos`,
+    lookAtTable: 'Mira la pantalla de la mesa',
+    send: 'Enviar',
+    yourAnswer: (answer: string) => `Tu respuesta: ${answer}`,
+    placeChip: 'Toca una casilla para poner una ficha',
+    allChipsPlaced: 'Todas tus fichas están en la mesa',
+    tableCode: 'Código de la mesa',
+    join: 'Entrar',
+    changeTable: 'Cambiar de mesa',
+    connecting: 'Conectando con la mesa...',
+    noTable: 'No hay ninguna mesa abierta con ese código.',
+    tableClosed: 'Se perdió la conexión con la mesa.',
+    wager: 'Puntos para la próxima ficha:',
+    meeple: 'Meeple:',
+    seatErrors: {
+      UNKNOWN_SEAT: 'Ese jugador ya no está en la partida.',
+      BAD_TOKEN: 'Ese jugador ya se eligió en otro móvil.',
+      SEAT_TAKEN: 'Ese jugador ya se eligió en otro móvil.',
+      NO_SEAT: 'Primero elige quién eres.',
+      BAD_MESSAGE: 'La mesa no entendió lo que envió este móvil.',
+    } satisfies Record<SeatErrorCode, string>,
+  },
+
+  finalWager: {
+    round: 'Ronda final',
+    title: 'Apuesta final',
+    rules:
+      'Apuesta en secreto parte de tus puntos a una casilla. Si gana, cobras según su pago; si no, los pierdes.',
+    turn: (name: string) => `Turno de ${name} (que los demás no miren)`,
+    amountPlaceholder: 'Puntos',
+    confirm: 'Confirmar',
+    skip: 'No apostar',
+    continue: 'Continuar a las fichas',
+    chooseSlot: '¡Elige una casilla para la apuesta final!',
+  },
+
+  betting: {
+    available: (points: number) => `Disponibles: ${n(points)}`,
+    wagerFor: (name: string) => `Puntos para la próxima ficha de ${name}:`,
+    meepleOf: (name: string) => `Meeple de ${name}:`,
+    boardTitle: 'Mesa de Apuestas',
+    emptySlot: '(Casilla vacía)',
+    active: '← Apostando',
+    chips: (placed: number, max: number) => `Fichas: ${n(placed)}/${n(max)}`,
+    showResults: 'Ver Resultados',
+    secret: 'Apuestas secretas: cada jugador solo ve sus fichas hasta que todos hayan apostado.',
+  },
+
+  results: {
+    correctAnswer: 'Respuesta correcta:',
+    asOf: (date: string) => `Dato a fecha de ${date}`,
+    source: (source: string) => `Fuente: ${source}`,
+    winningSlot: 'Casilla Ganadora:',
+    pays: (payout: number) => `(paga ${n(payout)}:1)`,
+    rule: (rule: string) => `Regla: ${rule}`,
+    answeredBy: 'Respuesta de:',
+    boardTitle: 'Mesa de Apuestas:',
+    betCount: (count: number, family: boolean) => `${n(count)} ${family ? 'meeple(s)' : 'ficha(s)'}`,
+    finalWagersTitle: 'Apuestas finales:',
+    finalWager: (name: string, amount: number, slot: string) => `${name}: ${n(amount)} pts a ${slot}`,
+    updatedScores: 'Puntuaciones Actualizadas:',
+    showWinner: 'Ver Ganador',
+    nextRound: 'Siguiente Ronda',
+  },
+
+  gameOver: {
+    title: '¡Juego Terminado!',
+    winner: '🏆 Ganador 🏆',
+    points: (points: number) => `${n(points)} puntos`,
+    standings: 'Clasificación Final:',
+    seed: (seed: number) => `Semilla de esta partida: ${seed}`,
+    playAgain: 'Jugar de Nuevo',
+  },
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,22 @@
+export type Locale = 'es' | 'en';
+
+/**
+ * Formats a number the way the locale writes it (decimal mark, grouping)
+ * @param value - Number to format
+ * @param locale - Language to format for
+ * @returns The formatted number
+ */
+export function formatNumber(value: number, locale: Locale): string {
+  // Answers can have many decimals; never round what the players typed
+  return value.toLocaleString(locale, { maximumFractionDigits: 20 });
+}
+
+/**
+ * Formats a timestamp as a date and time in the locale
+ * @param timestamp - Milliseconds since the epoch
+ * @param locale - Language to format for
+ * @returns The formatted date and time
+ */
+export function formatDateTime(timestamp: number, locale: Locale): string {
+  return new Date(timestamp).toLocaleString(locale);
+}
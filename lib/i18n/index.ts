@@ -0,0 +1,22 @@
+// Locales and their UI text catalogs
+export {
+  DEFAULT_LOCALE,
+  LOCALE_NAMES,
+  isLocale,
+  getMessages,
+} from './locales';
+export type { Locale } from './format';
+export type { Messages } from './es';
+
+// Number and date formatting per locale
+export { formatNumber, formatDateTime } from './format';
+
+// Engine errors in the UI language
+export { describeGameError } from './errors';
+
+// Question bank in the chosen language
+export { loadQuestions } from './questions';
+export type { QuestionPack, LocalizedQuestions } from './questions';
+
+// React hook for the chosen language
+export { useLocale } from './use-locale';
@@ -0,0 +1,31 @@
+import { en } from './en';
+import { es, type Messages } from './es';
+import type { Locale } from './format';
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+// Each language is listed under its own name
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+const MESSAGES: Record<Locale, Messages> = { es, en };
+
+/**
+ * Checks whether a string names a supported locale
+ * @param value - Candidate locale, e.g. read from storage
+ * @returns True if there is a catalog for it
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in MESSAGES;
+}
+
+/**
+ * Returns the UI text catalog of a locale
+ * @param locale - Language to get the text in
+ * @returns The catalog
+ */
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
@@ -0,0 +1,51 @@
+import { translateQuestions } from '@/lib/game-engine/core';
+import type { Question, QuestionTranslation } from '@/lib/game-engine/core';
+import { DEFAULT_LOCALE } from './locales';
+import type { Locale } from './format';
+
+/**
+ * Translation of the question bank into one locale, served as
+ * questions.<locale>.json next to questions.json
+ */
+export interface QuestionPack {
+  // Display name of each canonical label ID
+  labels: Record<string, string>;
+  questions: QuestionTranslation[];
+}
+
+export interface LocalizedQuestions {
+  questions: Question[];
+  // Display name of each canonical label ID; labels not listed show their ID
+  labelNames: Record<string, string>;
+}
+
+// A locale without a pack (or a pack that fails to load) plays in the default language
+async function fetchQuestionPack(basePath: string, locale: Locale): Promise<QuestionPack | null> {
+  try {
+    const res = await fetch(`${basePath}/questions.${locale}.json`);
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the question bank in a locale. questions.json is the bank in the
+ * default locale and holds the answers and canonical label IDs; other
+ * locales only translate its text.
+ * @param basePath - Path the app is served under
+ * @param locale - Language to show the questions in
+ * @returns The questions, translated where a translation exists, and label names
+ */
+export async function loadQuestions(basePath: string, locale: Locale): Promise<LocalizedQuestions> {
+  const res = await fetch(`${basePath}/questions.json`);
+  const questions: Question[] = await res.json();
+
+  const pack = locale === DEFAULT_LOCALE ? null : await fetchQuestionPack(basePath, locale);
+  if (!pack) return { questions, labelNames: {} };
+
+  return {
+    questions: translateQuestions(questions, pack.questions),
+    labelNames: pack.labels,
+  };
+}
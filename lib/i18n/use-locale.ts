@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { DEFAULT_LOCALE, getMessages, isLocale } from './locales';
+import { formatNumber, type Locale } from './format';
+
+const LOCALE_KEY = 'wits-and-wagers:locale';
+
+// Every mounted useLocale, re-rendered when the language changes
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return isLocale(stored) ? stored : DEFAULT_LOCALE;
+}
+
+// The server renders the default language; the stored one takes over on the client
+function getServerSnapshot(): Locale {
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * React hook for the language the UI is shown in. The choice is remembered
+ * in localStorage and shared by every component using the hook.
+ *
+ * @returns The locale, its text catalog, a number formatter and a setter
+ *
+ * @example
+ * const { t, setLocale } = useLocale();
+ * t.betting.boardTitle; // 'Mesa de Apuestas'
+ * setLocale('en');
+ */
+export function useLocale() {
+  const locale = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  // Screen readers, the browser's spell checking and the page description
+  // follow the UI language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document
+      .querySelector('meta[name="description"]')
+      ?.setAttribute('content', getMessages(locale).meta.description);
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_KEY, next);
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  const format = useCallback((value: number) => formatNumber(value, locale), [locale]);
+
+  return {
+    locale,
+    t: getMessages(locale),
+    setLocale,
+    formatNumber: format,
+  };
+}